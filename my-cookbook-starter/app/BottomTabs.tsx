@@ -2,10 +2,12 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import NotificationBell from './components/NotificationBell';
 
 const TABS = [
   { href: '/friends',   label: 'Friends' },
   { href: '/community', label: 'Community' },
+  { href: '/plan',      label: 'Plan' },
   { href: '/cookbook',  label: 'My Cookbook' },
 ];
 
@@ -72,6 +74,17 @@ export default function BottomTabs() {
           </Link>
         );
       })}
+      {/* bell sits after the tabs; renders nothing when signed out */}
+      <NotificationBell
+        active={pathname?.startsWith('/notifications')}
+        style={{
+          ...baseBtn,
+          ...(pathname?.startsWith('/notifications') ? activeBtn : {}),
+          flex: '0 0 56px',
+          borderRight: 'none',
+          borderLeft: '1px solid #f0f0f4',
+        }}
+      />
     </nav>
   );
 }
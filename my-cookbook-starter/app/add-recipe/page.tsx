@@ -4,19 +4,22 @@ import { Suspense, useEffect, useMemo, useRef, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import AvatarCropModal from '@/app/components/AvatarCropModal';
 import { supabase } from '@/lib/supabaseClient';
+import { formatIngredientLine, formatQuantityRange, parseIngredientLine, unitLabel } from '@/lib/ingredientParser';
+import { matchRecipeTypes, type ImportedRecipe } from '@/lib/recipeImport';
+import { parseRecipeText } from '@/lib/recipeTextImport';
+import { copyRecipePhotoToUser, storagePathFromPublicUrl } from '@/lib/recipePhotos';
+import { buildSaveRecipeArgs, contentFromForm, saveFullRecipe, type RecipeCore } from '@/lib/recipePayload';
+import { DIETARY_TAG_OPTIONS, RECIPE_TYPE_OPTIONS } from '@/lib/recipeTypes';
+import { emitRecipeMutation, RECIPE_SNAPSHOT_COLUMNS, type RecipeSnapshot } from '@/lib/recipeSync';
+import { isOffline, queueOfflineOp } from '@/lib/offlineQueue';
+import { canEditBook, fetchMyCookbooks, type MyCookbook } from '@/lib/sharedCookbooks';
 
 type Visibility = 'private' | 'friends' | 'public';
 
-type IngredientRow = {
-  item_name: string;
-  quantity?: number | null;
-  unit?: string | null;
-  note?: string | null;
-};
-
 type DBIngredient = {
   item_name: string;
   quantity: number | null;
+  quantity_max: number | null;
   unit: string | null;
   note: string | null;
   section_label: string | null;
@@ -29,32 +32,6 @@ type DBStep = {
   section_label: string | null;
 };
 
-// Suggested recipe type options
-const RECIPE_TYPE_OPTIONS = [
-  'Breakfast',
-  'Lunch',
-  'Dinner',
-  'Main Dish',
-  'Side Dish',
-  'Appetizer',
-  'Snack',
-  'Dessert',
-  'Drink',
-];
-
-// ---------- Helpers ----------
-function storagePathFromPublicUrl(publicUrl: string): string | null {
-  try {
-    const u = new URL(publicUrl);
-    const marker = '/recipe-photos/';
-    const i = u.pathname.indexOf(marker);
-    if (i === -1) return null;
-    return decodeURIComponent(u.pathname.slice(i + marker.length));
-  } catch {
-    return null;
-  }
-}
-
 // ---------- Page wrapper ----------
 export default function AddRecipePage() {
   return (
@@ -93,6 +70,27 @@ const chipActive: React.CSSProperties = {
   border: '1px solid #111827',
 };
 
+// ---------- Parsed ingredient preview ----------
+// Shows how a line will be saved (quantity / unit / item / note) before submit.
+function IngredientPreview({ line }: { line: string }) {
+  if (!line.trim()) return null;
+  const p = parseIngredientLine(line);
+  const parts: [string, string][] = [];
+  if (p.quantity != null) parts.push(['Qty', formatQuantityRange(p.quantity, p.quantity_max)]);
+  if (p.unit) parts.push(['Unit', unitLabel(p.unit, p.quantity_max ?? p.quantity)]);
+  parts.push(['Item', p.item_name]);
+  if (p.note) parts.push(['Note', p.note]);
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, fontSize: 12, color: '#6b7280' }} aria-live="polite">
+      {parts.map(([k, v]) => (
+        <span key={k} style={{ background: '#f8fafc', border: '1px solid #e5e7eb', borderRadius: 999, padding: '2px 8px' }}>
+          <b style={{ fontWeight: 600 }}>{k}:</b> {v}
+        </span>
+      ))}
+    </div>
+  );
+}
+
 // ---------- Component types ----------
 type UiComponent = {
   id: string;
@@ -108,12 +106,26 @@ function AddRecipeForm() {
   const sp = useSearchParams();
   const editId = sp.get('id');
   const isEditing = useMemo(() => !!editId, [editId]);
+  // "Copy to my cookbook" from RecipeModal: prefill from someone else's recipe
+  const forkId = !editId ? sp.get('fork') : null;
+  const forkSourceRef = useRef<{ id: string; photoUrl: string | null } | null>(null);
+  // visibility as loaded, so a save can say whether it changed
+  const loadedVisibilityRef = useRef<Visibility | null>(null);
+  // shared cookbook a new recipe goes into (?book= from the cookbook's page); fixed once saved
+  const [cookbookId, setCookbookId] = useState<string | null>(!editId ? sp.get('book') : null);
+  const [editableBooks, setEditableBooks] = useState<MyCookbook[]>([]);
+  // author of the recipe being edited: a shared cookbook's editors can edit but not delete it
+  const [authorId, setAuthorId] = useState<string | null>(null);
 
   // session & page state
   const [loading, setLoading] = useState(true);
   const [session, setSession] = useState<any>(null);
   const [busy, setBusy] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [showTextImport, setShowTextImport] = useState(false);
+  const [pastedText, setPastedText] = useState('');
 
   // form state (core)
   const [title, setTitle] = useState('');
@@ -121,6 +133,9 @@ function AddRecipeForm() {
   const [sourceUrl, setSourceUrl] = useState('');
   const [visibility, setVisibility] = useState<Visibility>('private');
   const [recipeTypes, setRecipeTypes] = useState<string[]>([]);
+  const [servings, setServings] = useState('');
+  const [totalMinutes, setTotalMinutes] = useState('');
+  const [dietaryTags, setDietaryTags] = useState<string[]>([]);
 
   // simple (non-component) fields (default view)
   const [ingredients, setIngredients] = useState<string[]>(['']);
@@ -151,18 +166,35 @@ function AddRecipeForm() {
     return () => sub?.subscription?.unsubscribe();
   }, []);
 
-  // ------ PREFILL (EDIT MODE) ------
+  // ------ SHARED COOKBOOKS I CAN ADD TO ------
+  const sessionUserId: string | null = session?.user?.id ?? null;
   useEffect(() => {
+    if (!sessionUserId) return;
     let mounted = true;
     (async () => {
-      if (!isEditing || !editId) return;
+      try {
+        const books = await fetchMyCookbooks(sessionUserId);
+        if (mounted) setEditableBooks(books.filter((b) => b.status === 'accepted' && canEditBook(b.role)));
+      } catch {
+        // no shared cookbooks to offer; the recipe goes to My Cookbook
+      }
+    })();
+    return () => { mounted = false; };
+  }, [sessionUserId]);
+
+  // ------ PREFILL (EDIT MODE, or FORK of another recipe) ------
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const sourceId = editId || forkId;
+      if (!sourceId) return;
       setMsg(null);
       setBusy(true);
 
       const { data: recs, error: recErr } = await supabase
         .from('recipes')
-        .select('id, user_id, title, cuisine, source_url, visibility, photo_url, recipe_types, instructions')
-        .eq('id', editId)
+        .select('id, user_id, title, cuisine, source_url, visibility, photo_url, recipe_types, servings, total_minutes, dietary_tags, instructions, shared_cookbook_id')
+        .eq('id', sourceId)
         .limit(1);
 
       if (!mounted) return;
@@ -181,15 +213,28 @@ function AddRecipeForm() {
       setTitle(r.title ?? '');
       setCuisine(r.cuisine ?? '');
       setSourceUrl(r.source_url ?? '');
-      setVisibility((r.visibility as Visibility) ?? 'private');
       setPhotoUrl(r.photo_url ?? null);
       setRecipeTypes(Array.isArray(r.recipe_types) ? r.recipe_types : []);
-      oldPhotoPathRef.current = r.photo_url ? storagePathFromPublicUrl(r.photo_url) : null;
+      setServings(r.servings != null ? String(r.servings) : '');
+      setTotalMinutes(r.total_minutes != null ? String(r.total_minutes) : '');
+      setDietaryTags(Array.isArray(r.dietary_tags) ? r.dietary_tags : []);
+      if (isEditing) {
+        setAuthorId(r.user_id ?? null);
+        setCookbookId(r.shared_cookbook_id ?? null);
+        setVisibility((r.visibility as Visibility) ?? 'private');
+        loadedVisibilityRef.current = (r.visibility as Visibility) ?? 'private';
+        oldPhotoPathRef.current = r.photo_url ? storagePathFromPublicUrl(r.photo_url) : null;
+      } else {
+        // the photo still belongs to the original; it's copied to our folder on save
+        forkSourceRef.current = { id: r.id, photoUrl: r.photo_url ?? null };
+        oldPhotoPathRef.current = null;
+        setNotice('This is your own copy. Change anything you like, then save it to your cookbook.');
+      }
 
       // Load ingredients & steps with section labels to detect components
       const [{ data: ingData, error: ingErr }, { data: stepData, error: stepErr }] = await Promise.all([
-        supabase.from('recipe_ingredients').select('item_name,section_label,ingredient_order').eq('recipe_id', editId).order('ingredient_order', { ascending: true }),
-        supabase.from('recipe_steps').select('step_number,body,section_label').eq('recipe_id', editId).order('step_number'),
+        supabase.from('recipe_ingredients').select('item_name,quantity,quantity_max,unit,note,section_label,ingredient_order').eq('recipe_id', sourceId).order('ingredient_order', { ascending: true }),
+        supabase.from('recipe_steps').select('step_number,body,section_label').eq('recipe_id', sourceId).order('step_number'),
       ]);
       if (!mounted) return;
 
@@ -214,7 +259,7 @@ function AddRecipeForm() {
         const built: UiComponent[] = orderedLabels.map(lbl => {
           const ingList = ings
             .filter(i => (i.section_label ?? 'Main') === lbl)
-            .map(i => i.item_name);
+            .map(i => formatIngredientLine(i));
           const stepLines = steps
             .filter(s => (s.section_label ?? 'Main') === lbl)
             .sort((a, b) => a.step_number - b.step_number)
@@ -233,7 +278,7 @@ function AddRecipeForm() {
         setIngredients(['']);
         setInstructions('');
       } else {
-        const ingStrings = ings.length ? ings.map(i => i.item_name) : [''];
+        const ingStrings = ings.length ? ings.map(i => formatIngredientLine(i)) : [''];
         setIngredients(ingStrings);
         const stepLines = steps.sort((a,b)=>a.step_number-b.step_number).map(s => s.body);
         setInstructions(stepLines.join('\n'));
@@ -244,7 +289,7 @@ function AddRecipeForm() {
       setBusy(false);
     })();
     return () => { mounted = false; };
-  }, [isEditing, editId]);
+  }, [isEditing, editId, forkId]);
 
   // ------ PHOTO HANDLERS ------
   function onPickFile() { fileInputRef.current?.click(); }
@@ -264,15 +309,16 @@ function AddRecipeForm() {
       const { data: userRes } = await supabase.auth.getUser();
       const userId = userRes?.user?.id; if (!userId) throw new Error('No signed-in user — please log in again.');
 
-      const path = oldPhotoPathRef.current || storagePathFromPublicUrl(photoUrl);
+      // never delete the original's file when un-choosing a forked photo
+      const isForkPhoto = forkSourceRef.current?.photoUrl === photoUrl;
+      const path = isForkPhoto ? null : oldPhotoPathRef.current || storagePathFromPublicUrl(photoUrl);
       if (path) await supabase.storage.from('recipe-photos').remove([path]);
 
       if (isEditing && editId) {
         const { error: upErr } = await supabase
           .from('recipes')
           .update({ photo_url: null })
-          .eq('id', editId)
-          .eq('user_id', userId);
+          .eq('id', editId);
         if (upErr) throw upErr;
       }
 
@@ -315,6 +361,7 @@ function AddRecipeForm() {
         .eq('user_id', userId);
       if (delErr) throw delErr;
 
+      emitRecipeMutation({ id: editId, kind: 'deleted' });
       router.replace('/cookbook');
     } catch (e: any) {
       setMsg(e?.message || 'Failed to delete recipe.');
@@ -365,10 +412,100 @@ function AddRecipeForm() {
     setComponents(prev => prev.map(c => c.id === id ? { ...c, instructions: val } : c));
   }
 
+  // ------ IMPORT (prefill from a URL or pasted text) ------
+  function applyImported(r: ImportedRecipe) {
+    if (r.title) setTitle(r.title);
+    if (r.cuisine) setCuisine(r.cuisine);
+    if (r.sourceUrl) setSourceUrl(r.sourceUrl);
+    if (r.servings) setServings(String(r.servings));
+    if (r.imageUrl) {
+      // external image; nothing of ours in storage to clean up
+      setPhotoUrl(r.imageUrl);
+      oldPhotoPathRef.current = null;
+    }
+    const types = matchRecipeTypes(r.categories, RECIPE_TYPE_OPTIONS);
+    if (types.length) setRecipeTypes(types);
+
+    const comps = r.components.filter(c => c.ingredients.length || c.steps.length);
+    if (comps.length > 1 || (comps.length === 1 && comps[0].title !== 'Main')) {
+      setComponents(comps.map(c => ({
+        id: crypto.randomUUID(),
+        title: c.title,
+        ingredients: c.ingredients.length ? c.ingredients : [''],
+        instructions: c.steps.join('\n'),
+        collapsed: false,
+      })));
+      setUseComponents(true);
+      setIngredients(['']);
+      setInstructions('');
+    } else {
+      const only = comps[0];
+      setIngredients(only?.ingredients.length ? only.ingredients : ['']);
+      setInstructions(only ? only.steps.join('\n') : '');
+      setUseComponents(false);
+      setComponents([]);
+    }
+  }
+
+  async function importFromUrl() {
+    setMsg(null); setNotice(null);
+    if (!sourceUrl.trim()) return setMsg('Paste a recipe URL first.');
+    setImporting(true);
+    try {
+      const token = (await supabase.auth.getSession()).data.session?.access_token;
+      const res = await fetch('/api/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ url: sourceUrl.trim() }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json?.recipe) throw new Error(json?.error || 'Import failed.');
+      applyImported(json.recipe as ImportedRecipe);
+      setNotice('Imported — review everything below before saving.');
+    } catch (e: any) {
+      setMsg(e?.message || 'Import failed.');
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  function importFromText() {
+    setMsg(null); setNotice(null);
+    if (!pastedText.trim()) return setMsg('Paste some recipe text first.');
+    const parsed = parseRecipeText(pastedText);
+    const found = parsed.components.some(c => c.ingredients.length || c.steps.length);
+    if (!parsed.title && !found) return setMsg('Could not find a recipe in that text.');
+    applyImported(parsed);
+    setShowTextImport(false);
+    setPastedText('');
+    setNotice('Imported — check the title, ingredients and steps below before saving.');
+  }
+
   // ------ SUBMIT ------
+  function resetForm() {
+    setTitle(''); setCuisine(''); setSourceUrl('');
+    setInstructions(''); setIngredients(['']); setVisibility('private');
+    setPhotoUrl(null); setRecipeTypes([]); setServings('');
+    setTotalMinutes(''); setDietaryTags([]);
+    setUseComponents(false); setComponents([]);
+    oldPhotoPathRef.current = null;
+    forkSourceRef.current = null;
+  }
+
   async function submit() {
     setMsg(null);
     if (!title.trim()) return setMsg('Please add a title');
+    const servingsNum = servings.trim() ? Number(servings) : null;
+    if (servingsNum != null && (!Number.isInteger(servingsNum) || servingsNum < 1)) {
+      return setMsg('Servings must be a whole number (1 or more).');
+    }
+    const minutesNum = totalMinutes.trim() ? Number(totalMinutes) : null;
+    if (minutesNum != null && (!Number.isInteger(minutesNum) || minutesNum < 1)) {
+      return setMsg('Total time must be a whole number of minutes.');
+    }
 
     if (!useComponents) {
       if (!instructions.trim()) return setMsg('Add instructions (one step per line)');
@@ -378,170 +515,70 @@ function AddRecipeForm() {
       if (!anySteps) return setMsg('Each recipe needs instructions. Add steps to at least one component.');
     }
 
-    const { data: userRes } = await supabase.auth.getUser();
-    const userId = userRes?.user?.id;
+    // offline, getUser() can't reach the server; the stored session is enough to queue the save
+    const userId = isOffline()
+      ? (await supabase.auth.getSession()).data.session?.user?.id
+      : (await supabase.auth.getUser()).data.user?.id;
     if (!userId) { setMsg('No signed-in user — please log in again.'); return; }
 
     setBusy(true);
 
     try {
-      // EDIT
-      if (isEditing && editId) {
-        const { error: upErr } = await supabase
-          .from('recipes')
-          .update({
-            title,
-            cuisine: cuisine || null,
-            source_url: sourceUrl || null,
-            visibility,
-            photo_url: photoUrl || null,
-            recipe_types: recipeTypes,
-            instructions: useComponents
-              ? components.map(c => `${(c.title || 'Main').trim() || 'Main'}:\n${c.instructions.trim()}\n`).join('\n')
-              : instructions,
-          })
-          .eq('id', editId)
-          .eq('user_id', userId);
-        if (upErr) throw upErr;
-
-        const [{ error: d1 }, { error: d2 }] = await Promise.all([
-          supabase.from('recipe_ingredients').delete().eq('recipe_id', editId),
-          supabase.from('recipe_steps').delete().eq('recipe_id', editId),
-        ]);
-        if (d1 || d2) throw (d1 || d2);
-
-        if (!useComponents) {
-          const ingArray: IngredientRow[] = (ingredients || [])
-            .map(i => i.trim()).filter(Boolean).map(item_name => ({ item_name }));
-          const steps = (instructions || '')
-            .split('\n').map(s => s.trim()).filter(Boolean)
-            .map((body, i) => ({ step_number: i + 1, body }));
-
-          if (ingArray.length) {
-            const { error } = await supabase
-              .from('recipe_ingredients')
-              .insert(ingArray.map(row => ({ ...row, recipe_id: editId, section_label: 'Main', ingredient_order: null } as any)));
-            if (error) throw error;
-          }
-          if (steps.length) {
-            const { error } = await supabase
-              .from('recipe_steps')
-              .insert(steps.map(s => ({ ...s, recipe_id: editId, section_label: 'Main' } as any)));
-            if (error) throw error;
-          }
-        } else {
-          const flatIngs: DBIngredient[] = [];
-          const flatSteps: DBStep[] = [];
-          components.forEach((c) => {
-            const label = (c.title || 'Main').trim() || 'Main';
-            c.ingredients
-              .map(t => t.trim())
-              .filter(Boolean)
-              .forEach((item_name, idx) => {
-                flatIngs.push({ item_name, quantity: null, unit: null, note: null, section_label: label, ingredient_order: idx + 1 });
-              });
-            const lines = c.instructions.split('\n').map(s => s.trim()).filter(Boolean);
-            lines.forEach((body) => {
-              flatSteps.push({ step_number: flatSteps.length + 1, body, section_label: label });
-            });
-          });
-
-          if (flatIngs.length) {
-            const { error } = await supabase.from('recipe_ingredients').insert(
-              flatIngs.map(r => ({ ...r, recipe_id: editId }))
-            );
-            if (error) throw error;
-          }
-          if (flatSteps.length) {
-            const { error } = await supabase.from('recipe_steps').insert(
-              flatSteps.map(s => ({ ...s, recipe_id: editId }))
-            );
-            if (error) throw error;
-          }
-        }
+      const fork = !isEditing ? forkSourceRef.current : null;
+      const core: RecipeCore = {
+        title,
+        cuisine: cuisine || null,
+        source_url: sourceUrl || null,
+        photo_url: photoUrl || null,
+        visibility,
+        recipe_types: recipeTypes,
+        servings: servingsNum,
+        total_minutes: minutesNum,
+        dietary_tags: dietaryTags,
+        forked_from: fork?.id ?? null,
+        shared_cookbook_id: !isEditing ? cookbookId : null,
+      };
+      const content = contentFromForm(
+        useComponents
+          ? { mode: 'components', components }
+          : { mode: 'simple', ingredients, instructions }
+      );
 
-        router.replace('/cookbook');
+      // New recipes made offline wait in the queue (the photo copy for a fork happens on replay)
+      if (!isEditing && isOffline()) {
+        queueOfflineOp({ type: 'create_recipe', userId, args: buildSaveRecipeArgs(null, core, content), title: title.trim() });
+        resetForm();
+        router.replace(cookbookId ? `/shared/${cookbookId}` : '/cookbook');
         return;
       }
 
-      // CREATE
-      if (!useComponents) {
-        const ingArray: IngredientRow[] = (ingredients || [])
-          .map(i => i.trim()).filter(Boolean).map(item_name => ({ item_name }));
-        const steps = (instructions || '')
-          .split('\n').map(s => s.trim()).filter(Boolean)
-          .map((body, i) => ({ step_number: i + 1, body }));
-
-        const { error } = await supabase.rpc('add_full_recipe', {
-          p_title: title,
-          p_cuisine: cuisine || null,
-          p_photo_url: photoUrl || null,
-          p_source_url: sourceUrl || null,
-          p_instructions: instructions,
-          p_ingredients: ingArray,
-          p_steps: steps,
-          p_visibility: visibility,
-          p_recipe_types: recipeTypes,
-        });
-        if (error) throw error;
-      } else {
-        const instrForHints = components
-          .map(c => `${(c.title || 'Main').trim() || 'Main'}:\n${c.instructions.trim()}\n`).join('\n');
+      if (fork && core.photo_url && core.photo_url === fork.photoUrl) {
+        core.photo_url = await copyRecipePhotoToUser(core.photo_url, userId);
+      }
 
-        const { data: inserted, error: insErr } = await supabase
-          .from('recipes')
-          .insert({
-            title,
-            cuisine: cuisine || null,
-            source_url: sourceUrl || null,
-            visibility,
-            photo_url: photoUrl || null,
-            recipe_types: recipeTypes,
-            instructions: instrForHints,
-          })
-          .select('id')
-          .single();
-        if (insErr) throw insErr;
-        const newId = (inserted as any).id as string;
-
-        const flatIngs: DBIngredient[] = [];
-        const flatSteps: DBStep[] = [];
-        components.forEach((c) => {
-          const label = (c.title || 'Main').trim() || 'Main';
-          c.ingredients
-            .map(t => t.trim())
-            .filter(Boolean)
-            .forEach((item_name, idx) => {
-              flatIngs.push({ item_name, quantity: null, unit: null, note: null, section_label: label, ingredient_order: idx + 1 });
-            });
-          const lines = c.instructions.split('\n').map(s => s.trim()).filter(Boolean);
-          lines.forEach((body) => {
-            flatSteps.push({ step_number: flatSteps.length + 1, body, section_label: label });
-          });
-        });
+      // One transaction for the recipe row, ingredients and steps (create or edit)
+      const savedId = await saveFullRecipe(buildSaveRecipeArgs(isEditing ? editId : null, core, content));
 
-        if (flatIngs.length) {
-          const { error } = await supabase.from('recipe_ingredients').insert(
-            flatIngs.map(r => ({ ...r, recipe_id: newId }))
-          );
-          if (error) throw error;
-        }
-        if (flatSteps.length) {
-          const { error } = await supabase.from('recipe_steps').insert(
-            flatSteps.map(s => ({ ...s, recipe_id: newId }))
-          );
-          if (error) throw error;
-        }
+      // let open grids (here and in other tabs) show the change without a reload
+      const { data: saved } = await supabase
+        .from('recipes')
+        .select(RECIPE_SNAPSHOT_COLUMNS)
+        .eq('id', savedId)
+        .single();
+      if (saved) {
+        const kind = !isEditing ? 'created' : loadedVisibilityRef.current !== visibility ? 'visibility' : 'updated';
+        emitRecipeMutation({ id: savedId, kind, recipe: saved as RecipeSnapshot });
       }
 
-      // Reset + go back
-      setTitle(''); setCuisine(''); setSourceUrl('');
-      setInstructions(''); setIngredients(['']); setVisibility('private');
-      setPhotoUrl(null); setRecipeTypes([]);
-      setUseComponents(false); setComponents([]);
-      oldPhotoPathRef.current = null;
+      const backTo = cookbookId ? `/shared/${cookbookId}` : '/cookbook';
+      if (isEditing) {
+        router.replace(backTo);
+        return;
+      }
 
-      router.replace('/cookbook');
+      // Reset + go back
+      resetForm();
+      router.replace(backTo);
     } catch (err: any) {
       setMsg(err?.message || 'Something went wrong.');
     } finally {
@@ -565,7 +602,7 @@ function AddRecipeForm() {
   return (
     <main className="ar-container" style={{ maxWidth: 760, margin: '28px auto', padding: 16 }}>
       <header className="ar-header" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 12 }}>
-        <h1 style={{ margin: 0, fontSize: 22 }}>{isEditing ? 'Edit Recipe' : 'Add a Recipe'}</h1>
+        <h1 style={{ margin: 0, fontSize: 22 }}>{isEditing ? 'Edit Recipe' : forkId ? 'Copy to My Cookbook' : 'Add a Recipe'}</h1>
       </header>
 
       {msg && (
@@ -573,8 +610,46 @@ function AddRecipeForm() {
           {msg}
         </div>
       )}
+      {notice && !msg && (
+        <div style={{ marginBottom: 12, color: '#065f46', background: '#ecfdf5', border: '1px solid #d1fae5', padding: 10, borderRadius: 10 }}>
+          {notice}
+        </div>
+      )}
 
       <section className="ar-card" style={{ background: '#fff', border: '1px solid #eee', borderRadius: 12, padding: 14, display: 'grid', gap: 12 }}>
+        {/* Import from pasted text (create only) */}
+        {!isEditing && (
+          <div style={{ display: 'grid', gap: 8 }}>
+            <div>
+              <button type="button" onClick={() => setShowTextImport(v => !v)} className="ar-btn-light" aria-expanded={showTextImport}>
+                {showTextImport ? 'Close text import' : 'Import from text'}
+              </button>
+            </div>
+            {showTextImport && (
+              <div style={{ display: 'grid', gap: 8 }}>
+                <label style={{ fontWeight: 600 }}>
+                  Paste a recipe <span style={{ color: '#6b7280', fontWeight: 400 }}>(title, ingredients and steps)</span>
+                </label>
+                <textarea
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  rows={10}
+                  placeholder={`e.g.,\nGrandma's Lasagna\nServes 6\n\nFor the sauce:\n- 2 tbsp olive oil\n- 1 onion, diced\n\nDirections\n1. Cook the onion...`}
+                  style={{ ...fieldStyle, resize: 'vertical', minHeight: 180 }}
+                />
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <button type="button" onClick={importFromText} disabled={!pastedText.trim()} className="ar-btn-primary">
+                    Fill the form
+                  </button>
+                  <button type="button" onClick={() => { setShowTextImport(false); setPastedText(''); }} className="ar-btn-light">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Photo */}
         <div style={{ display: 'grid', gap: 6 }}>
           <label style={{ fontWeight: 600 }}>Photo</label>
@@ -610,12 +685,60 @@ function AddRecipeForm() {
           <input value={cuisine} onChange={(e) => setCuisine(e.target.value)} placeholder="e.g., Mexican" style={fieldStyle} />
         </div>
 
+        {/* Servings (optional) — drives the scaler in RecipeModal */}
+        <div style={{ display: 'grid', gap: 6 }}>
+          <label style={{ fontWeight: 600 }}>
+            Servings <span style={{ color: '#6b7280', fontWeight: 400 }}>(optional)</span>
+          </label>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step={1}
+            value={servings}
+            onChange={(e) => setServings(e.target.value)}
+            placeholder="e.g., 4"
+            style={{ ...fieldStyle, maxWidth: 160 }}
+          />
+        </div>
+
+        {/* Total time (optional) — Community search can filter on it */}
+        <div style={{ display: 'grid', gap: 6 }}>
+          <label style={{ fontWeight: 600 }}>
+            Total time <span style={{ color: '#6b7280', fontWeight: 400 }}>(minutes, optional)</span>
+          </label>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            step={1}
+            value={totalMinutes}
+            onChange={(e) => setTotalMinutes(e.target.value)}
+            placeholder="e.g., 45"
+            style={{ ...fieldStyle, maxWidth: 160 }}
+          />
+        </div>
+
         {/* Recipe URL (optional) */}
         <div style={{ display: 'grid', gap: 6 }}>
           <label style={{ fontWeight: 600 }}>
             Recipe URL <span style={{ color: '#6b7280', fontWeight: 400 }}>(optional)</span>
           </label>
-          <input value={sourceUrl} onChange={(e) => setSourceUrl(e.target.value)} placeholder="https://example.com" style={fieldStyle} />
+          <div style={{ display: 'flex', gap: 8 }}>
+            <input value={sourceUrl} onChange={(e) => setSourceUrl(e.target.value)} placeholder="https://example.com" style={fieldStyle} />
+            {!isEditing && (
+              <button
+                type="button"
+                onClick={importFromUrl}
+                disabled={importing || !sourceUrl.trim()}
+                className="ar-btn"
+                title="Fill the form from this page's recipe data"
+                style={{ whiteSpace: 'nowrap' }}
+              >
+                {importing ? 'Importing…' : 'Import'}
+              </button>
+            )}
+          </div>
         </div>
 
         {/* Recipe Type (multi-select chips) */}
@@ -642,25 +765,82 @@ function AddRecipeForm() {
           </div>
         </div>
 
-        {/* Visibility (pill toggle group) */}
+        {/* Dietary tags (multi-select chips) */}
         <div style={{ display: 'grid', gap: 6 }}>
-          <label style={{ fontWeight: 600 }}>Who can view my recipe:</label>
-          <div role="radiogroup" aria-label="Who can view my recipe" className="ar-chips" style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-            <label style={{ display: 'inline-flex', alignItems: 'center' }}>
-              <input type="radio" name="visibility" value="public" checked={visibility === 'public'} onChange={() => setVisibility('public')} style={{ display: 'none' }} />
-              <span style={visibility === 'public' ? chipActive : chipBase}>Public</span>
-            </label>
-            <label style={{ display: 'inline-flex', alignItems: 'center' }}>
-              <input type="radio" name="visibility" value="friends" checked={visibility === 'friends'} onChange={() => setVisibility('friends')} style={{ display: 'none' }} />
-              <span style={visibility === 'friends' ? chipActive : chipBase}>Friends</span>
-            </label>
-            <label style={{ display: 'inline-flex', alignItems: 'center' }}>
-              <input type="radio" name="visibility" value="private" checked={visibility === 'private'} onChange={() => setVisibility('private')} style={{ display: 'none' }} />
-              <span style={visibility === 'private' ? chipActive : chipBase}>Private</span>
-            </label>
+          <label style={{ fontWeight: 600 }}>Dietary</label>
+          <div className="ar-chips" style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+            {DIETARY_TAG_OPTIONS.map((opt) => {
+              const selected = dietaryTags.includes(opt);
+              return (
+                <button
+                  key={opt}
+                  type="button"
+                  onClick={() => {
+                    setDietaryTags((prev) =>
+                      prev.includes(opt) ? prev.filter((x) => x !== opt) : [...prev, opt]
+                    );
+                  }}
+                  style={selected ? chipActive : chipBase}
+                >
+                  {opt}
+                </button>
+              );
+            })}
           </div>
         </div>
 
+        {/* Shared cookbook (new recipes only; a saved recipe stays where it is) */}
+        {!isEditing && !forkId && editableBooks.length > 0 && (
+          <div style={{ display: 'grid', gap: 6 }}>
+            <label htmlFor="ar-cookbook" style={{ fontWeight: 600 }}>Add to:</label>
+            <select
+              id="ar-cookbook"
+              value={cookbookId ?? ''}
+              onChange={(e) => setCookbookId(e.target.value || null)}
+              style={fieldStyle}
+            >
+              <option value="">My Cookbook only</option>
+              {editableBooks.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name} (shared)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {isEditing && cookbookId && (
+          <div style={{ fontSize: 14, color: '#6b7280' }}>
+            Part of{' '}
+            <a href={`/shared/${cookbookId}`} style={{ color: '#2563eb' }}>
+              {editableBooks.find((b) => b.id === cookbookId)?.name ?? 'a shared cookbook'}
+            </a>
+            ; its editors can change it too.
+          </div>
+        )}
+
+        {/* Visibility (pill toggle group); a shared book's editors can't change it */}
+        {isEditing && authorId && authorId !== sessionUserId ? (
+          <div style={{ fontSize: 13, color: '#606375' }}>Only the author can change who can view this recipe.</div>
+        ) : (
+          <div style={{ display: 'grid', gap: 6 }}>
+            <label style={{ fontWeight: 600 }}>Who can view my recipe:</label>
+            <div role="radiogroup" aria-label="Who can view my recipe" className="ar-chips" style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              <label style={{ display: 'inline-flex', alignItems: 'center' }}>
+                <input type="radio" name="visibility" value="public" checked={visibility === 'public'} onChange={() => setVisibility('public')} style={{ display: 'none' }} />
+                <span style={visibility === 'public' ? chipActive : chipBase}>Public</span>
+              </label>
+              <label style={{ display: 'inline-flex', alignItems: 'center' }}>
+                <input type="radio" name="visibility" value="friends" checked={visibility === 'friends'} onChange={() => setVisibility('friends')} style={{ display: 'none' }} />
+                <span style={visibility === 'friends' ? chipActive : chipBase}>Friends</span>
+              </label>
+              <label style={{ display: 'inline-flex', alignItems: 'center' }}>
+                <input type="radio" name="visibility" value="private" checked={visibility === 'private'} onChange={() => setVisibility('private')} style={{ display: 'none' }} />
+                <span style={visibility === 'private' ? chipActive : chipBase}>Private</span>
+              </label>
+            </div>
+          </div>
+        )}
+
         {/* SIMPLE MODE (default) */}
         {!useComponents && (
           <>
@@ -669,17 +849,19 @@ function AddRecipeForm() {
               <label style={{ fontWeight: 600 }}>Ingredients</label>
               <div style={{ display: 'grid', gap: 6 }}>
                 {ingredients.map((val, idx) => (
-                  <input
-                    key={idx}
-                    value={val}
-                    onChange={(e) => {
-                      const copy = [...ingredients];
-                      copy[idx] = e.target.value;
-                      setIngredients(copy);
-                    }}
-                    placeholder={`Ingredient ${idx + 1}`}
-                    style={fieldStyle}
-                  />
+                  <div key={idx} style={{ display: 'grid', gap: 4 }}>
+                    <input
+                      value={val}
+                      onChange={(e) => {
+                        const copy = [...ingredients];
+                        copy[idx] = e.target.value;
+                        setIngredients(copy);
+                      }}
+                      placeholder={idx === 0 ? 'e.g., 1 1/2 cups flour, sifted' : `Ingredient ${idx + 1}`}
+                      style={fieldStyle}
+                    />
+                    <IngredientPreview line={val} />
+                  </div>
                 ))}
               </div>
               <div>
@@ -785,13 +967,15 @@ function AddRecipeForm() {
                       <label style={{ fontWeight: 600 }}>Ingredients</label>
                       <div style={{ display: 'grid', gap: 6 }}>
                         {c.ingredients.map((val, i) => (
-                          <input
-                            key={i}
-                            value={val}
-                            onChange={(e) => updateComponentIngredients(c.id, i, e.target.value)}
-                            placeholder={`Ingredient ${i + 1}`}
-                            style={fieldStyle}
-                          />
+                          <div key={i} style={{ display: 'grid', gap: 4 }}>
+                            <input
+                              value={val}
+                              onChange={(e) => updateComponentIngredients(c.id, i, e.target.value)}
+                              placeholder={`Ingredient ${i + 1}`}
+                              style={fieldStyle}
+                            />
+                            <IngredientPreview line={val} />
+                          </div>
                         ))}
                       </div>
                       <div>
@@ -844,8 +1028,8 @@ function AddRecipeForm() {
           </button>
         </div>
 
-        {/* Danger: Delete (only in edit mode) */}
-        {isEditing && (
+        {/* Danger: Delete (only in edit mode, and only the author) */}
+        {isEditing && (!authorId || authorId === sessionUserId) && (
           <div style={{ marginTop: 4 }}>
             <button type="button" onClick={deleteComponent as any} className="ar-btn-danger" style={{ width: '100%' }}>
               Delete Recipe
@@ -0,0 +1,65 @@
+// app/api/import/route.ts
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { extractRecipeFromHtml } from '@/lib/recipeImport';
+import { fetchPublicPage } from '@/lib/publicFetch';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_HTML_BYTES = 3_000_000;
+
+// Signed-in users only: the client sends its Supabase access token
+async function signedInUser(req: Request): Promise<string | null> {
+  const token = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token) return null;
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const { data, error } = await supabase.auth.getUser(token);
+  return error ? null : data.user?.id ?? null;
+}
+
+// POST { url } → { recipe } | { error }
+export async function POST(req: Request) {
+  if (!(await signedInUser(req))) {
+    return NextResponse.json({ error: 'Please sign in to import recipes.' }, { status: 401 });
+  }
+
+  let target: URL;
+  try {
+    const body = await req.json();
+    target = new URL(String(body?.url ?? '').trim());
+  } catch {
+    return NextResponse.json({ error: 'Please enter a valid URL.' }, { status: 400 });
+  }
+
+  // fetchPublicPage checks every hop (and every address it resolves to) against internal ranges
+  let html: string;
+  let pageUrl: string;
+  try {
+    const res = await fetchPublicPage(target.toString(), {
+      timeoutMs: FETCH_TIMEOUT_MS,
+      maxBytes: MAX_HTML_BYTES,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; MyCookbookImporter/1.0)',
+        Accept: 'text/html,application/xhtml+xml',
+      },
+    });
+    if (res.status < 200 || res.status >= 300) {
+      return NextResponse.json({ error: `The page returned ${res.status}.` }, { status: 502 });
+    }
+    html = res.body;
+    pageUrl = res.url; // after redirects, so relative image links resolve
+  } catch (e: any) {
+    const status = e?.code === 'blocked' ? 400 : 502;
+    return NextResponse.json({ error: e?.message || 'Could not fetch that page.' }, { status });
+  }
+
+  const recipe = extractRecipeFromHtml(html, pageUrl);
+  if (!recipe || (!recipe.title && recipe.components.every((c) => !c.ingredients.length && !c.steps.length))) {
+    return NextResponse.json({ error: 'No recipe found on that page.' }, { status: 422 });
+  }
+  return NextResponse.json({ recipe });
+}
@@ -4,13 +4,27 @@ import { useEffect, useRef, useState, type CSSProperties } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabaseClient';
+import { fetchPantryMatches, type PantryMatch } from '@/lib/pantry';
+import {
+  EMPTY_FILTERS,
+  filterChips,
+  highlightWords,
+  parseSearchQuery,
+  searchRecipes,
+  searchStateFromParams,
+  searchStateToParams,
+  type RecipeFilters,
+  type SearchSort,
+} from '@/lib/recipeSearch';
 
 // Shared components
 const RecipeModal = dynamic(() => import('../components/RecipeModal'), { ssr: false });
 // Import the tile + grid style from your RecipeBadges file
 import { RecipeTile, recipeGridStyle } from '../components/RecipeBadges';
+import PantryMatchList from '../components/PantryMatchList';
+import RecipeFilterDrawer from './RecipeFilterDrawer';
 
-type TabKey = 'recipes' | 'users';
+type TabKey = 'recipes' | 'users' | 'pantry';
 
 type Profile = {
   id: string;
@@ -29,21 +43,42 @@ type RecipeRow = {
   created_at: string | null;
   visibility?: 'public' | 'friends' | 'private' | string;
   recipe_types?: string[] | null; // array column
+  avg_rating?: number | null;
+  rating_count?: number | null;
+  ingredient_hits?: string[];
 };
 
 type FriendRelation = 'none' | 'pending_outgoing' | 'pending_incoming' | 'friends';
 
 const PAGE_SIZE = 20;
-// Known types used to map free-text to array-contains filters
-const KNOWN_TYPES = ['Breakfast', 'Lunch', 'Dinner', 'Snack', 'Dessert'];
 
 export default function CommunitySearch() {
   const [tab, setTab] = useState<TabKey>('recipes');
 
-  // search input (recipes: title/cuisine/type; users: display_name)
-  const [q, setQ] = useState('');
+  // a shared link (/community?q=…&type=…) restores the recipe search; loaded client-only
+  const [initial] = useState(() => searchStateFromParams(new URLSearchParams(window.location.search)));
+
+  // search input (recipes: full-text with ingredient:/type:/-exclude syntax; users: display_name)
+  const [q, setQ] = useState(initial.q);
   const debouncedQ = useDebounce(q, 300);
-  const queryActive = debouncedQ.trim().length > 0;
+  const parsedQ = parseSearchQuery(debouncedQ);
+  const matchWords = highlightWords(parsedQ);
+
+  // recipe filters (drawer)
+  const [filters, setFilters] = useState<RecipeFilters>(initial.filters);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const debouncedFilters = useDebounce(filters, 300);
+  const chips = filterChips(filters);
+
+  // the pantry tab needs no query: it ranks everything by what's in your pantry;
+  // recipes can also be browsed by filters alone
+  const queryActive =
+    debouncedQ.trim().length > 0 ||
+    tab === 'pantry' ||
+    (tab === 'recipes' && filterChips(debouncedFilters).length > 0);
+
+  // recipe ordering
+  const [sort, setSort] = useState<SearchSort>(initial.sort);
 
   // paging
   const [page, setPage] = useState(0);
@@ -53,6 +88,7 @@ export default function CommunitySearch() {
   const [loading, setLoading] = useState(false);
   const [users, setUsers] = useState<Profile[]>([]);
   const [recipes, setRecipes] = useState<RecipeRow[]>([]);
+  const [matches, setMatches] = useState<PantryMatch[]>([]);
   const [errMsg, setErrMsg] = useState<string | null>(null);
 
   // me / friendships
@@ -73,16 +109,24 @@ export default function CommunitySearch() {
     })();
   }, []);
 
+  // keep the recipe search in the address bar so it can be shared or bookmarked
+  useEffect(() => {
+    if (tab !== 'recipes') return;
+    const params = searchStateToParams(debouncedQ, sort, debouncedFilters).toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${params ? `?${params}` : ''}`);
+  }, [tab, debouncedQ, sort, debouncedFilters]);
+
   // reset page whenever inputs change
   useEffect(() => {
     setPage(0);
-  }, [tab, debouncedQ]);
+  }, [tab, debouncedQ, sort, debouncedFilters]);
 
   // fetch on deps change (only after user typed something)
   useEffect(() => {
     if (!queryActive) {
       setUsers([]);
       setRecipes([]);
+      setMatches([]);
       setHasMore(false);
       setErrMsg(null);
       setLoading(false);
@@ -90,7 +134,7 @@ export default function CommunitySearch() {
     }
     void fetchData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tab, debouncedQ, page, myId, queryActive]);
+  }, [tab, debouncedQ, sort, debouncedFilters, page, myId, queryActive]);
 
   async function fetchData() {
     setLoading(true);
@@ -101,7 +145,14 @@ export default function CommunitySearch() {
     abortRef.current = controller;
 
     try {
-      if (tab === 'users') {
+      if (tab === 'pantry') {
+        const rows = await fetchPantryMatches({ limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+        setMatches(rows);
+        setHasMore(rows.length === PAGE_SIZE);
+        setUsers([]);
+        setRecipes([]);
+        setFriendStatus({});
+      } else if (tab === 'users') {
         // USERS: keep your RPC
         const { data, error } = await supabase.rpc('search_users', {
           q: debouncedQ || null,
@@ -132,36 +183,20 @@ export default function CommunitySearch() {
         }
 
         setRecipes([]);
+        setMatches([]);
       } else {
-        // RECIPES: direct table query (RLS enforces visibility)
-        // Match title, cuisine, OR recipe_types (array contains), NOT instructions.
-        const safeQ = escapeLike(debouncedQ);
-        const like = `%${safeQ}%`;
-
-        // map text to known type tokens (case-insensitive, substring ok)
-        const qLower = debouncedQ.toLowerCase();
-        const matchedTypes = KNOWN_TYPES.filter(t => t.toLowerCase().includes(qLower));
-
-        const orParts = [
-          `title.ilike.${like}`,
-          `cuisine.ilike.${like}`,
-          // array-contains for each matched type
-          ...matchedTypes.map(t => `recipe_types.cs.{${t}}`),
-        ];
-
-        const { data, error } = await supabase
-          .from('recipes')
-          .select('id,user_id,title,cuisine,photo_url,source_url,created_at,recipe_types')
-          .or(orParts.join(','))
-          .order('created_at', { ascending: false })
-          .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
-
-        if (error) throw error;
-
-        const rows = (data as RecipeRow[]) ?? [];
+        // RECIPES: full-text search over title, ingredients, cuisine/types and steps
+        // (search_recipes RPC; RLS enforces visibility)
+        const rows: RecipeRow[] = await searchRecipes(parsedQ, {
+          sort,
+          filters: debouncedFilters,
+          limit: PAGE_SIZE,
+          offset: page * PAGE_SIZE,
+        });
         setRecipes(rows);
         setHasMore(rows.length === PAGE_SIZE);
         setUsers([]);
+        setMatches([]);
         setFriendStatus({});
       }
     } catch (err: any) {
@@ -180,7 +215,7 @@ export default function CommunitySearch() {
 
       const { data, error } = await supabase
         .from('recipes')
-        .select('id,user_id,title,cuisine,photo_url,source_url,created_at,recipe_types')
+        .select('id,user_id,title,cuisine,photo_url,source_url,created_at,recipe_types,avg_rating,rating_count')
         .eq('id', rid)
         .single();
 
@@ -243,11 +278,6 @@ export default function CommunitySearch() {
     });
   }
 
-  // Escape % and _ in LIKE to avoid them acting as wildcards inside user input
-  function escapeLike(s: string) {
-    return s.replace(/[%_]/g, m => '\\' + m);
-  }
-
   // ------- styles -------
   const S = {
     container: {
@@ -287,7 +317,27 @@ export default function CommunitySearch() {
       fontSize: 14,
       minWidth: 0,
     } as CSSProperties,
+    select: {
+      flex: '0 0 auto',
+      padding: '10px 8px',
+      border: '1px solid #e5e7eb',
+      borderRadius: 8,
+      background: '#fff',
+      fontSize: 14,
+    } as CSSProperties,
     hint: { color: '#6b7280', fontSize: 13 } as CSSProperties,
+    chips: { display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 6, marginBottom: 12 } as CSSProperties,
+    chip: {
+      display: 'inline-flex',
+      alignItems: 'center',
+      gap: 6,
+      padding: '4px 10px',
+      background: '#f3f4f6',
+      border: '1px solid #e5e7eb',
+      borderRadius: 9999,
+      fontSize: 13,
+    } as CSSProperties,
+    chipX: { background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: '#6b7280', fontSize: 12 } as CSSProperties,
 
     // Users list
     userRow: {
@@ -374,20 +424,90 @@ export default function CommunitySearch() {
         >
           Users
         </button>
+        <button
+          role="tab"
+          aria-selected={tab === 'pantry'}
+          style={S.pill(tab === 'pantry')}
+          onClick={() => setTab('pantry')}
+        >
+          Cook now
+        </button>
       </div>
 
-      <div style={S.row}>
-        <input
-          style={S.input}
-          placeholder={tab === 'users' ? 'Search people by name…' : 'Search recipes by title, cuisine, or type…'}
-          value={q}
-          onChange={(e) => setQ(e.target.value)}
-        />
-      </div>
+      {tab === 'pantry' ? (
+        <div style={{ ...S.hint, marginBottom: 12 }}>
+          Recipes you can see, ranked by how many of their ingredients are in your{' '}
+          <Link href="/pantry">pantry</Link>.
+        </div>
+      ) : (
+        <div style={S.row}>
+          <input
+            style={S.input}
+            placeholder={tab === 'users' ? 'Search people by name…' : 'Search recipes, e.g. chicken -mushroom type:dinner'}
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+          />
+          {tab === 'recipes' && (
+            <>
+              <select
+                aria-label="Sort recipes"
+                value={sort}
+                onChange={(e) => setSort(e.target.value as SearchSort)}
+                style={S.select}
+              >
+                <option value="relevance">Best match</option>
+                <option value="newest">Newest</option>
+                <option value="top_rated">Top rated</option>
+              </select>
+              <button
+                type="button"
+                aria-expanded={filtersOpen}
+                onClick={() => setFiltersOpen((o) => !o)}
+                style={{ ...S.select, cursor: 'pointer', ...(filtersOpen ? S.btnDark : {}) }}
+              >
+                Filters{chips.length ? ` (${chips.length})` : ''}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {tab === 'recipes' && filtersOpen && (
+        <RecipeFilterDrawer filters={filters} onChange={setFilters} onClose={() => setFiltersOpen(false)} />
+      )}
+
+      {tab === 'recipes' && chips.length > 0 && (
+        <div style={S.chips}>
+          {chips.map((c) => (
+            <span key={c.key} style={S.chip}>
+              {c.label}
+              <button
+                type="button"
+                onClick={() => setFilters(c.clear)}
+                aria-label={`Remove filter ${c.label}`}
+                style={S.chipX}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+          <button type="button" onClick={() => setFilters(EMPTY_FILTERS)} style={{ ...S.chipX, textDecoration: 'underline' }}>
+            Clear all
+          </button>
+        </div>
+      )}
 
       {!queryActive ? (
         <div style={S.hint}>
           Start typing above to search {tab === 'users' ? 'for people' : 'for recipes'}.
+          {tab === 'recipes' && (
+            <div style={{ marginTop: 6 }}>
+              Ingredients and steps count too. Narrow it down with <code>ingredient:basil</code> or{' '}
+              <code>type:dessert</code>, and leave things out with <code>-mushroom</code> (this matches inside
+              words too, so <code>-nut</code> also leaves out walnuts and peanuts). Use Filters for time, diet,
+              cuisine and more.
+            </div>
+          )}
         </div>
       ) : (
         <>
@@ -480,6 +600,10 @@ export default function CommunitySearch() {
                     title={r.title}
                     types={r.recipe_types ?? []}
                     photoUrl={r.photo_url}
+                    rating={r.avg_rating}
+                    ratingCount={r.rating_count}
+                    highlight={matchWords}
+                    detail={r.ingredient_hits?.length ? `with ${r.ingredient_hits.join(', ')}` : null}
                     onClick={() => openRecipe(r.id)}
                     ariaLabel={`Open ${r.title}`}
                   />
@@ -488,8 +612,19 @@ export default function CommunitySearch() {
             </div>
           )}
 
+          {/* Cook now — ranked by pantry coverage */}
+          {!loading && !errMsg && tab === 'pantry' && (
+            matches.length === 0 ? (
+              <div style={S.hint}>
+                No matches yet. <Link href="/pantry">Add what’s in your kitchen</Link> to see what you can cook.
+              </div>
+            ) : (
+              <PantryMatchList matches={matches} onOpen={(m) => openRecipe(m.id)} />
+            )
+          )}
+
           {/* Pager */}
-          {!loading && (users.length > 0 || recipes.length > 0) && (
+          {!loading && (users.length > 0 || recipes.length > 0 || matches.length > 0) && (
             <div style={S.pager}>
               <button
                 style={{ ...S.pagerBtn, ...(page === 0 ? S.pagerBtnDisabled : {}) }}
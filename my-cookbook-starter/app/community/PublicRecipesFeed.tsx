@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import RecipeModal from '../components/RecipeModal';
 import { RecipeTile, recipeGridStyle } from '../components/RecipeBadges';
+import { applyRecipeListMutation, subscribeRecipeMutations } from '@/lib/recipeSync';
 
 type Recipe = {
   id: string;
@@ -15,6 +16,8 @@ type Recipe = {
   source_url: string | null;
   created_at: string | null;
   visibility?: string | null;
+  avg_rating?: number | null;
+  rating_count?: number | null;
 };
 
 export default function PublicRecipesFeed() {
@@ -26,6 +29,15 @@ export default function PublicRecipesFeed() {
   const [selected, setSelected] = useState<Recipe | null>(null);
   const [open, setOpen] = useState(false);
 
+  // recipes published, edited, hidden or deleted in any tab
+  useEffect(
+    () =>
+      subscribeRecipeMutations((m) =>
+        setRows((prev) => applyRecipeListMutation(prev, m, (r) => r.visibility === 'public', (r) => r))
+      ),
+    []
+  );
+
   useEffect(() => {
     let mounted = true;
     (async () => {
@@ -34,7 +46,7 @@ export default function PublicRecipesFeed() {
 
       const { data, error } = await supabase
         .from('recipes')
-        .select('id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,visibility')
+        .select('id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,visibility,avg_rating,rating_count')
         .eq('visibility', 'public')
         .order('created_at', { ascending: false });
 
@@ -92,6 +104,8 @@ export default function PublicRecipesFeed() {
               title={r.title}
               types={r.recipe_types ?? []}
               photoUrl={r.photo_url}
+              rating={r.avg_rating}
+              ratingCount={r.rating_count}
               onClick={() => openRecipe(r)}
             />
           ))}
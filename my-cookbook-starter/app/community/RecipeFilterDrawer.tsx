@@ -0,0 +1,168 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import { DIETARY_TAG_OPTIONS, RECIPE_TYPE_OPTIONS } from '@/lib/recipeTypes';
+import { EMPTY_FILTERS, MAX_MINUTES_OPTIONS, type RecipeFilters } from '@/lib/recipeSearch';
+
+/**
+ * Filter panel under the Community recipe search box. Every change is applied
+ * straight away (CommunitySearch debounces the search and mirrors it in the URL).
+ */
+export default function RecipeFilterDrawer({
+  filters,
+  onChange,
+  onClose,
+}: {
+  filters: RecipeFilters;
+  onChange: (f: RecipeFilters) => void;
+  onClose: () => void;
+}) {
+  const set = (patch: Partial<RecipeFilters>) => onChange({ ...filters, ...patch });
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((x) => x !== value) : [...list, value];
+
+  const label: CSSProperties = { fontSize: 13, fontWeight: 600, color: '#374151' };
+  const field: CSSProperties = {
+    padding: '8px 10px',
+    border: '1px solid #e5e7eb',
+    borderRadius: 8,
+    background: '#fff',
+    fontSize: 14,
+    minWidth: 0,
+  };
+  const chip = (on: boolean): CSSProperties => ({
+    padding: '4px 10px',
+    borderRadius: 9999,
+    border: `1px solid ${on ? '#111827' : '#e5e7eb'}`,
+    background: on ? '#111827' : '#fff',
+    color: on ? '#fff' : '#374151',
+    fontSize: 13,
+    cursor: 'pointer',
+  });
+  const btn: CSSProperties = {
+    border: '1px solid #e5e7eb',
+    borderRadius: 6,
+    padding: '6px 10px',
+    background: '#fff',
+    fontSize: 12,
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      role="region"
+      aria-label="Recipe filters"
+      style={{ border: '1px solid #e5e7eb', borderRadius: 8, background: '#fff', padding: 12, marginBottom: 12, display: 'grid', gap: 12 }}
+    >
+      <div style={{ display: 'grid', gap: 6 }}>
+        <span style={label}>Type</span>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+          {RECIPE_TYPE_OPTIONS.map((t) => (
+            <button
+              key={t}
+              type="button"
+              aria-pressed={filters.types.includes(t)}
+              onClick={() => set({ types: toggle(filters.types, t) })}
+              style={chip(filters.types.includes(t))}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gap: 6 }}>
+        <span style={label}>Dietary</span>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+          {DIETARY_TAG_OPTIONS.map((d) => (
+            <button
+              key={d}
+              type="button"
+              aria-pressed={filters.diets.includes(d)}
+              onClick={() => set({ diets: toggle(filters.diets, d) })}
+              style={chip(filters.diets.includes(d))}
+            >
+              {d}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: 12 }}>
+        <label style={{ display: 'grid', gap: 6 }}>
+          <span style={label}>Cuisine</span>
+          <input
+            value={filters.cuisine}
+            onChange={(e) => set({ cuisine: e.target.value })}
+            placeholder="e.g., Thai"
+            style={field}
+          />
+        </label>
+
+        <label style={{ display: 'grid', gap: 6 }}>
+          <span style={label}>Total time</span>
+          <select
+            value={filters.maxMinutes ?? ''}
+            onChange={(e) => set({ maxMinutes: e.target.value ? Number(e.target.value) : null })}
+            style={field}
+          >
+            <option value="">Any</option>
+            {MAX_MINUTES_OPTIONS.map((m) => (
+              <option key={m} value={m}>
+                {m} min or less
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ display: 'grid', gap: 6 }}>
+          <span style={label}>Author</span>
+          <select
+            value={filters.friendsOnly ? 'friends' : 'everyone'}
+            onChange={(e) => set({ friendsOnly: e.target.value === 'friends' })}
+            style={field}
+          >
+            <option value="everyone">Everyone</option>
+            <option value="friends">Friends only</option>
+          </select>
+        </label>
+
+        <label style={{ display: 'grid', gap: 6 }}>
+          <span style={label}>Added from</span>
+          <input
+            type="date"
+            value={filters.addedFrom}
+            max={filters.addedTo || undefined}
+            onChange={(e) => set({ addedFrom: e.target.value })}
+            style={field}
+          />
+        </label>
+
+        <label style={{ display: 'grid', gap: 6 }}>
+          <span style={label}>Added until</span>
+          <input
+            type="date"
+            value={filters.addedTo}
+            min={filters.addedFrom || undefined}
+            onChange={(e) => set({ addedTo: e.target.value })}
+            style={field}
+          />
+        </label>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8, alignSelf: 'end', padding: '8px 0', fontSize: 14 }}>
+          <input type="checkbox" checked={filters.hasPhoto} onChange={(e) => set({ hasPhoto: e.target.checked })} />
+          Has a photo
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+        <button type="button" onClick={() => onChange(EMPTY_FILTERS)} style={btn}>
+          Clear all
+        </button>
+        <button type="button" onClick={onClose} style={{ ...btn, background: '#111827', border: '1px solid #111827', color: '#fff' }}>
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  addToCollection,
+  createCollection,
+  fetchCollectionIdsForRecipe,
+  fetchCollections,
+  removeFromCollection,
+  type Collection,
+} from '@/lib/collections';
+import { emitRecipeMutation } from '@/lib/recipeSync';
+
+/**
+ * Checklist of the viewer's collections for one recipe, opened from RecipeModal's
+ * footer. `beforeAdd` runs before the first add (RecipeModal bookmarks someone
+ * else's recipe there, since collections hold own and bookmarked recipes).
+ */
+export default function CollectionPicker({
+  userId,
+  recipeId,
+  beforeAdd,
+  onClose,
+}: {
+  userId: string;
+  recipeId: string;
+  beforeAdd?: () => Promise<void>;
+  onClose: () => void;
+}) {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [inIds, setInIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const [list, ids] = await Promise.all([fetchCollections(userId), fetchCollectionIdsForRecipe(userId, recipeId)]);
+        if (!mounted) return;
+        setCollections(list);
+        setInIds(ids);
+      } catch (e: any) {
+        if (mounted) setMsg(e?.message || 'Could not load your collections.');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [userId, recipeId]);
+
+  async function toggle(c: Collection) {
+    const adding = !inIds.has(c.id);
+    setBusyId(c.id);
+    setMsg(null);
+    try {
+      if (adding) {
+        await beforeAdd?.();
+        await addToCollection(c.id, recipeId);
+      } else {
+        await removeFromCollection(c.id, recipeId);
+      }
+      setInIds((prev) => {
+        const next = new Set(prev);
+        if (adding) next.add(c.id);
+        else next.delete(c.id);
+        return next;
+      });
+      emitRecipeMutation({ id: recipeId, kind: 'collections' });
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not update the collection.');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function createAndAdd() {
+    const name = newName.trim();
+    if (!name) return;
+    setBusyId('new');
+    setMsg(null);
+    try {
+      await beforeAdd?.();
+      const c = await createCollection(userId, name);
+      await addToCollection(c.id, recipeId);
+      setCollections((prev) => [...prev, c]);
+      setInIds((prev) => new Set(prev).add(c.id));
+      setNewName('');
+      emitRecipeMutation({ id: recipeId, kind: 'collections' });
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not create the collection.');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Save to collection"
+      style={{
+        position: 'absolute',
+        right: 0,
+        bottom: 34,
+        width: 250,
+        background: '#fff',
+        border: '1px solid #e5e7eb',
+        borderRadius: 10,
+        boxShadow: '0 8px 24px rgba(0,0,0,.12)',
+        padding: 8,
+        zIndex: 10,
+        lineHeight: 1.4,
+        fontSize: 14,
+        color: '#111827',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 4 }}>
+        <strong style={{ fontSize: 13 }}>Save to collection</strong>
+        <button type="button" onClick={onClose} aria-label="Close" style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 14 }}>
+          ✕
+        </button>
+      </div>
+
+      {loading ? (
+        <div style={{ fontSize: 13, color: '#666', padding: '4px 2px' }}>Loading…</div>
+      ) : (
+        <div style={{ maxHeight: 220, overflowY: 'auto' }}>
+          {collections.map((c) => (
+            <label
+              key={c.id}
+              style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 4px', cursor: busyId ? 'wait' : 'pointer' }}
+            >
+              <input type="checkbox" checked={inIds.has(c.id)} disabled={!!busyId} onChange={() => toggle(c)} />
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{c.name}</span>
+            </label>
+          ))}
+          {collections.length === 0 && (
+            <div style={{ fontSize: 13, color: '#666', padding: '4px 2px' }}>No collections yet.</div>
+          )}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          void createAndAdd();
+        }}
+        style={{ display: 'flex', gap: 6, marginTop: 6 }}
+      >
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New collection"
+          maxLength={80}
+          style={{ flex: 1, minWidth: 0, padding: '5px 8px', border: '1px solid #ddd', borderRadius: 8, fontSize: 13 }}
+        />
+        <button
+          type="submit"
+          disabled={!!busyId || !newName.trim()}
+          style={{ padding: '5px 10px', background: '#fff', border: '1px solid #ddd', borderRadius: 8, fontSize: 13, cursor: 'pointer' }}
+        >
+          Add
+        </button>
+      </form>
+
+      {msg && <div style={{ color: '#b42318', fontSize: 12, marginTop: 6 }}>{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import RecipeImage from './RecipeImage';
+import { RecipeTile, recipeGridStyle } from './RecipeBadges';
+import {
+  COLLECTION_VISIBILITY_OPTIONS,
+  createCollection,
+  deleteCollection,
+  fetchCollectionRecipes,
+  fetchCollections,
+  moveItem,
+  removeFromCollection,
+  reorderCollectionRecipes,
+  reorderCollections,
+  updateCollection,
+  type CollectionCard,
+  type CollectionRecipe,
+} from '@/lib/collections';
+import { photoExtension, uploadRecipePhoto } from '@/lib/recipePhotos';
+import { subscribeRecipeMutations, type RecipeVisibility } from '@/lib/recipeSync';
+
+/**
+ * A row of collection cards for `ownerId` (only those the viewer may see). Picking one
+ * shows its recipes below; with `editable` the owner can add, rename, re-cover,
+ * reorder and delete collections and arrange what's in them.
+ */
+export default function CollectionsShelf({
+  ownerId,
+  editable = false,
+  onOpenRecipe,
+}: {
+  ownerId: string;
+  editable?: boolean;
+  onOpenRecipe: (r: CollectionRecipe) => void;
+}) {
+  const [collections, setCollections] = useState<CollectionCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [items, setItems] = useState<CollectionRecipe[]>([]);
+  const [loadingItems, setLoadingItems] = useState(false);
+  const [arranging, setArranging] = useState(false);
+
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const coverInputRef = useRef<HTMLInputElement | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setCollections(await fetchCollections(ownerId));
+      setMsg(null);
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not load collections.');
+    } finally {
+      setLoading(false);
+    }
+  }, [ownerId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setOpenId(null);
+    void load();
+  }, [load]);
+
+  const loadItems = useCallback(async (id: string) => {
+    setLoadingItems(true);
+    try {
+      setItems(await fetchCollectionRecipes(id));
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not load this collection.');
+    } finally {
+      setLoadingItems(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setArranging(false);
+    if (openId) void loadItems(openId);
+    else setItems([]);
+  }, [openId, loadItems]);
+
+  // saved into / removed from a collection (RecipeModal), or a recipe edited / deleted
+  useEffect(() => {
+    return subscribeRecipeMutations((m) => {
+      if (!m.kind || m.kind === 'reaction') return;
+      void load();
+      if (openId) void loadItems(openId);
+    });
+  }, [load, loadItems, openId]);
+
+  const current = collections.find((c) => c.id === openId) ?? null;
+
+  async function run(action: () => Promise<void>, failMsg: string) {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      setMsg(e?.message || failMsg);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function create() {
+    const name = newName.trim();
+    if (!name) return;
+    void run(async () => {
+      const c = await createCollection(ownerId, name);
+      setNewName('');
+      setCreating(false);
+      await load();
+      setOpenId(c.id);
+    }, 'Could not create the collection.');
+  }
+
+  function patchCurrent(patch: Partial<Pick<CollectionCard, 'name' | 'visibility' | 'cover_url'>>) {
+    if (!current) return;
+    void run(async () => {
+      await updateCollection(current.id, patch);
+      await load();
+    }, 'Could not update the collection.');
+  }
+
+  function rename() {
+    if (!current) return;
+    const name = window.prompt('Collection name', current.name)?.trim();
+    if (name && name !== current.name) patchCurrent({ name });
+  }
+
+  function uploadCover(file: File) {
+    void run(async () => {
+      const url = await uploadRecipePhoto(file, ownerId, photoExtension(file, file.name));
+      if (current) await updateCollection(current.id, { cover_url: url });
+      await load();
+    }, 'Cover upload failed.');
+  }
+
+  function remove() {
+    if (!current || !window.confirm(`Delete “${current.name}”? The recipes in it stay in your cookbook.`)) return;
+    void run(async () => {
+      await deleteCollection(current.id);
+      setOpenId(null);
+      await load();
+    }, 'Could not delete the collection.');
+  }
+
+  function moveCollection(delta: number) {
+    const from = collections.findIndex((c) => c.id === openId);
+    const next = moveItem(collections, from, delta);
+    if (next === collections) return;
+    setCollections(next);
+    void run(() => reorderCollections(next.map((c) => c.id)), 'Could not save the order.');
+  }
+
+  function moveRecipe(index: number, delta: number) {
+    if (!openId) return;
+    const next = moveItem(items, index, delta);
+    if (next === items) return;
+    setItems(next);
+    void run(() => reorderCollectionRecipes(openId, next.map((r) => r.id)), 'Could not save the order.');
+  }
+
+  function takeOut(r: CollectionRecipe) {
+    if (!openId) return;
+    setItems((prev) => prev.filter((x) => x.id !== r.id));
+    void run(async () => {
+      await removeFromCollection(openId, r.id);
+      await load();
+    }, 'Could not remove the recipe.');
+  }
+
+  // Nothing to show on someone else's profile
+  if (!editable && !loading && collections.length === 0) return null;
+
+  const btn: React.CSSProperties = {
+    padding: '6px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: busy ? 'wait' : 'pointer',
+  };
+  const smallBtn: React.CSSProperties = {
+    width: 26,
+    height: 26,
+    borderRadius: 999,
+    border: '1px solid #fff',
+    background: 'rgba(17,24,39,0.55)',
+    color: '#fff',
+    fontSize: 13,
+    lineHeight: 1,
+    cursor: 'pointer',
+  };
+
+  return (
+    <section style={{ marginBottom: 16 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 }}>
+        <h2 style={{ margin: 0, fontSize: 16 }}>Collections</h2>
+        {editable && !creating && (
+          <button type="button" onClick={() => setCreating(true)} style={btn}>
+            + New collection
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            create();
+          }}
+          style={{ display: 'flex', gap: 8, marginBottom: 8 }}
+        >
+          <input
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. Weeknight, Thanksgiving 2026"
+            maxLength={80}
+            style={{ flex: 1, padding: '6px 10px', border: '1px solid #ddd', borderRadius: 8, fontSize: 14 }}
+          />
+          <button type="submit" disabled={busy || !newName.trim()} style={btn}>
+            Create
+          </button>
+          <button type="button" onClick={() => setCreating(false)} style={btn}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {msg && <div style={{ color: '#b42318', fontSize: 13, marginBottom: 8 }}>{msg}</div>}
+
+      {loading ? (
+        <div style={{ fontSize: 13, color: '#666' }}>Loading collections…</div>
+      ) : collections.length === 0 ? (
+        <div style={{ fontSize: 13, color: '#666' }}>
+          Group recipes into collections: create one here, then pick it when you save a recipe.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: 10, overflowX: 'auto', paddingBottom: 4 }}>
+          {collections.map((c) => (
+            <button
+              key={c.id}
+              type="button"
+              onClick={() => setOpenId((id) => (id === c.id ? null : c.id))}
+              aria-pressed={c.id === openId}
+              style={{
+                flex: '0 0 140px',
+                padding: 0,
+                background: '#fff',
+                border: c.id === openId ? '2px solid #4CAF50' : '1px solid #eee',
+                borderRadius: 10,
+                overflow: 'hidden',
+                textAlign: 'left',
+                cursor: 'pointer',
+              }}
+            >
+              <div style={{ width: '100%', aspectRatio: '4 / 3' }}>
+                <RecipeImage src={c.cover} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+              </div>
+              <div style={{ padding: '6px 8px' }}>
+                <div style={{ fontWeight: 700, fontSize: 13, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {c.name}
+                </div>
+                <div style={{ fontSize: 12, color: '#666' }}>
+                  {c.recipe_count} recipe{c.recipe_count === 1 ? '' : 's'}
+                  {editable ? ` · ${COLLECTION_VISIBILITY_OPTIONS.find((o) => o.value === c.visibility)?.label ?? c.visibility}` : ''}
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {current && (
+        <div style={{ marginTop: 12 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 8 }}>
+            <strong style={{ fontSize: 15, marginRight: 'auto' }}>{current.name}</strong>
+            {editable && (
+              <>
+                <select
+                  value={current.visibility}
+                  onChange={(e) => patchCurrent({ visibility: e.target.value as RecipeVisibility })}
+                  disabled={busy}
+                  aria-label="Who can see this collection"
+                  style={{ ...btn, padding: '5px 8px' }}
+                >
+                  {COLLECTION_VISIBILITY_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" onClick={rename} disabled={busy} style={btn}>
+                  Rename
+                </button>
+                <button type="button" onClick={() => coverInputRef.current?.click()} disabled={busy} style={btn}>
+                  Cover…
+                </button>
+                {current.cover_url && (
+                  <button type="button" onClick={() => patchCurrent({ cover_url: null })} disabled={busy} style={btn}>
+                    Use first photo
+                  </button>
+                )}
+                <button type="button" onClick={() => moveCollection(-1)} disabled={busy} style={btn} aria-label="Move collection earlier">
+                  ←
+                </button>
+                <button type="button" onClick={() => moveCollection(1)} disabled={busy} style={btn} aria-label="Move collection later">
+                  →
+                </button>
+                {items.length > 1 && (
+                  <button type="button" onClick={() => setArranging((v) => !v)} style={btn}>
+                    {arranging ? 'Done' : 'Arrange'}
+                  </button>
+                )}
+                <button type="button" onClick={remove} disabled={busy} style={{ ...btn, color: '#b42318' }}>
+                  Delete
+                </button>
+                <input
+                  ref={coverInputRef}
+                  type="file"
+                  accept="image/*"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) uploadCover(file);
+                  }}
+                />
+              </>
+            )}
+          </div>
+
+          {loadingItems ? (
+            <div style={{ fontSize: 13, color: '#666' }}>Loading…</div>
+          ) : items.length === 0 ? (
+            <div style={{ fontSize: 13, color: '#666' }}>
+              {editable ? 'Empty for now. Use the folder button on a recipe to add it here.' : 'Nothing here you can see yet.'}
+            </div>
+          ) : (
+            <div style={recipeGridStyle}>
+              {items.map((r, i) => (
+                <div key={r.id} style={{ position: 'relative' }}>
+                  <RecipeTile
+                    title={r.title}
+                    types={r.recipe_types ?? []}
+                    photoUrl={r.photo_url}
+                    rating={r.avg_rating}
+                    ratingCount={r.rating_count}
+                    onClick={() => onOpenRecipe(r)}
+                  />
+                  {arranging && (
+                    <div style={{ position: 'absolute', top: 6, right: 6, display: 'flex', gap: 4 }}>
+                      <button type="button" onClick={() => moveRecipe(i, -1)} disabled={i === 0} style={smallBtn} aria-label={`Move ${r.title} earlier`}>
+                        ←
+                      </button>
+                      <button type="button" onClick={() => moveRecipe(i, 1)} disabled={i === items.length - 1} style={smallBtn} aria-label={`Move ${r.title} later`}>
+                        →
+                      </button>
+                      <button type="button" onClick={() => takeOut(r)} style={smallBtn} aria-label={`Remove ${r.title} from ${current.name}`}>
+                        ✕
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
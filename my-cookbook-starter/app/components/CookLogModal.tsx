@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { logCook, type CookEntry } from '@/lib/cookLog';
+import { toDateKey } from '@/lib/mealPlan';
+
+/** "Cooked it" form: date, optional rating, note and photo. */
+export default function CookLogModal({
+  open,
+  userId,
+  recipeId,
+  onClose,
+  onLogged,
+}: {
+  open: boolean;
+  userId: string;
+  recipeId: string;
+  onClose: () => void;
+  onLogged: (entry: CookEntry) => void;
+}) {
+  const [cookedOn, setCookedOn] = useState(() => toDateKey(new Date()));
+  const [rating, setRating] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  // fresh form each time it opens
+  useEffect(() => {
+    if (!open) return;
+    setCookedOn(toDateKey(new Date()));
+    setRating(null);
+    setNote('');
+    setPhoto(null);
+    setErrorMsg(null);
+  }, [open]);
+
+  useEffect(() => {
+    if (!photo) {
+      setPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(photo);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    if (busy) return;
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      const entry = await logCook(userId, recipeId, { cookedOn, rating, note, photo });
+      onLogged(entry);
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Could not save.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!open) return null;
+
+  const fieldStyle: React.CSSProperties = {
+    width: '100%',
+    padding: 8,
+    borderRadius: 6,
+    border: '1px solid #e5e7eb',
+    fontSize: 14,
+    background: '#fff',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 12,
+        zIndex: 1100,
+      }}
+      onClick={(e) => {
+        // rendered inside RecipeModal's backdrop; don't close that one too
+        e.stopPropagation();
+        onClose();
+      }}
+      aria-modal="true"
+      role="dialog"
+      aria-label="Log a cook"
+    >
+      <form
+        onSubmit={save}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: 'min(420px, 94vw)',
+          background: '#fff',
+          borderRadius: 12,
+          padding: 16,
+          display: 'grid',
+          gap: 12,
+        }}
+      >
+        <div style={{ fontWeight: 700, fontSize: 16 }}>I cooked this</div>
+
+        <label style={{ display: 'grid', gap: 4, fontSize: 13, color: '#374151' }}>
+          Date
+          <input
+            type="date"
+            value={cookedOn}
+            max={toDateKey(new Date())}
+            onChange={(e) => setCookedOn(e.target.value)}
+            required
+            style={fieldStyle}
+          />
+        </label>
+
+        <div style={{ display: 'grid', gap: 4, fontSize: 13, color: '#374151' }}>
+          Rating
+          <div role="radiogroup" aria-label="Rating" style={{ display: 'flex', gap: 2 }}>
+            {[1, 2, 3, 4, 5].map((n) => (
+              <button
+                key={n}
+                type="button"
+                role="radio"
+                aria-checked={rating === n}
+                aria-label={`${n} star${n === 1 ? '' : 's'}`}
+                // tapping the current rating again clears it
+                onClick={() => setRating(rating === n ? null : n)}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  padding: 2,
+                  cursor: 'pointer',
+                  fontSize: 24,
+                  lineHeight: 1,
+                  color: rating != null && n <= rating ? '#f59e0b' : '#d1d5db',
+                }}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label style={{ display: 'grid', gap: 4, fontSize: 13, color: '#374151' }}>
+          Note
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            placeholder="Less salt next time…"
+            style={{ ...fieldStyle, resize: 'vertical' }}
+          />
+        </label>
+
+        <label style={{ display: 'grid', gap: 4, fontSize: 13, color: '#374151' }}>
+          Photo
+          <input type="file" accept="image/*" onChange={(e) => setPhoto(e.target.files?.[0] ?? null)} />
+        </label>
+        {preview && (
+          <img src={preview} alt="" style={{ width: '100%', maxHeight: 200, objectFit: 'cover', borderRadius: 8 }} />
+        )}
+
+        {errorMsg && <div style={{ color: '#b42318', fontSize: 13 }}>{errorMsg}</div>}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+          <button
+            type="button"
+            onClick={onClose}
+            style={{ padding: '8px 12px', borderRadius: 8, border: '1px solid #ddd', background: '#fff', cursor: 'pointer' }}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy}
+            style={{
+              padding: '8px 12px',
+              borderRadius: 8,
+              border: '1px solid #4CAF50',
+              background: '#4CAF50',
+              color: '#fff',
+              cursor: busy ? 'wait' : 'pointer',
+            }}
+          >
+            {busy ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
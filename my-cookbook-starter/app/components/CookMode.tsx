@@ -0,0 +1,390 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { hideSectionLabel } from '@/lib/recipeSections';
+import { findStepDurations, formatClock, formatDuration, type StepDuration } from '@/lib/stepTimers';
+
+type CookSection = { name: string; steps: { body: string }[] };
+
+type Timer = {
+  id: string;
+  label: string;       // "Step 3 · 25 min"
+  seconds: number;
+  endsAt: number | null; // running when set
+  remaining: number;     // seconds left while paused
+  fired: boolean;
+};
+
+const SWIPE_PX = 50;
+
+/** Pieces of a step: plain text, and durations that can start a timer. */
+function splitStep(body: string): (string | StepDuration)[] {
+  const out: (string | StepDuration)[] = [];
+  let at = 0;
+  for (const d of findStepDurations(body)) {
+    if (d.start > at) out.push(body.slice(at, d.start));
+    out.push(d);
+    at = d.end;
+  }
+  if (at < body.length) out.push(body.slice(at));
+  return out;
+}
+
+// Short beep with Web Audio; silent where audio is blocked
+function beep() {
+  try {
+    const Ctx = window.AudioContext || (window as any).webkitAudioContext;
+    if (!Ctx) return;
+    const ctx = new Ctx();
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = 880;
+    gain.gain.value = 0.2;
+    osc.connect(gain).connect(ctx.destination);
+    osc.start();
+    osc.stop(ctx.currentTime + 0.6);
+    osc.onended = () => ctx.close();
+  } catch {
+    // ignore
+  }
+}
+
+async function notify(title: string, body: string) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body });
+  } catch {
+    // Android Chrome only allows notifications through a service worker
+    const reg = await navigator.serviceWorker?.getRegistration();
+    reg?.showNotification(title, { body });
+  }
+}
+
+/** Full-screen, one-step-at-a-time view with timers; keeps the screen awake while open. */
+export default function CookMode({
+  open,
+  title,
+  sections,
+  onClose,
+}: {
+  open: boolean;
+  title: string;
+  sections: CookSection[];
+  onClose: () => void;
+}) {
+  const steps = useMemo(
+    () =>
+      sections.flatMap((sec) =>
+        sec.steps.map((s) => ({ section: sec.name, body: s.body }))
+      ),
+    [sections]
+  );
+  const showSections = !hideSectionLabel(sections);
+
+  const [index, setIndex] = useState(0);
+  const [timers, setTimers] = useState<Timer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [wakeLockOn, setWakeLockOn] = useState(false);
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+
+  const step = steps[index];
+  const last = steps.length - 1;
+
+  const go = useCallback(
+    (delta: number) => setIndex((i) => Math.min(Math.max(i + delta, 0), Math.max(last, 0))),
+    [last]
+  );
+
+  // start from the top each time cook mode opens
+  useEffect(() => {
+    if (open) setIndex(0);
+  }, [open]);
+
+  // keyboard: ← → (and space / page keys), Esc closes
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight' || e.key === 'PageDown' || e.key === ' ') {
+        e.preventDefault();
+        go(1);
+      } else if (e.key === 'ArrowLeft' || e.key === 'PageUp') {
+        e.preventDefault();
+        go(-1);
+      } else if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [open, go, onClose]);
+
+  // Screen Wake Lock; the browser drops it when the tab is hidden, so take it again on return
+  useEffect(() => {
+    if (!open || !('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    async function acquire() {
+      try {
+        const s = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          s.release();
+          return;
+        }
+        sentinel = s;
+        setWakeLockOn(true);
+        s.addEventListener('release', () => setWakeLockOn(false));
+      } catch {
+        setWakeLockOn(false); // low battery mode, permissions policy…
+      }
+    }
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') acquire();
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', onVisible);
+      sentinel?.release();
+      setWakeLockOn(false);
+    };
+  }, [open]);
+
+  // tick while any timer runs; fire the ones that just finished
+  const running = timers.some((t) => t.endsAt != null && !t.fired);
+  useEffect(() => {
+    if (!running) return;
+    const id = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(id);
+  }, [running]);
+
+  useEffect(() => {
+    const due = timers.filter((t) => t.endsAt != null && !t.fired && t.endsAt <= now);
+    if (!due.length) return;
+    setTimers((prev) => prev.map((t) => (due.some((d) => d.id === t.id) ? { ...t, fired: true, remaining: 0 } : t)));
+    due.forEach((t) => notify(`⏰ ${title}`, `${t.label} is done`));
+    beep();
+    navigator.vibrate?.([300, 150, 300]);
+  }, [now, timers, title]);
+
+  function startTimer(d: StepDuration) {
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(() => {});
+    }
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setTimers((prev) => [
+      ...prev,
+      {
+        id: `${startedAt}-${prev.length}`,
+        label: `Step ${index + 1} · ${formatDuration(d.seconds)}`,
+        seconds: d.seconds,
+        endsAt: startedAt + d.seconds * 1000,
+        remaining: d.seconds,
+        fired: false,
+      },
+    ]);
+  }
+
+  function togglePause(id: string) {
+    const at = Date.now();
+    setNow(at);
+    setTimers((prev) =>
+      prev.map((t) => {
+        if (t.id !== id || t.fired) return t;
+        return t.endsAt != null
+          ? { ...t, endsAt: null, remaining: Math.max(0, (t.endsAt - at) / 1000) }
+          : { ...t, endsAt: at + t.remaining * 1000 };
+      })
+    );
+  }
+
+  function removeTimer(id: string) {
+    setTimers((prev) => prev.filter((t) => t.id !== id));
+  }
+
+  function onTouchStart(e: React.TouchEvent) {
+    const t = e.touches[0];
+    touchStart.current = { x: t.clientX, y: t.clientY };
+  }
+
+  function onTouchEnd(e: React.TouchEvent) {
+    const start = touchStart.current;
+    touchStart.current = null;
+    if (!start) return;
+    const t = e.changedTouches[0];
+    const dx = t.clientX - start.x;
+    const dy = t.clientY - start.y;
+    if (Math.abs(dx) > SWIPE_PX && Math.abs(dx) > Math.abs(dy)) go(dx < 0 ? 1 : -1);
+  }
+
+  if (!open) return null;
+
+  const navBtn = (disabled: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '14px 0',
+    borderRadius: 10,
+    border: '1px solid #e5e7eb',
+    background: disabled ? '#f9fafb' : '#fff',
+    color: disabled ? '#9ca3af' : '#111827',
+    fontSize: 16,
+    fontWeight: 600,
+    cursor: disabled ? 'default' : 'pointer',
+  });
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Cook mode: ${title}`}
+      // rendered inside RecipeModal's backdrop; keep clicks here
+      onClick={(e) => e.stopPropagation()}
+      onTouchStart={onTouchStart}
+      onTouchEnd={onTouchEnd}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1200,
+        background: '#fff',
+        display: 'flex',
+        flexDirection: 'column',
+        paddingBottom: 'env(safe-area-inset-bottom)',
+      }}
+    >
+      {/* HEADER */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '12px 16px', borderBottom: '1px solid #eee' }}>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ fontWeight: 700, fontSize: 16, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{title}</div>
+          <div style={{ fontSize: 12, color: '#6b7280' }}>
+            {steps.length ? `Step ${index + 1} of ${steps.length}` : 'No steps'}
+            {wakeLockOn ? ' · Screen stays on' : ''}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Exit cook mode"
+          style={{ background: 'none', border: 'none', padding: 4, cursor: 'pointer', fontSize: 22, lineHeight: 1, color: '#111827' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* progress */}
+      <div style={{ height: 4, background: '#f3f4f6' }}>
+        <div
+          style={{
+            height: '100%',
+            width: steps.length ? `${((index + 1) / steps.length) * 100}%` : 0,
+            background: '#4CAF50',
+            transition: 'width .2s',
+          }}
+        />
+      </div>
+
+      {/* STEP */}
+      <div style={{ flex: 1, overflowY: 'auto', padding: '24px 20px', display: 'flex', flexDirection: 'column', gap: 16 }}>
+        {step ? (
+          <>
+            {showSections && (
+              <div style={{ fontSize: 14, fontWeight: 700, letterSpacing: 0.4, textTransform: 'uppercase', color: '#4CAF50' }}>
+                {step.section}
+              </div>
+            )}
+            <div style={{ fontSize: 'clamp(22px, 5vw, 34px)', lineHeight: 1.4, color: '#111827' }}>
+              {splitStep(step.body).map((part, i) =>
+                typeof part === 'string' ? (
+                  <span key={i}>{part}</span>
+                ) : (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => startTimer(part)}
+                    title={`Start a ${formatDuration(part.seconds)} timer`}
+                    style={{
+                      font: 'inherit',
+                      color: '#065f46',
+                      background: '#ecfdf5',
+                      border: '1px solid #a7f3d0',
+                      borderRadius: 8,
+                      padding: '0 6px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    ⏱ {part.text}
+                  </button>
+                )
+              )}
+            </div>
+          </>
+        ) : (
+          <div style={{ color: '#6b7280' }}>This recipe has no steps.</div>
+        )}
+      </div>
+
+      {/* TIMERS (kept across steps) */}
+      {timers.length > 0 && (
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', padding: '8px 16px', borderTop: '1px solid #eee' }}>
+          {timers.map((t) => {
+            const left = t.fired ? 0 : t.endsAt != null ? (t.endsAt - now) / 1000 : t.remaining;
+            return (
+              <div
+                key={t.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  padding: '6px 10px',
+                  borderRadius: 999,
+                  background: t.fired ? '#fef2f2' : '#f3f4f6',
+                  border: `1px solid ${t.fired ? '#fecaca' : '#e5e7eb'}`,
+                  fontSize: 14,
+                }}
+              >
+                <span style={{ color: '#6b7280' }}>{t.label}</span>
+                <strong style={{ fontVariantNumeric: 'tabular-nums', color: t.fired ? '#b42318' : '#111827' }}>
+                  {t.fired ? 'Done' : formatClock(left)}
+                </strong>
+                {!t.fired && (
+                  <button
+                    type="button"
+                    onClick={() => togglePause(t.id)}
+                    style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: 13, color: '#374151' }}
+                  >
+                    {t.endsAt != null ? 'Pause' : 'Resume'}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeTimer(t.id)}
+                  aria-label={`Dismiss ${t.label} timer`}
+                  style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: 13, color: '#6b7280' }}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* NAV */}
+      <div style={{ display: 'flex', gap: 12, padding: 16, borderTop: '1px solid #eee' }}>
+        <button type="button" onClick={() => go(-1)} disabled={index === 0} style={navBtn(index === 0)}>
+          ← Back
+        </button>
+        {index < last ? (
+          <button type="button" onClick={() => go(1)} style={navBtn(false)}>
+            Next →
+          </button>
+        ) : (
+          <button type="button" onClick={onClose} style={{ ...navBtn(false), background: '#4CAF50', border: '1px solid #4CAF50', color: '#fff' }}>
+            Done
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { fetchUnreadCount, subscribeNotifications } from '@/lib/notifications';
+
+/** Bell linking to /notifications with a live unread badge (hidden when signed out). */
+export default function NotificationBell({ style, active }: { style?: React.CSSProperties; active?: boolean }) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [unread, setUnread] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (mounted) setUserId(data.user?.id ?? null);
+    })();
+    const { data: sub } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (mounted) setUserId(session?.user?.id ?? null);
+    });
+    return () => {
+      mounted = false;
+      sub.subscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setUnread(0);
+      return;
+    }
+    let mounted = true;
+    const refresh = async () => {
+      try {
+        const n = await fetchUnreadCount(userId);
+        if (mounted) setUnread(n);
+      } catch {
+        // keep the last count; the next change or poll will retry
+      }
+    };
+    void refresh();
+    const unsubscribe = subscribeNotifications(userId, refresh);
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  if (!userId) return null;
+
+  const label = unread ? `Notifications, ${unread} unread` : 'Notifications';
+  return (
+    <Link href="/notifications" aria-label={label} title="Notifications" aria-current={active ? 'page' : undefined} style={style}>
+      <span style={{ position: 'relative', display: 'inline-flex' }}>
+        <svg width="22" height="22" viewBox="0 0 24 24" aria-hidden fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M18 8a6 6 0 0 0-12 0c0 7-3 9-3 9h18s-3-2-3-9" />
+          <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+        </svg>
+        {unread > 0 && (
+          <span
+            aria-hidden
+            style={{
+              position: 'absolute',
+              top: -6,
+              right: -10,
+              minWidth: 18,
+              height: 18,
+              padding: '0 5px',
+              borderRadius: 999,
+              background: '#ef4444',
+              color: '#fff',
+              fontSize: 11,
+              fontWeight: 700,
+              lineHeight: '18px',
+              textAlign: 'center',
+              boxSizing: 'border-box',
+            }}
+          >
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </span>
+    </Link>
+  );
+}
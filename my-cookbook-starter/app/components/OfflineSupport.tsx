@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { warmOfflineCache } from '@/lib/offlineCache';
+import {
+  dismissConflict,
+  queuedOps,
+  replayOfflineQueue,
+  retryConflict,
+  subscribeOfflineQueue,
+  syncConflicts,
+  type SyncConflict,
+} from '@/lib/offlineQueue';
+
+/**
+ * Registers the service worker, keeps the offline cache warm and replays queued
+ * writes when the connection returns. Shows an offline / syncing strip above the
+ * bottom tabs, plus any conflicts that need a decision.
+ */
+export default function OfflineSupport() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [online, setOnline] = useState(true);
+  const [queued, setQueued] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [retryMsg, setRetryMsg] = useState<Record<string, string>>({});
+
+  // service worker (production builds only: it would cache dev chunks)
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch(() => {
+      // unsupported / blocked: the app just works online-only
+    });
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      // the stored session, not getUser(): that needs the network
+      const { data } = await supabase.auth.getSession();
+      if (mounted) setUserId(data.session?.user?.id ?? null);
+    })();
+    const { data: sub } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (mounted) setUserId(session?.user?.id ?? null);
+    });
+    return () => {
+      mounted = false;
+      sub.subscription.unsubscribe();
+    };
+  }, []);
+
+  // queue + conflict counts
+  useEffect(() => {
+    const refresh = () => {
+      setQueued(userId ? queuedOps().filter((q) => q.userId === userId).length : 0);
+      setConflicts(userId ? syncConflicts().filter((c) => c.op.userId === userId) : []);
+    };
+    refresh();
+    return subscribeOfflineQueue(refresh);
+  }, [userId]);
+
+  // replay + warm on start, when the connection returns and when the app comes back to the front
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    if (!userId) return;
+
+    const sync = (force = false) => {
+      void replayOfflineQueue().then(() => warmOfflineCache(userId, force)).catch(() => {
+        // best-effort: the next trigger will retry
+      });
+    };
+    const onOnline = () => {
+      setOnline(true);
+      sync(true);
+    };
+    const onOffline = () => setOnline(false);
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') sync();
+    };
+    // first load: the worker may only now have taken control
+    const onController = () => sync(true);
+
+    sync();
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    document.addEventListener('visibilitychange', onVisible);
+    navigator.serviceWorker?.addEventListener('controllerchange', onController);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+      document.removeEventListener('visibilitychange', onVisible);
+      navigator.serviceWorker?.removeEventListener('controllerchange', onController);
+    };
+  }, [userId]);
+
+  async function retry(c: SyncConflict) {
+    setBusyId(c.id);
+    const err = await retryConflict(c.id);
+    setRetryMsg((prev) => {
+      const next = { ...prev };
+      if (err) next[c.id] = err;
+      else delete next[c.id];
+      return next;
+    });
+    setBusyId(null);
+  }
+
+  if (!userId || (online && !queued && !conflicts.length)) return null;
+
+  const btn: React.CSSProperties = {
+    padding: '4px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: 'pointer',
+  };
+
+  const status = !online
+    ? `You’re offline. Showing saved recipes${queued ? ` · ${queued} change${queued === 1 ? '' : 's'} waiting to sync` : ''}.`
+    : queued
+    ? `Syncing ${queued} change${queued === 1 ? '' : 's'} made offline…`
+    : null;
+
+  return (
+    <div
+      role="status"
+      style={{
+        position: 'fixed',
+        left: 0,
+        right: 0,
+        bottom: 'calc(57px + env(safe-area-inset-bottom))',
+        zIndex: 49,
+        display: 'grid',
+        gap: 6,
+        padding: '8px 12px',
+        background: online ? '#fffbeb' : '#1f2333',
+        color: online ? '#92400e' : '#fff',
+        fontSize: 13,
+        borderTop: '1px solid #e6e7ee',
+      }}
+    >
+      {status && <div>{status}</div>}
+      {conflicts.map((c) => (
+        <div key={c.id} style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+          <span style={{ flex: 1, minWidth: 200 }}>
+            {c.message}
+            {retryMsg[c.id] && <span style={{ display: 'block', color: '#b42318' }}>{retryMsg[c.id]}</span>}
+          </span>
+          {c.canRetry && (
+            <button type="button" onClick={() => retry(c)} disabled={busyId === c.id} style={btn}>
+              {busyId === c.id ? 'Saving…' : c.op.type === 'create_recipe' ? 'Save anyway' : 'Try again'}
+            </button>
+          )}
+          <button type="button" onClick={() => dismissConflict(c.id)} disabled={busyId === c.id} style={btn}>
+            {c.canRetry ? 'Discard' : 'Dismiss'}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
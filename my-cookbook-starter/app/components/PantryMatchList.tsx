@@ -0,0 +1,67 @@
+'use client';
+
+import RecipeImage from '@/app/components/RecipeImage';
+import type { PantryMatch } from '@/lib/pantry';
+
+/**
+ * "What can I cook now" results (lib/pantry → pantry_matches): one row per recipe
+ * with how many ingredients the pantry covers and what's still missing.
+ * Used by My Cookbook and Community search.
+ */
+export default function PantryMatchList({
+  matches,
+  onOpen,
+}: {
+  matches: PantryMatch[];
+  onOpen: (m: PantryMatch) => void;
+}) {
+  return (
+    <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'grid', gap: 8 }}>
+      {matches.map((m) => {
+        const complete = m.have_count === m.total_count;
+        return (
+          <li key={m.id}>
+            <button
+              type="button"
+              onClick={() => onOpen(m)}
+              aria-label={`Open ${m.title}`}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 12,
+                width: '100%',
+                padding: 8,
+                background: '#fff',
+                border: '1px solid #eee',
+                borderRadius: 12,
+                textAlign: 'left',
+                cursor: 'pointer',
+              }}
+            >
+              <div style={{ width: 64, height: 64, flex: '0 0 auto', borderRadius: 8, overflow: 'hidden' }}>
+                <RecipeImage
+                  src={m.photo_url || null}
+                  alt={m.title}
+                  style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                />
+              </div>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div
+                  style={{ fontWeight: 700, fontSize: 14, color: '#111827', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                >
+                  {m.title}
+                </div>
+                <div style={{ fontSize: 13, color: complete ? '#15803d' : '#374151', marginTop: 2 }}>
+                  {complete ? 'You have everything' : `You have ${m.have_count} of ${m.total_count} ingredients`}
+                </div>
+                {!complete && (
+                  <div style={{ fontSize: 12, color: '#6b7280', marginTop: 2 }}>Missing: {m.missing.join(', ')}</div>
+                )}
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
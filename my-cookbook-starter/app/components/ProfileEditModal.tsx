@@ -2,6 +2,8 @@
 
 import { useEffect, useState, MouseEvent } from 'react';
 import { supabase } from '@/lib/supabaseClient';
+import { isUnitSystem, UNIT_SYSTEM_OPTIONS, type UnitSystem } from '@/lib/unitConversion';
+import { clearOfflineCache } from '@/lib/offlineCache';
 import AvatarUpload from './AvatarUpload';
 
 type Profile = {
@@ -11,6 +13,7 @@ type Profile = {
   nickname: string | null;
   bio: string | null;
   avatar_url: string | null;
+  unit_system?: UnitSystem | null;
 };
 
 type Props = {
@@ -78,10 +81,11 @@ export default function ProfileEditModal({ open, onClose, profile, onSaved }: Pr
           nickname: draft.nickname,
           bio: draft.bio,
           avatar_url: draft.avatar_url,
+          unit_system: draft.unit_system ?? 'original',
           updated_at: new Date().toISOString(),
         })
         .eq('id', draft.id)
-        .select('id, email, display_name, nickname, bio, avatar_url')
+        .select('id, email, display_name, nickname, bio, avatar_url, unit_system')
         .single();
 
       if (error) {
@@ -102,6 +106,7 @@ export default function ProfileEditModal({ open, onClose, profile, onSaved }: Pr
     try {
       setLoggingOut(true);
       await supabase.auth.signOut();
+      clearOfflineCache();
       window.location.href = '/login';
     } finally {
       setLoggingOut(false);
@@ -240,6 +245,29 @@ export default function ProfileEditModal({ open, onClose, profile, onSaved }: Pr
                   }}
                 />
               </label>
+
+              <label style={{ display: 'grid', gap: 6 }}>
+                <span style={{ fontSize: 13, fontWeight: 600 }}>Ingredient units</span>
+                <select
+                  value={draft.unit_system ?? 'original'}
+                  onChange={(e) => {
+                    const v = e.target.value;
+                    if (isUnitSystem(v)) setDraft({ ...draft, unit_system: v });
+                  }}
+                  style={{
+                    padding: '8px 10px',
+                    border: '1px solid #ddd',
+                    borderRadius: 8,
+                    width: '100%',
+                    boxSizing: 'border-box',
+                    background: '#fff',
+                  }}
+                >
+                  {UNIT_SYSTEM_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </label>
             </div>
           </div>
         </div>
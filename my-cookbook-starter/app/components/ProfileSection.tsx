@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
+import type { UnitSystem } from '@/lib/unitConversion';
 import ProfileEditModal from './ProfileEditModal';
 
 type Profile = {
@@ -11,6 +12,7 @@ type Profile = {
   nickname: string | null;
   bio: string | null;
   avatar_url: string | null;
+  unit_system?: UnitSystem | null;
 };
 
 export default function ProfileSection() {
@@ -26,7 +28,7 @@ export default function ProfileSection() {
 
       const { data: p } = await supabase
         .from('profiles')
-        .select('id, email, display_name, nickname, bio, avatar_url')
+        .select('id, email, display_name, nickname, bio, avatar_url, unit_system')
         .eq('id', user.id)
         .single();
 
@@ -37,7 +39,7 @@ export default function ProfileSection() {
           const { data: inserted } = await supabase
             .from('profiles')
             .insert({ id: user.id, email: user.email, display_name: user.email, nickname: null })
-            .select('id, email, display_name, nickname, bio, avatar_url')
+            .select('id, email, display_name, nickname, bio, avatar_url, unit_system')
             .single();
           setProfile(inserted as Profile);
         }
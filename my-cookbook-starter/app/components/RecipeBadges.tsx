@@ -1,6 +1,7 @@
 'use client';
 import React from 'react';
 import RecipeImage from '@/app/components/RecipeImage';
+import { highlightParts } from '@/lib/recipeSearch';
 
 /** ===============================
  *  Public API: things you can tweak here and pages will update everywhere
@@ -97,13 +98,32 @@ export type RecipeTileProps = {
   photoUrl?: string | null;
   onClick?: () => void;
   ariaLabel?: string;
+  selected?: boolean;           // set (true/false) to show a selection check
+  rating?: number | null;       // recipes.avg_rating
+  ratingCount?: number | null;  // recipes.rating_count
+  highlight?: string[];         // search words to mark in the title
+  detail?: string | null;       // one extra overlay line, e.g. matched ingredients
 };
 
-export function RecipeTile({ title, types, photoUrl, onClick, ariaLabel }: RecipeTileProps) {
+export function RecipeTile({
+  title,
+  types,
+  photoUrl,
+  onClick,
+  ariaLabel,
+  selected,
+  rating,
+  ratingCount,
+  highlight,
+  detail,
+}: RecipeTileProps) {
+  const selectable = selected !== undefined;
+  const rated = rating != null && !!ratingCount;
   return (
     <button
       onClick={onClick}
-      aria-label={ariaLabel || `Open ${title}`}
+      aria-label={ariaLabel || (selectable ? `Select ${title}` : `Open ${title}`)}
+      aria-pressed={selectable ? selected : undefined}
       style={{
         position: 'relative',
         display: 'block',
@@ -113,6 +133,8 @@ export function RecipeTile({ title, types, photoUrl, onClick, ariaLabel }: Recip
         border: 'none',
         textAlign: 'left',
         cursor: 'pointer',
+        outline: selected ? '3px solid #4CAF50' : 'none',
+        outlineOffset: -3,
       }}
     >
       {/* Image or fallback (pot + steam) */}
@@ -153,10 +175,70 @@ export function RecipeTile({ title, types, photoUrl, onClick, ariaLabel }: Recip
           }}
           title={title}
         >
-          {title}
+          {highlight?.length
+            ? highlightParts(title, highlight).map((p, i) =>
+                p.hit ? (
+                  <mark key={i} style={{ background: 'rgba(251,191,36,0.85)', color: '#111827', borderRadius: 2 }}>
+                    {p.text}
+                  </mark>
+                ) : (
+                  <span key={i}>{p.text}</span>
+                )
+              )
+            : title}
         </div>
         <RecipeBadges types={types} variant="overlay" />
+        {detail && (
+          <span
+            style={{
+              display: 'block',
+              fontSize: 11,
+              lineHeight: 1.2,
+              marginTop: 2,
+              color: TILE.textColor,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+            title={detail}
+          >
+            {detail}
+          </span>
+        )}
+        {rated && (
+          <span
+            aria-label={`Rated ${Number(rating).toFixed(1)} out of 5 by ${ratingCount}`}
+            style={{ display: 'block', fontSize: 12, lineHeight: 1.2, marginTop: 2, color: TILE.textColor }}
+          >
+            <span style={{ color: '#fbbf24' }}>★</span> {Number(rating).toFixed(1)} ({ratingCount})
+          </span>
+        )}
       </div>
+
+      {/* Selection check (selection mode only) */}
+      {selectable && (
+        <span
+          aria-hidden="true"
+          style={{
+            position: 'absolute',
+            top: 8,
+            right: 8,
+            width: 24,
+            height: 24,
+            borderRadius: 999,
+            border: '2px solid #fff',
+            background: selected ? '#4CAF50' : 'rgba(17,24,39,0.35)',
+            color: '#fff',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontSize: 14,
+            fontWeight: 700,
+          }}
+        >
+          {selected ? '✓' : ''}
+        </span>
+      )}
     </button>
   );
 }
@@ -0,0 +1,490 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { emitRecipeMutation } from '@/lib/recipeSync';
+import {
+  activeMentionQuery,
+  addComment,
+  buildThreads,
+  deleteComment,
+  fetchComments,
+  mentionName,
+  resolveMentions,
+  searchMentionCandidates,
+  splitMentions,
+  threadIds,
+  updateComment,
+  type CommentNode,
+  type MentionProfile,
+  type RecipeComment,
+} from '@/lib/recipeComments';
+
+// replies past this depth stop indenting so narrow screens stay readable
+const MAX_INDENT_DEPTH = 3;
+
+// /u/[handle] from display_name (preferred) or id
+function profileHandle(p: MentionProfile | null | undefined, fallbackId: string): string {
+  return (p?.display_name && encodeURIComponent(p.display_name)) || p?.id || fallbackId;
+}
+
+function timeAgo(iso: string): string {
+  const mins = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs < 24) return `${hrs}h`;
+  const days = Math.floor(hrs / 24);
+  if (days < 7) return `${days}d`;
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+const linkBtn: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  color: '#6b7280',
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
+/** Threaded comments with @mentions. Used in RecipeModal and on /recipes/[id]. */
+export default function RecipeComments({ recipeId, ownerId }: { recipeId: string; ownerId: string }) {
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [comments, setComments] = useState<RecipeComment[]>([]);
+  const [profiles, setProfiles] = useState<Map<string, MentionProfile>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (mounted) setCurrentUserId(data.user?.id ?? null);
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  async function loadProfiles(ids: string[]) {
+    const missing = Array.from(new Set(ids)).filter((id) => !profiles.has(id));
+    if (!missing.length) return;
+    const { data } = await supabase
+      .from('profiles')
+      .select('id, display_name, nickname, avatar_url')
+      .in('id', missing);
+    setProfiles((prev) => {
+      const next = new Map(prev);
+      ((data as MentionProfile[]) ?? []).forEach((p) => next.set(p.id, p));
+      return next;
+    });
+  }
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      setLoading(true);
+      setErrorMsg(null);
+      try {
+        const rows = await fetchComments(recipeId);
+        if (!mounted) return;
+        setComments(rows);
+        const ids = rows.flatMap((c) => [c.user_id, ...c.mentions]);
+        if (ids.length) {
+          const { data } = await supabase
+            .from('profiles')
+            .select('id, display_name, nickname, avatar_url')
+            .in('id', Array.from(new Set(ids)));
+          if (!mounted) return;
+          setProfiles(new Map(((data as MentionProfile[]) ?? []).map((p) => [p.id, p])));
+        }
+      } catch (e: any) {
+        if (mounted) setErrorMsg(e?.message || 'Could not load comments.');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [recipeId]);
+
+  async function post(body: string, picked: MentionProfile[], parentId: string | null) {
+    if (!currentUserId) return;
+    setErrorMsg(null);
+    const mentions = await resolveMentions(body, picked);
+    const saved = await addComment(currentUserId, recipeId, body, parentId, mentions);
+    setComments((prev) => [...prev, saved]);
+    await loadProfiles([currentUserId, ...mentions]);
+    setReplyTo(null);
+    emitRecipeMutation({ id: recipeId, commentDelta: 1 });
+  }
+
+  async function saveEdit(id: string, body: string, picked: MentionProfile[]) {
+    setErrorMsg(null);
+    const mentions = await resolveMentions(body, picked);
+    const saved = await updateComment(id, body, mentions);
+    setComments((prev) => prev.map((c) => (c.id === id ? saved : c)));
+    await loadProfiles(mentions);
+    setEditingId(null);
+  }
+
+  async function remove(c: RecipeComment) {
+    const gone = threadIds(comments, c.id);
+    const msg = gone.size > 1 ? `Delete this comment and its ${gone.size - 1} repl${gone.size === 2 ? 'y' : 'ies'}?` : 'Delete this comment?';
+    if (!window.confirm(msg)) return;
+    setErrorMsg(null);
+    try {
+      await deleteComment(c.id);
+      setComments((prev) => prev.filter((x) => !gone.has(x.id)));
+      emitRecipeMutation({ id: recipeId, commentDelta: -gone.size });
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Could not delete the comment.');
+    }
+  }
+
+  function renderNode(node: CommentNode, depth: number): React.ReactNode {
+    const author = profiles.get(node.user_id);
+    const name = author?.display_name || author?.nickname || 'Someone';
+    const isAuthor = node.user_id === currentUserId;
+    const canDelete = isAuthor || currentUserId === ownerId;
+    const edited = node.updated_at !== node.created_at;
+    const mentioned = node.mentions.map((id) => profiles.get(id)).filter((p): p is MentionProfile => !!p);
+
+    return (
+      <div key={node.id} style={{ display: 'grid', gap: 6, marginLeft: depth > 0 && depth <= MAX_INDENT_DEPTH ? 16 : 0 }}>
+        <div style={{ display: 'flex', gap: 8, alignItems: 'flex-start' }}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={author?.avatar_url || '/avatar-placeholder.png'}
+            alt=""
+            style={{ width: 28, height: 28, borderRadius: '50%', objectFit: 'cover', flex: '0 0 auto' }}
+          />
+          <div style={{ display: 'grid', gap: 2, minWidth: 0, flex: 1 }}>
+            <div style={{ display: 'flex', gap: 6, alignItems: 'baseline', flexWrap: 'wrap', fontSize: 13 }}>
+              <a
+                href={`/u/${profileHandle(author, node.user_id)}`}
+                style={{ fontWeight: 700, color: '#111827', textDecoration: 'none' }}
+              >
+                {name}
+              </a>
+              {node.user_id === ownerId && <span style={{ fontSize: 11, color: '#6b7280' }}>Author</span>}
+              <span style={{ color: '#9ca3af', fontSize: 12 }}>
+                {timeAgo(node.created_at)}
+                {edited ? ' · edited' : ''}
+              </span>
+            </div>
+
+            {editingId === node.id ? (
+              <CommentComposer
+                initialBody={node.body}
+                initialPicked={mentioned}
+                submitLabel="Save"
+                autoFocus
+                onSubmit={(body, picked) => saveEdit(node.id, body, picked)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div style={{ fontSize: 14, color: '#374151', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                {splitMentions(node.body, mentioned).map((part, i) =>
+                  part.mention ? (
+                    <a
+                      key={i}
+                      href={`/u/${profileHandle(part.mention, part.mention.id)}`}
+                      style={{ color: '#2563eb', textDecoration: 'none', fontWeight: 600 }}
+                    >
+                      {part.text}
+                    </a>
+                  ) : (
+                    <span key={i}>{part.text}</span>
+                  )
+                )}
+              </div>
+            )}
+
+            {editingId !== node.id && (
+              <div style={{ display: 'flex', gap: 12 }}>
+                {currentUserId && (
+                  <button type="button" style={linkBtn} onClick={() => setReplyTo(replyTo === node.id ? null : node.id)}>
+                    Reply
+                  </button>
+                )}
+                {isAuthor && (
+                  <button type="button" style={linkBtn} onClick={() => setEditingId(node.id)}>
+                    Edit
+                  </button>
+                )}
+                {canDelete && (
+                  <button type="button" style={{ ...linkBtn, color: '#b42318' }} onClick={() => remove(node)}>
+                    Delete
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {replyTo === node.id && (
+          <div style={{ marginLeft: 36 }}>
+            <CommentComposer
+              initialBody={!isAuthor && author ? `@${mentionName(author)} ` : ''}
+              initialPicked={!isAuthor && author ? [author] : []}
+              submitLabel="Reply"
+              placeholder={`Reply to ${name}…`}
+              autoFocus
+              onSubmit={(body, picked) => post(body, picked, node.id)}
+              onCancel={() => setReplyTo(null)}
+            />
+          </div>
+        )}
+
+        {node.replies.map((r) => renderNode(r, depth + 1))}
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 10 }}>
+      <div style={{ fontWeight: 700, fontSize: 16 }}>
+        Comments{comments.length ? ` (${comments.length})` : ''}:
+      </div>
+
+      {errorMsg && <div style={{ color: '#b42318', fontSize: 13 }}>{errorMsg}</div>}
+
+      {loading ? (
+        <div style={{ fontSize: 13, color: '#6b7280' }}>Loading…</div>
+      ) : threads.length ? (
+        threads.map((t) => renderNode(t, 0))
+      ) : (
+        <div style={{ fontSize: 13, color: '#6b7280' }}>No comments yet.</div>
+      )}
+
+      {currentUserId ? (
+        <CommentComposer
+          initialBody=""
+          initialPicked={[]}
+          submitLabel="Post"
+          placeholder="Add a comment… use @ to mention someone"
+          resetOnSubmit
+          onSubmit={(body, picked) => post(body, picked, null)}
+        />
+      ) : (
+        <div style={{ fontSize: 13, color: '#6b7280' }}>
+          <a href="/login" style={{ color: '#2563eb' }}>Sign in</a> to comment.
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Textarea with @mention suggestions. Throws from onSubmit are shown inline. */
+function CommentComposer({
+  initialBody,
+  initialPicked,
+  submitLabel,
+  placeholder,
+  autoFocus,
+  resetOnSubmit,
+  onSubmit,
+  onCancel,
+}: {
+  initialBody: string;
+  initialPicked: MentionProfile[];
+  submitLabel: string;
+  placeholder?: string;
+  autoFocus?: boolean;
+  resetOnSubmit?: boolean;
+  onSubmit: (body: string, picked: MentionProfile[]) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialBody);
+  const [picked, setPicked] = useState<MentionProfile[]>(initialPicked);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionProfile[]>([]);
+  const [highlight, setHighlight] = useState(0);
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+
+  // look people up while an "@partial" is being typed
+  useEffect(() => {
+    if (!mention) {
+      setSuggestions([]);
+      return;
+    }
+    let mounted = true;
+    const t = window.setTimeout(async () => {
+      try {
+        const rows = await searchMentionCandidates(mention.query);
+        if (mounted) {
+          setSuggestions(rows.filter((p) => mentionName(p)));
+          setHighlight(0);
+        }
+      } catch {
+        if (mounted) setSuggestions([]);
+      }
+    }, 200);
+    return () => {
+      mounted = false;
+      window.clearTimeout(t);
+    };
+  }, [mention?.start, mention?.query]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  function onChange(e: React.ChangeEvent<HTMLTextAreaElement>) {
+    setBody(e.target.value);
+    setMention(activeMentionQuery(e.target.value, e.target.selectionStart ?? e.target.value.length));
+  }
+
+  function pick(p: MentionProfile) {
+    if (!mention) return;
+    const insert = `@${mentionName(p)} `;
+    const end = mention.start + 1 + mention.query.length;
+    const next = body.slice(0, mention.start) + insert + body.slice(end);
+    setBody(next);
+    setPicked((prev) => (prev.some((x) => x.id === p.id) ? prev : [...prev, p]));
+    setMention(null);
+    const caret = mention.start + insert.length;
+    window.requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+    });
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+    if (!mention || !suggestions.length) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlight((h) => (h + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      pick(suggestions[highlight]);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setMention(null);
+    }
+  }
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!body.trim() || busy) return;
+    setBusy(true);
+    setErr(null);
+    try {
+      await onSubmit(body, picked);
+      if (resetOnSubmit) {
+        setBody('');
+        setPicked([]);
+      }
+    } catch (error: any) {
+      setErr(error?.message || 'Could not save the comment.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} style={{ display: 'grid', gap: 6, position: 'relative' }}>
+      <textarea
+        ref={inputRef}
+        value={body}
+        onChange={onChange}
+        onKeyDown={onKeyDown}
+        onBlur={() => window.setTimeout(() => setMention(null), 150)}
+        rows={2}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        style={{ width: '100%', padding: 8, borderRadius: 6, border: '1px solid #e5e7eb', fontSize: 14, resize: 'vertical' }}
+      />
+
+      {mention && suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          aria-label="Mention someone"
+          style={{
+            listStyle: 'none',
+            margin: 0,
+            padding: 4,
+            position: 'absolute',
+            top: '100%',
+            left: 0,
+            zIndex: 10,
+            minWidth: 200,
+            background: '#fff',
+            border: '1px solid #e5e7eb',
+            borderRadius: 8,
+            boxShadow: '0 8px 24px rgba(0,0,0,0.12)',
+          }}
+        >
+          {suggestions.map((p, i) => (
+            <li
+              key={p.id}
+              role="option"
+              aria-selected={i === highlight}
+              onMouseDown={(e) => {
+                e.preventDefault(); // keep focus in the textarea
+                pick(p);
+              }}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '6px 8px',
+                borderRadius: 6,
+                cursor: 'pointer',
+                background: i === highlight ? '#f3f4f6' : 'transparent',
+                fontSize: 14,
+              }}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={p.avatar_url || '/avatar-placeholder.png'}
+                alt=""
+                style={{ width: 22, height: 22, borderRadius: '50%', objectFit: 'cover' }}
+              />
+              <span>{mentionName(p)}</span>
+              {p.nickname && p.display_name && <span style={{ color: '#9ca3af', fontSize: 12 }}>({p.nickname})</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {err && <div style={{ color: '#b42318', fontSize: 13 }}>{err}</div>}
+
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            style={{ padding: '6px 10px', borderRadius: 8, border: '1px solid #ddd', background: '#fff', fontSize: 13, cursor: 'pointer' }}
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!body.trim() || busy}
+          style={{
+            padding: '6px 10px',
+            borderRadius: 8,
+            border: '1px solid #111827',
+            background: body.trim() ? '#111827' : '#f3f4f6',
+            color: body.trim() ? '#fff' : '#9ca3af',
+            fontSize: 13,
+            cursor: busy ? 'wait' : body.trim() ? 'pointer' : 'default',
+          }}
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
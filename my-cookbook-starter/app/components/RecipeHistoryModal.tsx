@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { diffLines, snapshotLines, type DiffRow } from '@/lib/recipeDiff';
+import { fetchRecipeRevisions, restoreRecipeRevision, type RecipeRevision } from '@/lib/recipeRevisions';
+
+function formatWhen(iso: string) {
+  const d = new Date(iso);
+  return d.toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+const ROW_BG: Record<DiffRow['kind'], [string, string]> = {
+  same: ['transparent', 'transparent'],
+  changed: ['#fef2f2', '#ecfdf5'],
+  removed: ['#fef2f2', '#f9fafb'],
+  added: ['#f9fafb', '#ecfdf5'],
+};
+
+/** Owner-only history for one recipe: pick two versions, compare, restore. */
+export default function RecipeHistoryModal({
+  open,
+  recipeId,
+  onClose,
+  onRestored,
+}: {
+  open: boolean;
+  recipeId: string;
+  onClose: () => void;
+  onRestored: () => void;
+}) {
+  const [revisions, setRevisions] = useState<RecipeRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // left = older version, right = newer version (ids)
+  const [leftId, setLeftId] = useState<string | null>(null);
+  const [rightId, setRightId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      if (!open) return;
+      setLoading(true);
+      setErrorMsg(null);
+      try {
+        const revs = await fetchRecipeRevisions(recipeId);
+        if (!mounted) return;
+        setRevisions(revs);
+        setRightId(revs[0]?.id ?? null);
+        setLeftId(revs[1]?.id ?? revs[0]?.id ?? null);
+      } catch (e: any) {
+        if (mounted) setErrorMsg(e?.message || 'Could not load history.');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [open, recipeId]);
+
+  const left = revisions.find((r) => r.id === leftId) ?? null;
+  const right = revisions.find((r) => r.id === rightId) ?? null;
+
+  const rows = useMemo(
+    () => (left && right ? diffLines(snapshotLines(left.snapshot), snapshotLines(right.snapshot)) : []),
+    [left, right]
+  );
+  const changes = rows.filter((r) => r.kind !== 'same').length;
+
+  async function restore(rev: RecipeRevision) {
+    const ok = window.confirm(
+      `Restore version ${rev.revision_number}? Your current version stays in the history.`
+    );
+    if (!ok) return;
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      await restoreRecipeRevision(recipeId, rev);
+      onRestored();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Restore failed.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!open) return null;
+
+  const selectStyle: React.CSSProperties = {
+    width: '100%',
+    padding: 8,
+    borderRadius: 6,
+    border: '1px solid #e5e7eb',
+    fontSize: 14,
+    background: '#fff',
+  };
+  const versionLabel = (r: RecipeRevision) =>
+    `v${r.revision_number} · ${formatWhen(r.created_at)}${r.note ? ` · ${r.note}` : ''}`;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0,0,0,.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: 12,
+        zIndex: 1100,
+      }}
+      onClick={(e) => {
+        // rendered inside RecipeModal's backdrop; don't close that one too
+        e.stopPropagation();
+        onClose();
+      }}
+      aria-modal="true"
+      role="dialog"
+      aria-label="Version history"
+    >
+      <div
+        style={{
+          width: 'min(960px, 96vw)',
+          background: '#fff',
+          borderRadius: 12,
+          display: 'flex',
+          flexDirection: 'column',
+          maxHeight: '90vh',
+          overflow: 'hidden',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ padding: '12px 16px', borderBottom: '1px solid #eee', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ fontWeight: 700, fontSize: 16 }}>Version history</div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: 18, lineHeight: 1, color: '#111827' }}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div style={{ padding: 16, overflowY: 'auto', display: 'grid', gap: 12 }}>
+          {errorMsg && <div style={{ color: '#b42318' }}>{errorMsg}</div>}
+          {loading ? (
+            <div>Loading…</div>
+          ) : revisions.length === 0 ? (
+            <div style={{ color: '#6b7280' }}>
+              No saved versions yet. A version is recorded every time you save this recipe.
+            </div>
+          ) : (
+            <>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+                {[
+                  { id: leftId, set: setLeftId, rev: left },
+                  { id: rightId, set: setRightId, rev: right },
+                ].map((side, idx) => (
+                  <div key={idx} style={{ display: 'grid', gap: 6 }}>
+                    <select value={side.id ?? ''} onChange={(e) => side.set(e.target.value)} style={selectStyle}>
+                      {revisions.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          {versionLabel(r)}
+                          {r.id === revisions[0].id ? ' (current)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    {side.rev && side.rev.id !== revisions[0].id && (
+                      <button
+                        type="button"
+                        onClick={() => restore(side.rev!)}
+                        disabled={busy}
+                        style={{
+                          justifySelf: 'start',
+                          padding: '6px 10px',
+                          borderRadius: 8,
+                          border: '1px solid #111827',
+                          background: '#111827',
+                          color: '#fff',
+                          fontSize: 13,
+                          cursor: busy ? 'wait' : 'pointer',
+                        }}
+                      >
+                        Restore this version
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div style={{ fontSize: 12, color: '#6b7280' }}>
+                {left?.id === right?.id
+                  ? 'Pick two different versions to compare.'
+                  : changes === 0
+                  ? 'No differences.'
+                  : `${changes} line${changes === 1 ? '' : 's'} differ.`}
+              </div>
+
+              <div style={{ border: '1px solid #eee', borderRadius: 8, overflow: 'hidden', fontSize: 14 }}>
+                {rows.map((row, idx) => {
+                  const [lbg, rbg] = ROW_BG[row.kind];
+                  const cell = (line: DiffRow['left'], bg: string): React.ReactNode => (
+                    <div
+                      style={{
+                        padding: '4px 8px',
+                        background: bg,
+                        fontWeight: line?.heading ? 700 : 400,
+                        color: line ? '#111827' : '#9ca3af',
+                        whiteSpace: 'pre-wrap',
+                        wordBreak: 'break-word',
+                      }}
+                    >
+                      {line ? line.text : ''}
+                    </div>
+                  );
+                  return (
+                    <div
+                      key={idx}
+                      style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', borderTop: idx ? '1px solid #f3f4f6' : 'none' }}
+                    >
+                      {cell(row.left, lbg)}
+                      {cell(row.right, rbg)}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,29 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
+import { formatFriendlyQuantity } from '@/lib/fractions';
+import { formatIngredientForDisplay } from '@/lib/ingredientDisplay';
+import { groupRecipeSections } from '@/lib/recipeSections';
+import { fetchRecipeBundles } from '@/lib/recipeBundle';
+import { downloadRecipe, EXPORT_FORMAT_OPTIONS, writePrintWindow, type ExportFormat } from '@/lib/recipeExport';
+import { isUnitSystem, UNIT_SYSTEM_OPTIONS, type UnitSystem } from '@/lib/unitConversion';
+import { cookSummary, fetchMyCooks, type CookEntry } from '@/lib/cookLog';
+import { emitRecipeMutation } from '@/lib/recipeSync';
+import { isNetworkError, isOffline, queueOfflineOp } from '@/lib/offlineQueue';
+import { fetchCanEditRecipe } from '@/lib/sharedCookbooks';
+import {
+  fetchProfileCard,
+  fetchRecipeCore,
+  fetchRecipeIngredients,
+  fetchRecipeSteps,
+  fetchUnitPreference,
+} from '@/lib/recipeDetail';
+import RecipeHistoryModal from './RecipeHistoryModal';
+import CookLogModal from './CookLogModal';
+import CookMode from './CookMode';
+import RecipeReviews from './RecipeReviews';
+import RecipeComments from './RecipeComments';
+import CollectionPicker from './CollectionPicker';
 
 type Recipe = {
   id: string;
@@ -11,13 +34,19 @@ type Recipe = {
   photo_url: string | null;
   source_url: string | null;
   created_at: string | null;
+  servings?: number | null;
+  total_minutes?: number | null;
+  dietary_tags?: string[] | null;
   instructions?: string | null; // used to infer component order
+  forked_from?: string | null;
+  shared_cookbook_id?: string | null;
 };
 
 type StepRow = { step_number: number; body: string; section_label: string | null };
 type IngredientRow = {
   item_name: string;
   quantity: number | null;
+  quantity_max?: number | null;
   unit: string | null;
   note: string | null;
   section_label: string | null;
@@ -31,6 +60,14 @@ type Profile = {
   avatar_url: string | null;
 };
 
+// "Forked from @user" — null author when the original isn't visible to this viewer
+type ForkOrigin = { id: string; title: string | null; author: Profile | null };
+
+// /u/[handle] from display_name (preferred) or id
+function profileHandle(p: Profile | null): string {
+  return (p?.display_name && encodeURIComponent(p.display_name)) || p?.id || '';
+}
+
 function isSameLocalDate(a: Date, b: Date) {
   return (
     a.getFullYear() === b.getFullYear() &&
@@ -45,6 +82,9 @@ function formatMonthDayYearWithComma(d: Date) {
   return `${month}, ${day}, ${year}`;
 }
 
+// Scale steps offered when a recipe has no servings count
+const MULTIPLIERS = [0.5, 1, 1.5, 2, 3, 4];
+
 const FOOTER_HEIGHT_PX = 44;
 
 export default function RecipeModal({
@@ -77,6 +117,52 @@ export default function RecipeModal({
   const [busySave, setBusySave] = useState<boolean>(false);
   const [bookmarkCount, setBookmarkCount] = useState<number>(0);
 
+  // servings scaler
+  const [targetServings, setTargetServings] = useState<number | null>(null);
+  const [multiplier, setMultiplier] = useState<number>(1);
+  const baseServings = fullRecipe?.servings ?? null;
+  const scale = baseServings && targetServings ? targetServings / baseServings : multiplier;
+
+  // unit system (viewer preference from profiles.unit_system)
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('original');
+
+  // forks
+  const [forkOrigin, setForkOrigin] = useState<ForkOrigin | null>(null);
+  const [forkCount, setForkCount] = useState<number>(0);
+
+  // version history (owner only); bumping reloadKey re-fetches after a restore
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // cook log (viewer's own cooks of this recipe)
+  const [myCooks, setMyCooks] = useState<CookEntry[]>([]);
+  const [cookOpen, setCookOpen] = useState(false);
+
+  // full-screen step-by-step view
+  const [cookModeOpen, setCookModeOpen] = useState(false);
+
+  // the author, or an owner/editor of the recipe's shared cookbook
+  const [canEdit, setCanEdit] = useState(false);
+  const sharedCookbookId = fullRecipe?.shared_cookbook_id ?? null;
+  useEffect(() => {
+    let mounted = true;
+    if (isOwner || !recipe || !currentUserId || !sharedCookbookId) {
+      setCanEdit(isOwner);
+      return;
+    }
+    (async () => {
+      const ok = await fetchCanEditRecipe(recipe.id);
+      if (mounted) setCanEdit(ok);
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [isOwner, recipe, currentUserId, sharedCookbookId]);
+
+  // "Save to collection" popover (also opens after bookmarking)
+  const [collectionsOpen, setCollectionsOpen] = useState(false);
+  useEffect(() => setCollectionsOpen(false), [recipe?.id, open]);
+
   const addedText = useMemo(() => {
     const created = fullRecipe?.created_at ? new Date(fullRecipe.created_at) : null;
     if (!created) return null;
@@ -103,42 +189,61 @@ export default function RecipeModal({
       if (!open || !recipe) return;
 
       setLoading(true);
+      setTargetServings(null);
+      setMultiplier(1);
+      setForkOrigin(null);
+      setForkCount(0);
 
       const { data: authData } = await supabase.auth.getUser();
       const uid = authData?.user?.id ?? null;
       if (!mounted) return;
       setCurrentUserId(uid);
 
+      if (uid) {
+        const { data: me } = await fetchUnitPreference(uid);
+        if (!mounted) return;
+        const pref = (me?.[0] as { unit_system?: string } | undefined)?.unit_system;
+        setUnitSystem(isUnitSystem(pref) ? pref : 'original');
+      }
+
       // fetch latest core (for instructions)
-      const { data: rRow } = await supabase
-        .from('recipes')
-        .select('id,user_id,title,cuisine,photo_url,source_url,created_at,instructions')
-        .eq('id', recipe.id)
-        .single();
+      const { data: rRow } = await fetchRecipeCore(recipe.id);
       if (!mounted) return;
       setFullRecipe((rRow as Recipe) ?? recipe);
+      setTargetServings((rRow as Recipe | null)?.servings ?? null);
+
+      // fork attribution + how many times this one was copied
+      const originId = (rRow as Recipe | null)?.forked_from ?? null;
+      const [{ data: originRows }, { data: fc }] = await Promise.all([
+        originId
+          ? supabase.from('recipes').select('id,title,user_id').eq('id', originId).limit(1)
+          : Promise.resolve({ data: null }),
+        supabase.rpc('fork_count', { p_recipe_id: recipe.id }),
+      ]);
+      if (!mounted) return;
+      setForkCount(typeof fc === 'number' ? fc : 0);
+      if (originId) {
+        const origin = (originRows?.[0] as { id: string; title: string; user_id: string } | undefined) ?? null;
+        let originAuthor: Profile | null = null;
+        if (origin) {
+          const { data: op } = await fetchProfileCard(origin.user_id);
+          if (!mounted) return;
+          originAuthor = (op?.[0] as Profile) ?? null;
+        }
+        setForkOrigin({ id: originId, title: origin?.title ?? null, author: originAuthor });
+      } else {
+        setForkOrigin(null);
+      }
 
       // author
-      const { data: profs } = await supabase
-        .from('profiles')
-        .select('id, display_name, nickname, avatar_url')
-        .eq('id', recipe.user_id)
-        .limit(1);
+      const { data: profs } = await fetchProfileCard(recipe.user_id);
       if (!mounted) return;
       setAuthor((profs?.[0] as Profile) ?? null);
 
       // children
       const [{ data: stepData }, { data: ingData }] = await Promise.all([
-        supabase
-          .from('recipe_steps')
-          .select('step_number,body,section_label')
-          .eq('recipe_id', recipe.id)
-          .order('step_number'),
-        supabase
-          .from('recipe_ingredients')
-          .select('item_name,quantity,unit,note,section_label,ingredient_order')
-          .eq('recipe_id', recipe.id)
-          .order('ingredient_order', { ascending: true }),
+        fetchRecipeSteps(recipe.id),
+        fetchRecipeIngredients(recipe.id),
       ]);
       if (!mounted) return;
       setSteps((stepData as StepRow[]) || []);
@@ -192,66 +297,37 @@ export default function RecipeModal({
     return () => {
       mounted = false;
     };
-  }, [open, recipe]);
-
-  // parse creation order from instructions headings ("Name:")
-  const sectionOrderFromInstructions = useMemo(() => {
-    const order: string[] = [];
-    const seen = new Set<string>();
-    const lines = (fullRecipe?.instructions || '').split('\n');
-    for (const raw of lines) {
-      const line = raw.trim();
-      if (!line) continue;
-      if (line.endsWith(':')) {
-        const name = line.slice(0, -1).trim();
-        const normalized = name || 'Main';
-        if (!seen.has(normalized)) {
-          seen.add(normalized);
-          order.push(normalized);
-        }
+  }, [open, recipe, reloadKey]);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      setMyCooks([]);
+      if (!open || !recipe?.id || !currentUserId) return;
+      try {
+        const cooks = await fetchMyCooks(currentUserId, recipe.id);
+        if (mounted) setMyCooks(cooks);
+      } catch {
+        // table missing / RLS: just don't show the summary
       }
-    }
-    return order;
-  }, [fullRecipe?.instructions]);
-
-  // group by section, maintain order
-  const sections = useMemo(() => {
-    type Sec = { ingredients: IngredientRow[]; steps: StepRow[] };
-    const map = new Map<string, Sec>();
-    const add = (key: string) => {
-      if (!map.has(key)) map.set(key, { ingredients: [], steps: [] });
+    })();
+    return () => {
+      mounted = false;
     };
+  }, [open, recipe?.id, currentUserId]);
 
-    ings.forEach((i) => {
-      const key = (i.section_label || 'Main').trim() || 'Main';
-      add(key);
-      map.get(key)!.ingredients.push(i);
-    });
-    steps.forEach((s) => {
-      const key = (s.section_label || 'Main').trim() || 'Main';
-      add(key);
-      map.get(key)!.steps.push(s);
-    });
-
-    // build ordered list
-    const keys = new Set(map.keys());
-    const ordered: string[] = [];
-
-    sectionOrderFromInstructions.forEach((name) => {
-      if (keys.has(name)) {
-        ordered.push(name);
-        keys.delete(name);
-      }
-    });
-    if (keys.has('Main') && !ordered.includes('Main')) {
-      ordered.unshift('Main');
-      keys.delete('Main');
-    }
-    const remaining = Array.from(keys).sort((a, b) => a.localeCompare(b));
-    ordered.push(...remaining);
+  // group by section, in the order components were created
+  const sections = useMemo(
+    () => groupRecipeSections(ings, steps, fullRecipe?.instructions),
+    [ings, steps, fullRecipe?.instructions]
+  );
 
-    return ordered.map((name) => ({ name, ...map.get(name)! }));
-  }, [ings, steps, sectionOrderFromInstructions]);
+  // Switch units for this view and remember the choice on the viewer's profile
+  async function changeUnitSystem(next: UnitSystem) {
+    setUnitSystem(next);
+    if (!currentUserId) return;
+    await supabase.from('profiles').update({ unit_system: next }).eq('id', currentUserId);
+  }
 
   async function toggleHeart() {
     if (!currentUserId || !recipe || busyHeart) return;
@@ -274,7 +350,14 @@ export default function RecipeModal({
           .eq('user_id', currentUserId);
         if (error) throw error;
       }
-    } catch {
+      emitRecipeMutation({ id: recipe.id, heartDelta: next ? 1 : -1, heartedByMe: next });
+    } catch (e) {
+      if (isOffline() || isNetworkError(e)) {
+        // keep the new state; it's sent when the connection returns
+        queueOfflineOp({ type: 'heart', userId: currentUserId, recipeId: recipe.id, on: next, title: recipe.title });
+        emitRecipeMutation({ id: recipe.id, heartDelta: next ? 1 : -1, heartedByMe: next });
+        return;
+      }
       setDidHeart(!next);
       setHeartCount((c) => Math.max(0, c + (next ? -1 : 1)));
     } finally {
@@ -303,7 +386,15 @@ export default function RecipeModal({
           .eq('user_id', currentUserId);
         if (error) throw error;
       }
-    } catch {
+      emitRecipeMutation({ id: recipe.id, bookmarkDelta: next ? 1 : -1, bookmarkedByMe: next });
+      if (next) setCollectionsOpen(true);
+    } catch (e) {
+      if (isOffline() || isNetworkError(e)) {
+        // keep the new state; it's sent when the connection returns
+        queueOfflineOp({ type: 'bookmark', userId: currentUserId, recipeId: recipe.id, on: next, title: recipe.title });
+        emitRecipeMutation({ id: recipe.id, bookmarkDelta: next ? 1 : -1, bookmarkedByMe: next });
+        return;
+      }
       setDidSave(!next);
       if (isOwner) setBookmarkCount((c) => Math.max(0, c + (next ? -1 : 1)));
     } finally {
@@ -311,11 +402,20 @@ export default function RecipeModal({
     }
   }
 
+  // collections hold own and bookmarked recipes: bookmark someone else's before filing it
+  async function bookmarkBeforeCollecting() {
+    if (!recipe || !currentUserId || isOwner || didSave) return;
+    const { error } = await supabase.from('recipe_bookmarks').insert({ recipe_id: recipe.id, user_id: currentUserId });
+    if (error && error.code !== '23505') throw error;
+    setDidSave(true);
+    emitRecipeMutation({ id: recipe.id, bookmarkDelta: 1, bookmarkedByMe: true });
+  }
+
   if (!open || !recipe) return null;
   const authorName = author?.display_name || author?.nickname || 'Unknown user';
   // 👇 build /u/[handle] from display_name (preferred) or id
-  const authorHandle =
-    (author?.display_name && encodeURIComponent(author.display_name)) || author?.id || '';
+  const authorHandle = profileHandle(author);
+  const canFork = !!currentUserId && !isOwner;
 
   return (
     <div
@@ -394,7 +494,35 @@ export default function RecipeModal({
               </span>
             </a>
 
+            <RecipeExportMenu recipeId={recipe.id} />
+
             {isOwner && (
+              <button
+                type="button"
+                onClick={() => setHistoryOpen(true)}
+                aria-label="Version history"
+                title="Version history"
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  color: '#111827',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  lineHeight: 0,
+                }}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+                  <path d="M3 3v5h5" />
+                  <path d="M12 7v5l3 2" />
+                </svg>
+              </button>
+            )}
+
+            {canEdit && (
               <a
                 href={`/add-recipe?id=${recipe.id}`}
                 title="Edit recipe"
@@ -477,17 +605,119 @@ export default function RecipeModal({
               gap: 12,
             }}
           >
-            {/* Title + cuisine */}
+            {/* Title + cuisine, total time, dietary tags */}
             <div style={{ marginBottom: 4 }}>
               <div style={{ fontSize: 20, fontWeight: 700 }}>
                 {fullRecipe?.title ?? recipe.title}
               </div>
-              <div style={{ color: '#666' }}>{fullRecipe?.cuisine || ''}</div>
+              <div style={{ color: '#666' }}>
+                {[
+                  fullRecipe?.cuisine,
+                  fullRecipe?.total_minutes ? `${fullRecipe.total_minutes} min` : null,
+                  ...(fullRecipe?.dietary_tags ?? []),
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </div>
+              {forkOrigin && (
+                <div style={{ color: '#6b7280', fontSize: 13, marginTop: 2 }}>
+                  Forked from{' '}
+                  {forkOrigin.author ? (
+                    <a href={`/u/${profileHandle(forkOrigin.author)}`} style={{ color: '#2563eb', textDecoration: 'none' }}>
+                      @{forkOrigin.author.display_name || forkOrigin.author.nickname || 'user'}
+                    </a>
+                  ) : (
+                    'another cook'
+                  )}
+                  {forkOrigin.title ? `’s “${forkOrigin.title}”` : ''}
+                </div>
+              )}
             </div>
 
+            {currentUserId && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10, flexWrap: 'wrap' }}>
+                <button
+                  type="button"
+                  onClick={() => setCookOpen(true)}
+                  style={{
+                    padding: '6px 12px',
+                    borderRadius: 999,
+                    border: '1px solid #4CAF50',
+                    background: '#4CAF50',
+                    color: '#fff',
+                    fontSize: 13,
+                    fontWeight: 600,
+                    cursor: 'pointer',
+                  }}
+                >
+                  Cooked it
+                </button>
+                {cookSummary(myCooks) && (
+                  <span style={{ fontSize: 13, color: '#6b7280' }}>{cookSummary(myCooks)}</span>
+                )}
+              </div>
+            )}
+
+            {(canFork || forkCount > 0) && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 10, flexWrap: 'wrap' }}>
+                {canFork && (
+                  <a
+                    href={`/add-recipe?fork=${recipe.id}`}
+                    style={{
+                      padding: '6px 12px',
+                      borderRadius: 999,
+                      border: '1px solid #111827',
+                      color: '#111827',
+                      textDecoration: 'none',
+                      fontSize: 13,
+                      fontWeight: 600,
+                    }}
+                  >
+                    Copy to my cookbook
+                  </a>
+                )}
+                {forkCount > 0 && (
+                  <span style={{ fontSize: 13, color: '#6b7280' }}>
+                    Forked {forkCount} time{forkCount === 1 ? '' : 's'}
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* INGREDIENTS grouped under one heading */}
             <div style={{ display: 'grid', gap: 10 }}>
-              <div style={{ fontWeight: 700, fontSize: 16 }}>Ingredients:</div>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8, flexWrap: 'wrap' }}>
+                <div style={{ fontWeight: 700, fontSize: 16 }}>Ingredients:</div>
+                <ServingsScaler
+                  baseServings={baseServings}
+                  targetServings={targetServings}
+                  multiplier={multiplier}
+                  onServings={setTargetServings}
+                  onMultiplier={setMultiplier}
+                />
+              </div>
+              <div role="radiogroup" aria-label="Units" style={{ display: 'inline-flex', gap: 4, justifySelf: 'start', padding: 3, border: '1px solid #e5e7eb', borderRadius: 999 }}>
+                {UNIT_SYSTEM_OPTIONS.map((o) => (
+                  <button
+                    key={o.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={unitSystem === o.value}
+                    onClick={() => changeUnitSystem(o.value)}
+                    style={{
+                      padding: '4px 10px',
+                      borderRadius: 999,
+                      border: 'none',
+                      background: unitSystem === o.value ? '#111827' : 'transparent',
+                      color: unitSystem === o.value ? '#fff' : '#374151',
+                      fontSize: 12,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {o.label}
+                  </button>
+                ))}
+              </div>
               {loading ? (
                 <div>Loading…</div>
               ) : (
@@ -499,14 +729,11 @@ export default function RecipeModal({
                       {sec.ingredients.length > 0 ? (
                         <ul style={{ paddingLeft: 18, margin: 0 }}>
                           {sec.ingredients.map((i, idx) => {
-                            const qty = i.quantity ?? '';
-                            const parts = [qty, i.unit, i.item_name]
-                              .filter(Boolean)
-                              .join(' ');
+                            const { text, note } = formatIngredientForDisplay(i, { scale, system: unitSystem });
                             return (
                               <li key={idx}>
-                                {parts}
-                                {i.note ? ` (${i.note})` : ''}
+                                {text}
+                                {note ? ` (${note})` : ''}
                               </li>
                             );
                           })}
@@ -524,7 +751,27 @@ export default function RecipeModal({
 
             {/* INSTRUCTIONS grouped under one heading */}
             <div style={{ display: 'grid', gap: 10 }}>
-              <div style={{ fontWeight: 700, fontSize: 16 }}>Instructions:</div>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
+                <div style={{ fontWeight: 700, fontSize: 16 }}>Instructions:</div>
+                {!loading && steps.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setCookModeOpen(true)}
+                    style={{
+                      padding: '4px 10px',
+                      borderRadius: 999,
+                      border: '1px solid #111827',
+                      background: '#fff',
+                      color: '#111827',
+                      fontSize: 12,
+                      fontWeight: 600,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Cook mode
+                  </button>
+                )}
+              </div>
               {loading ? (
                 <div>Loading…</div>
               ) : (
@@ -550,6 +797,14 @@ export default function RecipeModal({
               )}
             </div>
 
+            {/* RATINGS + REVIEWS */}
+            {recipe?.id && recipe.user_id && (
+              <RecipeReviews recipeId={recipe.id} ownerId={recipe.user_id} currentUserId={currentUserId} />
+            )}
+
+            {/* COMMENTS */}
+            {recipe?.id && recipe.user_id && <RecipeComments recipeId={recipe.id} ownerId={recipe.user_id} />}
+
             {fullRecipe?.source_url ? (
               <a
                 href={fullRecipe.source_url}
@@ -655,9 +910,220 @@ export default function RecipeModal({
               )}
               {isOwner ? <span style={{ fontSize: 14 }}>{bookmarkCount}</span> : null}
             </button>
+
+            {/* Collections */}
+            {currentUserId && (
+              <div style={{ position: 'relative', lineHeight: 0 }}>
+                <button
+                  type="button"
+                  onClick={() => setCollectionsOpen((v) => !v)}
+                  aria-haspopup="dialog"
+                  aria-expanded={collectionsOpen}
+                  aria-label="Save to collection"
+                  title="Save to collection"
+                  style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: '#374151' }}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M3 6a1 1 0 0 1 1-1h5l2 2h9a1 1 0 0 1 1 1v10a1 1 0 0 1-1 1H4a1 1 0 0 1-1-1z" />
+                    <path d="M12 11v5M9.5 13.5h5" />
+                  </svg>
+                </button>
+                {collectionsOpen && (
+                  <CollectionPicker
+                    userId={currentUserId}
+                    recipeId={recipe.id}
+                    beforeAdd={bookmarkBeforeCollecting}
+                    onClose={() => setCollectionsOpen(false)}
+                  />
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
+
+      <CookMode
+        open={cookModeOpen}
+        title={fullRecipe?.title ?? recipe.title}
+        sections={sections}
+        onClose={() => setCookModeOpen(false)}
+      />
+
+      {currentUserId && (
+        <CookLogModal
+          open={cookOpen}
+          userId={currentUserId}
+          recipeId={recipe.id}
+          onClose={() => setCookOpen(false)}
+          onLogged={(entry) => {
+            setCookOpen(false);
+            setMyCooks((prev) =>
+              [entry, ...prev].sort((a, b) => b.cooked_on.localeCompare(a.cooked_on))
+            );
+          }}
+        />
+      )}
+
+      {isOwner && (
+        <RecipeHistoryModal
+          open={historyOpen}
+          recipeId={recipe.id}
+          onClose={() => setHistoryOpen(false)}
+          onRestored={() => {
+            setHistoryOpen(false);
+            setReloadKey((k) => k + 1);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/** Servings stepper (or a plain ×N multiplier when the recipe has no servings). */
+function ServingsScaler({
+  baseServings,
+  targetServings,
+  multiplier,
+  onServings,
+  onMultiplier,
+}: {
+  baseServings: number | null;
+  targetServings: number | null;
+  multiplier: number;
+  onServings: (n: number) => void;
+  onMultiplier: (n: number) => void;
+}) {
+  const btn: React.CSSProperties = {
+    width: 28,
+    height: 28,
+    borderRadius: 999,
+    border: '1px solid #e5e7eb',
+    background: '#fff',
+    cursor: 'pointer',
+    fontSize: 16,
+    lineHeight: 1,
+  };
+  const wrap: React.CSSProperties = { display: 'inline-flex', alignItems: 'center', gap: 8, fontSize: 13, color: '#374151' };
+
+  if (baseServings) {
+    const current = targetServings ?? baseServings;
+    return (
+      <div style={wrap} aria-label="Adjust servings">
+        <span>Servings</span>
+        <button type="button" style={btn} onClick={() => onServings(Math.max(1, current - 1))} disabled={current <= 1} aria-label="Fewer servings">−</button>
+        <span style={{ minWidth: 20, textAlign: 'center', fontWeight: 700 }}>{current}</span>
+        <button type="button" style={btn} onClick={() => onServings(Math.min(99, current + 1))} aria-label="More servings">+</button>
+        {current !== baseServings && (
+          <button type="button" onClick={() => onServings(baseServings)} style={{ background: 'none', border: 'none', color: '#2563eb', cursor: 'pointer', fontSize: 12, padding: 0 }}>
+            Reset
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const idx = Math.max(0, MULTIPLIERS.indexOf(multiplier));
+  return (
+    <div style={wrap} aria-label="Scale recipe">
+      <span>Scale</span>
+      <button type="button" style={btn} onClick={() => onMultiplier(MULTIPLIERS[Math.max(0, idx - 1)])} disabled={idx === 0} aria-label="Scale down">−</button>
+      <span style={{ minWidth: 28, textAlign: 'center', fontWeight: 700 }}>×{formatFriendlyQuantity(multiplier)}</span>
+      <button type="button" style={btn} onClick={() => onMultiplier(MULTIPLIERS[Math.min(MULTIPLIERS.length - 1, idx + 1)])} disabled={idx === MULTIPLIERS.length - 1} aria-label="Scale up">+</button>
+    </div>
+  );
+}
+
+/** Download icon with a small menu: JSON-LD, Markdown, or the printable page. */
+function RecipeExportMenu({ recipeId }: { recipeId: string }) {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  async function exportAs(format: ExportFormat) {
+    setMenuOpen(false);
+    // open the print window now, while we're still inside the click (popup blockers)
+    const win = format === 'print' ? window.open('', '_blank') : null;
+    setBusy(true);
+    try {
+      const [bundle] = await fetchRecipeBundles([recipeId]);
+      if (!bundle) throw new Error('Recipe not found.');
+      if (format === 'print') {
+        if (win) writePrintWindow(win, [bundle]);
+      } else {
+        downloadRecipe(bundle, format);
+      }
+    } catch (e: any) {
+      win?.close();
+      alert(e?.message || 'Export failed.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ position: 'relative', lineHeight: 0 }}>
+      <button
+        type="button"
+        onClick={() => setMenuOpen((v) => !v)}
+        disabled={busy}
+        aria-haspopup="menu"
+        aria-expanded={menuOpen}
+        aria-label="Export recipe"
+        title="Export"
+        style={{
+          background: 'none',
+          border: 'none',
+          padding: 0,
+          cursor: busy ? 'wait' : 'pointer',
+          color: '#111827',
+          opacity: busy ? 0.6 : 1,
+        }}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M12 3v12M7 10l5 5 5-5" />
+          <path d="M5 21h14" />
+        </svg>
+      </button>
+      {menuOpen && (
+        <div
+          role="menu"
+          style={{
+            position: 'absolute',
+            right: 0,
+            top: 32,
+            background: '#fff',
+            border: '1px solid #e5e7eb',
+            borderRadius: 10,
+            boxShadow: '0 8px 24px rgba(0,0,0,.12)',
+            padding: 4,
+            minWidth: 190,
+            zIndex: 10,
+            lineHeight: 1.4,
+          }}
+        >
+          {EXPORT_FORMAT_OPTIONS.map((o) => (
+            <button
+              key={o.value}
+              type="button"
+              role="menuitem"
+              onClick={() => exportAs(o.value)}
+              style={{
+                display: 'block',
+                width: '100%',
+                textAlign: 'left',
+                padding: '8px 10px',
+                background: 'none',
+                border: 'none',
+                borderRadius: 6,
+                cursor: 'pointer',
+                fontSize: 14,
+                color: '#111827',
+              }}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
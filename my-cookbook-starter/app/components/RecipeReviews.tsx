@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  deleteReview,
+  fetchReviews,
+  formatRating,
+  saveReview,
+  summarizeRatings,
+  type RecipeReview,
+} from '@/lib/recipeReviews';
+
+type Profile = { id: string; display_name: string | null; nickname: string | null; avatar_url: string | null };
+
+function Stars({ value, size = 14 }: { value: number; size?: number }) {
+  return (
+    <span aria-label={`${value} out of 5 stars`} style={{ color: '#f59e0b', fontSize: size, letterSpacing: 1 }}>
+      {'★'.repeat(Math.round(value))}
+      <span style={{ color: '#d1d5db' }}>{'★'.repeat(5 - Math.round(value))}</span>
+    </span>
+  );
+}
+
+/** Ratings + written reviews under a recipe; the owner sees them but can't rate their own. */
+export default function RecipeReviews({
+  recipeId,
+  ownerId,
+  currentUserId,
+}: {
+  recipeId: string;
+  ownerId: string;
+  currentUserId: string | null;
+}) {
+  const [reviews, setReviews] = useState<RecipeReview[]>([]);
+  const [profiles, setProfiles] = useState<Map<string, Profile>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  // the viewer's own review (draft)
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const mine = reviews.find((r) => r.user_id === currentUserId) ?? null;
+  const others = reviews.filter((r) => r.user_id !== currentUserId);
+  const canReview = !!currentUserId && currentUserId !== ownerId;
+  const summary = summarizeRatings(reviews);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      setLoading(true);
+      setErrorMsg(null);
+      try {
+        const rows = await fetchReviews(recipeId);
+        if (!mounted) return;
+        setReviews(rows);
+        const ownRow = rows.find((r) => r.user_id === currentUserId);
+        setRating(ownRow?.rating ?? 0);
+        setBody(ownRow?.body ?? '');
+        setEditing(false);
+
+        const ids = Array.from(new Set(rows.map((r) => r.user_id)));
+        if (ids.length) {
+          const { data } = await supabase
+            .from('profiles')
+            .select('id, display_name, nickname, avatar_url')
+            .in('id', ids);
+          if (!mounted) return;
+          setProfiles(new Map(((data as Profile[]) ?? []).map((p) => [p.id, p])));
+        }
+      } catch (e: any) {
+        if (mounted) setErrorMsg(e?.message || 'Could not load reviews.');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [recipeId, currentUserId]);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!currentUserId || !rating || busy) return;
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      const saved = await saveReview(currentUserId, recipeId, rating, body);
+      setReviews((prev) => [saved, ...prev.filter((r) => r.id !== saved.id)]);
+      setEditing(false);
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Could not save your review.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove() {
+    if (!mine || busy) return;
+    if (!window.confirm('Delete your review?')) return;
+    setBusy(true);
+    setErrorMsg(null);
+    try {
+      await deleteReview(mine.id);
+      setReviews((prev) => prev.filter((r) => r.id !== mine.id));
+      setRating(0);
+      setBody('');
+    } catch (err: any) {
+      setErrorMsg(err?.message || 'Could not delete your review.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const nameOf = (uid: string) => {
+    const p = profiles.get(uid);
+    return p?.display_name || p?.nickname || 'Someone';
+  };
+  const showForm = canReview && (!mine || editing);
+
+  return (
+    <div style={{ display: 'grid', gap: 10 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+        <div style={{ fontWeight: 700, fontSize: 16 }}>Reviews:</div>
+        {summary.avg != null && (
+          <span style={{ fontSize: 13, color: '#374151' }}>
+            <Stars value={summary.avg} /> {formatRating(summary.avg)} · {summary.count} rating{summary.count === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      {errorMsg && <div style={{ color: '#b42318', fontSize: 13 }}>{errorMsg}</div>}
+
+      {showForm && (
+        <form onSubmit={submit} style={{ display: 'grid', gap: 6, padding: 10, border: '1px solid #e5e7eb', borderRadius: 8 }}>
+          <div role="radiogroup" aria-label="Your rating" style={{ display: 'flex', gap: 2 }}>
+            {[1, 2, 3, 4, 5].map((n) => (
+              <button
+                key={n}
+                type="button"
+                role="radio"
+                aria-checked={rating === n}
+                aria-label={`${n} star${n === 1 ? '' : 's'}`}
+                onClick={() => setRating(n)}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  padding: 2,
+                  cursor: 'pointer',
+                  fontSize: 22,
+                  lineHeight: 1,
+                  color: n <= rating ? '#f59e0b' : '#d1d5db',
+                }}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            placeholder="Write a review (optional)"
+            style={{ width: '100%', padding: 8, borderRadius: 6, border: '1px solid #e5e7eb', fontSize: 14, resize: 'vertical' }}
+          />
+          <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+            {mine && (
+              <button
+                type="button"
+                onClick={() => {
+                  setRating(mine.rating);
+                  setBody(mine.body ?? '');
+                  setEditing(false);
+                }}
+                style={{ padding: '6px 10px', borderRadius: 8, border: '1px solid #ddd', background: '#fff', fontSize: 13, cursor: 'pointer' }}
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={!rating || busy}
+              style={{
+                padding: '6px 10px',
+                borderRadius: 8,
+                border: '1px solid #111827',
+                background: rating ? '#111827' : '#f3f4f6',
+                color: rating ? '#fff' : '#9ca3af',
+                fontSize: 13,
+                cursor: busy ? 'wait' : rating ? 'pointer' : 'default',
+              }}
+            >
+              {mine ? 'Update review' : 'Post review'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div style={{ fontSize: 13, color: '#6b7280' }}>Loading…</div>
+      ) : (
+        <>
+          {mine && !editing && (
+            <ReviewItem review={mine} name="You">
+              <button
+                type="button"
+                onClick={() => setEditing(true)}
+                style={{ background: 'none', border: 'none', padding: 0, color: '#2563eb', fontSize: 12, cursor: 'pointer' }}
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                onClick={remove}
+                disabled={busy}
+                style={{ background: 'none', border: 'none', padding: 0, color: '#b42318', fontSize: 12, cursor: 'pointer' }}
+              >
+                Delete
+              </button>
+            </ReviewItem>
+          )}
+          {others.map((r) => (
+            <ReviewItem key={r.id} review={r} name={nameOf(r.user_id)} />
+          ))}
+          {reviews.length === 0 && (
+            <div style={{ fontSize: 13, color: '#6b7280' }}>
+              {canReview ? 'No reviews yet. Be the first to rate it.' : 'No reviews yet.'}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function ReviewItem({ review, name, children }: { review: RecipeReview; name: string; children?: React.ReactNode }) {
+  const edited = review.updated_at !== review.created_at;
+  return (
+    <div style={{ display: 'grid', gap: 2, paddingBottom: 8, borderBottom: '1px solid #f3f4f6' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', fontSize: 13 }}>
+        <strong style={{ color: '#111827' }}>{name}</strong>
+        <Stars value={review.rating} />
+        <span style={{ color: '#9ca3af', fontSize: 12 }}>
+          {new Date(review.updated_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+          {edited ? ' · edited' : ''}
+        </span>
+        {children}
+      </div>
+      {review.body && <div style={{ fontSize: 14, color: '#374151', whiteSpace: 'pre-wrap' }}>{review.body}</div>}
+    </div>
+  );
+}
@@ -6,8 +6,17 @@ import { supabase } from '@/lib/supabaseClient';
 import AuthGuard from '../components/AuthGuard';
 import FriendsListModal from '../components/FriendsListModal';
 import ProfileSection from '../components/ProfileSection';
+import CollectionsShelf from '../components/CollectionsShelf';
 import RecipeModal from '../components/RecipeModal';
 import { RecipeTile, recipeGridStyle } from '../components/RecipeBadges';
+import { fetchRecipeBundles } from '@/lib/recipeBundle';
+import { buildCookbookZip, downloadBlob, writePrintWindow } from '@/lib/recipeExport';
+import { createCookbookBackup, restoreCookbookBackup } from '@/lib/cookbookBackup';
+import { addRecipesToShoppingList } from '@/lib/shoppingList';
+import { applyRecipeListMutation, subscribeRecipeMutations } from '@/lib/recipeSync';
+import { fetchCookbookRecipes } from '@/lib/recipeSources';
+import { fetchPantryMatches, type PantryMatch } from '@/lib/pantry';
+import PantryMatchList from '../components/PantryMatchList';
 
 type Recipe = {
   id: string;
@@ -18,6 +27,8 @@ type Recipe = {
   photo_url: string | null;
   source_url: string | null;
   created_at: string | null;      // for “Added on …”
+  avg_rating?: number | null;
+  rating_count?: number | null;
 };
 
 export default function CookbookPage() {
@@ -32,8 +43,8 @@ export default function CookbookPage() {
   // Friend count
   const [friendCount, setFriendCount] = useState<number>(0);
 
-  // “Recipes cooked” — placeholder for now (0).
-  const [recipesCookedCount] = useState<number>(0);
+  // “Recipes cooked” — entries in the cook log (RecipeModal → Cooked it)
+  const [recipesCookedCount, setRecipesCookedCount] = useState<number>(0);
 
   // Recipe detail modal (shared RecipeModal)
   const [selected, setSelected] = useState<Recipe | null>(null);
@@ -42,6 +53,24 @@ export default function CookbookPage() {
   // Friends modal
   const [friendsOpen, setFriendsOpen] = useState(false);
 
+  // Export (zip / print of every recipe)
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+
+  // Backup / restore
+  const [backupStatus, setBackupStatus] = useState<string | null>(null);
+  const [backupNotice, setBackupNotice] = useState<string | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Selection mode (pick recipes for the shopping list)
+  const [selecting, setSelecting] = useState(false);
+  const [pickedIds, setPickedIds] = useState<Set<string>>(new Set());
+  const [shopBusy, setShopBusy] = useState(false);
+
+  // "What can I cook?" — recipes ranked by what's in the pantry
+  const [cookNow, setCookNow] = useState(false);
+  const [matches, setMatches] = useState<PantryMatch[] | null>(null);
+  const [matchesMsg, setMatchesMsg] = useState<string | null>(null);
+
   // Ref to scroll to the grid
   const gridRef = useRef<HTMLDivElement | null>(null);
 
@@ -59,27 +88,49 @@ export default function CookbookPage() {
         return;
       }
 
-      // Load my recipes (include user_id & created_at for modal)
-      const { data, error } = await supabase
-        .from('recipes')
-        .select('id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at')
-        .eq('user_id', uid)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        setErrorMsg(error.message);
-      } else {
-        setRecipes((data as Recipe[]) ?? []);
-      }
+      await loadRecipes(uid);
 
       // Load friend count via RPC
       const { data: fc, error: fcErr } = await supabase.rpc('friend_count', { uid });
       if (!fcErr && typeof fc === 'number') setFriendCount(fc as number);
 
+      await loadCookCount(uid);
+
       setLoading(false);
     })();
   }, []);
 
+  // recipes added, edited or deleted in this tab or another one
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeRecipeMutations((m) => {
+      setRecipes((prev) => applyRecipeListMutation(prev, m, (r) => r.user_id === userId, (r) => r));
+      if (m.kind === 'deleted') {
+        setPickedIds((prev) => {
+          if (!prev.has(m.id)) return prev;
+          const next = new Set(prev);
+          next.delete(m.id);
+          return next;
+        });
+      }
+    });
+  }, [userId]);
+
+  // Load my recipes (include user_id & created_at for modal)
+  async function loadRecipes(uid: string) {
+    try {
+      setRecipes(await fetchCookbookRecipes(uid));
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load recipes.');
+    }
+  }
+
+  // Load cook count via RPC (also after the modal closes, in case "Cooked it" was used)
+  async function loadCookCount(uid: string) {
+    const { data: cc, error: ccErr } = await supabase.rpc('cook_count', { uid });
+    if (!ccErr && typeof cc === 'number') setRecipesCookedCount(cc as number);
+  }
+
   function openRecipe(r: Recipe) {
     setSelected(r);
     setOpen(true);
@@ -88,6 +139,118 @@ export default function CookbookPage() {
   function closeRecipe() {
     setOpen(false);
     setSelected(null);
+    if (userId) loadCookCount(userId);
+  }
+
+  async function showCookNow() {
+    if (!userId) return;
+    setCookNow(true);
+    setMatches(null);
+    setMatchesMsg(null);
+    try {
+      setMatches(await fetchPantryMatches({ owner: userId, limit: 50 }));
+    } catch (e: any) {
+      setMatchesMsg(e?.message || 'Could not check your pantry.');
+      setMatches([]);
+    }
+  }
+
+  function togglePicked(id: string) {
+    setPickedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function stopSelecting() {
+    setSelecting(false);
+    setPickedIds(new Set());
+  }
+
+  async function addPickedToShoppingList() {
+    if (!userId || pickedIds.size === 0 || shopBusy) return;
+    setShopBusy(true);
+    try {
+      // keep grid order so the list reads the same way the cookbook does
+      const ids = recipes.filter((r) => pickedIds.has(r.id)).map((r) => ({ id: r.id }));
+      await addRecipesToShoppingList(userId, ids);
+      router.push('/shopping');
+    } catch (e: any) {
+      alert(e?.message || 'Could not add to shopping list.');
+      setShopBusy(false);
+    }
+  }
+
+  async function exportZip() {
+    if (exportStatus) return;
+    try {
+      setExportStatus('Loading recipes…');
+      const bundles = await fetchRecipeBundles(recipes.map((r) => r.id));
+      const blob = await buildCookbookZip(bundles, (done, total) =>
+        setExportStatus(`Adding photos ${done}/${total}…`)
+      );
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, `my-cookbook-${stamp}.zip`);
+    } catch (e: any) {
+      alert(e?.message || 'Export failed.');
+    } finally {
+      setExportStatus(null);
+    }
+  }
+
+  async function printAll() {
+    if (exportStatus) return;
+    const win = window.open('', '_blank');
+    try {
+      setExportStatus('Preparing print view…');
+      const bundles = await fetchRecipeBundles(recipes.map((r) => r.id));
+      if (win) writePrintWindow(win, bundles, 'My Cookbook');
+    } catch (e: any) {
+      win?.close();
+      alert(e?.message || 'Export failed.');
+    } finally {
+      setExportStatus(null);
+    }
+  }
+
+  async function downloadBackup() {
+    if (backupStatus) return;
+    setBackupNotice(null);
+    try {
+      const blob = await createCookbookBackup(setBackupStatus);
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadBlob(blob, `my-cookbook-backup-${stamp}.zip`);
+    } catch (e: any) {
+      alert(e?.message || 'Backup failed.');
+    } finally {
+      setBackupStatus(null);
+    }
+  }
+
+  async function restoreBackup(file: File) {
+    if (backupStatus) return;
+    setBackupNotice(null);
+    const ok = window.confirm(
+      'Restore this backup into your account? Recipes already in your cookbook are skipped; your profile will be replaced.'
+    );
+    if (!ok) return;
+    try {
+      const res = await restoreCookbookBackup(file, setBackupStatus);
+      const parts = [
+        `Restored ${res.recipes} recipe${res.recipes === 1 ? '' : 's'}`,
+        res.skipped ? `skipped ${res.skipped} already here` : null,
+        res.bookmarks ? `${res.bookmarks} bookmarks` : null,
+        res.hearts ? `${res.hearts} hearts` : null,
+      ].filter(Boolean);
+      setBackupNotice([parts.join(', ') + '.', ...res.warnings].join(' '));
+      if (userId) await loadRecipes(userId);
+    } catch (e: any) {
+      alert(e?.message || 'Restore failed.');
+    } finally {
+      setBackupStatus(null);
+    }
   }
 
   function scrollToGrid() {
@@ -123,6 +286,14 @@ export default function CookbookPage() {
     color: '#666',
     marginTop: 2,
   };
+  const exportBtn: React.CSSProperties = {
+    padding: '6px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: exportStatus || backupStatus ? 'wait' : 'pointer',
+  };
 
   return (
     <AuthGuard>
@@ -137,19 +308,35 @@ export default function CookbookPage() {
           }}
         >
           <h1 style={{ margin: 0, fontSize: 22 }}>My Cookbook</h1>
-          <a
-            href="/add-recipe"
-            style={{
-              padding: '8px 12px',
-              background: '#4CAF50',
-              color: '#fff',
-              borderRadius: 8,
-              textDecoration: 'none',
-              fontSize: 14,
-            }}
-          >
-            + Add Recipe
-          </a>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <a
+              href="/shared"
+              style={{
+                padding: '8px 12px',
+                background: '#fff',
+                color: '#111',
+                border: '1px solid #ddd',
+                borderRadius: 8,
+                textDecoration: 'none',
+                fontSize: 14,
+              }}
+            >
+              Shared
+            </a>
+            <a
+              href="/add-recipe"
+              style={{
+                padding: '8px 12px',
+                background: '#4CAF50',
+                color: '#fff',
+                borderRadius: 8,
+                textDecoration: 'none',
+                fontSize: 14,
+              }}
+            >
+              + Add Recipe
+            </a>
+          </div>
         </header>
 
         {/* PROFILE */}
@@ -181,7 +368,7 @@ export default function CookbookPage() {
             <div style={statLabel}>My Recipes</div>
           </button>
 
-          {/* Recipes Cooked (placeholder) */}
+          {/* Recipes Cooked (cook log entries) */}
           <button
             type="button"
             onClick={scrollToGrid}
@@ -193,12 +380,140 @@ export default function CookbookPage() {
           </button>
         </div>
 
+        {/* EXPORT */}
+        {!loading && recipes.length > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+            <span style={{ fontSize: 13, color: '#666' }}>Export cookbook:</span>
+            <button type="button" onClick={exportZip} disabled={!!exportStatus} style={exportBtn}>
+              Download .zip
+            </button>
+            <button type="button" onClick={printAll} disabled={!!exportStatus} style={exportBtn}>
+              Print / PDF
+            </button>
+            {exportStatus && <span style={{ fontSize: 13, color: '#666' }}>{exportStatus}</span>}
+          </div>
+        )}
+
+        {/* SHOPPING LIST */}
+        {!loading && recipes.length > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+            <span style={{ fontSize: 13, color: '#666' }}>Shopping list:</span>
+            {selecting ? (
+              <>
+                <button
+                  type="button"
+                  onClick={addPickedToShoppingList}
+                  disabled={pickedIds.size === 0 || shopBusy}
+                  style={{
+                    ...exportBtn,
+                    background: pickedIds.size ? '#4CAF50' : '#fff',
+                    color: pickedIds.size ? '#fff' : '#999',
+                    border: `1px solid ${pickedIds.size ? '#4CAF50' : '#ddd'}`,
+                    cursor: shopBusy ? 'wait' : pickedIds.size ? 'pointer' : 'default',
+                  }}
+                >
+                  {shopBusy ? 'Adding…' : pickedIds.size ? `Add ${pickedIds.size} to list` : 'Add to list'}
+                </button>
+                <button type="button" onClick={stopSelecting} disabled={shopBusy} style={exportBtn}>
+                  Cancel
+                </button>
+                <span style={{ fontSize: 13, color: '#666' }}>Tap recipes to select them.</span>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCookNow(false);
+                    setSelecting(true);
+                  }}
+                  style={exportBtn}
+                >
+                  Select recipes…
+                </button>
+                <a href="/shopping" style={{ ...exportBtn, color: '#111', textDecoration: 'none' }}>
+                  Open list
+                </a>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* PANTRY */}
+        {!loading && recipes.length > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+            <span style={{ fontSize: 13, color: '#666' }}>Pantry:</span>
+            {cookNow ? (
+              <button type="button" onClick={() => setCookNow(false)} style={exportBtn}>
+                Show all recipes
+              </button>
+            ) : (
+              <button type="button" onClick={showCookNow} disabled={selecting} style={exportBtn}>
+                What can I cook?
+              </button>
+            )}
+            <a href="/pantry" style={{ ...exportBtn, color: '#111', textDecoration: 'none' }}>
+              Edit pantry
+            </a>
+          </div>
+        )}
+
+        {/* BACKUP / RESTORE */}
+        {!loading && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+            <span style={{ fontSize: 13, color: '#666' }}>Backup:</span>
+            <button type="button" onClick={downloadBackup} disabled={!!backupStatus} style={exportBtn}>
+              Download backup
+            </button>
+            <button
+              type="button"
+              onClick={() => restoreInputRef.current?.click()}
+              disabled={!!backupStatus}
+              style={exportBtn}
+            >
+              Restore…
+            </button>
+            <input
+              ref={restoreInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) restoreBackup(file);
+              }}
+            />
+            {backupStatus && <span style={{ fontSize: 13, color: '#666' }}>{backupStatus}</span>}
+          </div>
+        )}
+        {backupNotice && (
+          <div style={{ background: '#ecfdf5', border: '1px solid #a7f3d0', color: '#065f46', borderRadius: 8, padding: 10, fontSize: 13, marginBottom: 12 }}>
+            {backupNotice}
+          </div>
+        )}
+
+        {/* COLLECTIONS */}
+        {!loading && userId && <CollectionsShelf ownerId={userId} editable onOpenRecipe={openRecipe} />}
+
         {/* YOUR RECIPES GRID */}
         <div ref={gridRef}>
           {loading ? (
             <div>Loading your recipes…</div>
           ) : errorMsg ? (
             <div style={{ color: '#b42318' }}>{errorMsg}</div>
+          ) : cookNow ? (
+            matches === null ? (
+              <div>Checking your pantry…</div>
+            ) : matchesMsg ? (
+              <div style={{ color: '#b42318' }}>{matchesMsg}</div>
+            ) : matches.length === 0 ? (
+              <div style={{ background: '#fff', border: '1px solid #eee', borderRadius: 12, padding: 16, color: '#606375' }}>
+                None of your recipes use what’s in your pantry yet. <a href="/pantry">Add what you have</a> to see matches.
+              </div>
+            ) : (
+              <PantryMatchList matches={matches} onOpen={openRecipe} />
+            )
           ) : recipes.length === 0 ? (
             <div
               style={{
@@ -219,7 +534,10 @@ export default function CookbookPage() {
                   title={r.title}
                   types={r.recipe_types ?? []}
                   photoUrl={r.photo_url}
-                  onClick={() => openRecipe(r)}
+                  rating={r.avg_rating}
+                  ratingCount={r.rating_count}
+                  onClick={() => (selecting ? togglePicked(r.id) : openRecipe(r))}
+                  selected={selecting ? pickedIds.has(r.id) : undefined}
                 />
               ))}
             </div>
@@ -1,11 +1,21 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabaseClient';
 import RecipeModal from '../components/RecipeModal';
 import { RecipeTile } from '../components/RecipeBadges';
-import { emitRecipeMutation, subscribeRecipeMutations } from '@/lib/recipeSync';
+import {
+  applyRecipeListMutation,
+  emitRecipeMutation,
+  FILTER_CHUNK,
+  relayRemoteReactions,
+  subscribeRecipeMutations,
+  type RecipeSnapshot,
+} from '@/lib/recipeSync';
+import { fetchCommentCounts } from '@/lib/recipeComments';
+import { fetchFriendCooks, formatCookedOn, type FriendCook } from '@/lib/cookLog';
 
 // Match your public feed's Recipe type and attach client meta
 type Recipe = {
@@ -18,11 +28,14 @@ type Recipe = {
   source_url: string | null;
   created_at: string | null;
   visibility?: string | null;
+  avg_rating?: number | null;
+  rating_count?: number | null;
 
   // attached client-side:
   _profile?: Profile | null;
   _heartCount?: number;
   _bookmarkCount?: number;
+  _commentCount?: number;
   _heartedByMe?: boolean;
   _bookmarkedByMe?: boolean;
 };
@@ -35,6 +48,21 @@ type Profile = {
 
 const PAGE_SIZE = 12;
 
+// merge + sort newest first (created_at desc, id desc tiebreak), de-duped by id
+function mergeRows(prev: Recipe[], incoming: Recipe[]): Recipe[] {
+  const map = new Map<string, Recipe>();
+  for (const x of prev) map.set(x.id, x);
+  for (const x of incoming) map.set(x.id, x);
+  const arr = Array.from(map.values());
+  arr.sort((a, b) => {
+    const ta = a.created_at ? Date.parse(a.created_at) : 0;
+    const tb = b.created_at ? Date.parse(b.created_at) : 0;
+    if (tb !== ta) return tb - ta;
+    return (b.id || '').localeCompare(a.id || '');
+  });
+  return arr;
+}
+
 export default function FriendsFeed() {
   const [userId, setUserId] = useState<string | null>(null);
   const [friendIds, setFriendIds] = useState<string[]>([]);
@@ -52,6 +80,13 @@ export default function FriendsFeed() {
   const fetchingPageRef = useRef<number | null>(null);
   const hasMoreRef = useRef<boolean>(true);
 
+  // new recipes that arrived over Realtime, held until the "N new recipes" pill is tapped
+  const [pending, setPending] = useState<Recipe[]>([]);
+  const scrollAnchorRef = useRef<{ y: number; height: number } | null>(null);
+
+  // friends' recent "cooked it" entries (strip above the feed)
+  const [friendCooks, setFriendCooks] = useState<(FriendCook & { _profile: Profile | null })[]>([]);
+
   // modal
   const [selected, setSelected] = useState<Recipe | null>(null);
   const [open, setOpen] = useState(false);
@@ -147,6 +182,7 @@ export default function FriendsFeed() {
       const empty = {
         hearts: new Map<string, number>(),
         bookmarks: new Map<string, number>(),
+        comments: new Map<string, number>(),
         myHearts: new Set<string>(),
         myBookmarks: new Set<string>(),
       };
@@ -159,10 +195,10 @@ export default function FriendsFeed() {
           { data: myHeartsRows, error: myHeartsErr },
           { data: myBookmarksRows, error: myBmErr },
         ] = await Promise.all([
-          supabase.from('hearts').select('recipe_id').in('recipe_id', ids),
-          supabase.from('bookmarks').select('recipe_id').in('recipe_id', ids),
-          supabase.from('hearts').select('recipe_id').eq('user_id', userId).in('recipe_id', ids),
-          supabase.from('bookmarks').select('recipe_id').eq('user_id', userId).in('recipe_id', ids),
+          supabase.from('recipe_hearts').select('recipe_id').in('recipe_id', ids),
+          supabase.from('recipe_bookmarks').select('recipe_id').in('recipe_id', ids),
+          supabase.from('recipe_hearts').select('recipe_id').eq('user_id', userId).in('recipe_id', ids),
+          supabase.from('recipe_bookmarks').select('recipe_id').eq('user_id', userId).in('recipe_id', ids),
         ]);
 
         if (heartErr || bmErr || myHeartsErr || myBmErr) return empty;
@@ -180,7 +216,10 @@ export default function FriendsFeed() {
         const myHearts = new Set<string>((myHeartsRows ?? []).map((r: any) => r.recipe_id));
         const myBookmarks = new Set<string>((myBookmarksRows ?? []).map((r: any) => r.recipe_id));
 
-        return { hearts, bookmarks, myHearts, myBookmarks };
+        // comments are newer than hearts/bookmarks; a missing table shouldn't blank the others
+        const comments = await fetchCommentCounts(ids).catch(() => new Map<string, number>());
+
+        return { hearts, bookmarks, comments, myHearts, myBookmarks };
       } catch {
         return empty;
       }
@@ -188,6 +227,43 @@ export default function FriendsFeed() {
     [userId]
   );
 
+  // profile + counts for rows about to be shown
+  const attachMeta = useCallback(
+    async (list: Recipe[]): Promise<Recipe[]> => {
+      const profileMap = await fetchProfiles(list.map((r) => r.user_id));
+      const { hearts, bookmarks, comments, myHearts, myBookmarks } = await fetchCountsAndMine(
+        list.map((r) => r.id)
+      );
+      return list.map((r) => ({
+        ...r,
+        _profile: profileMap.get(r.user_id) ?? null,
+        _heartCount: hearts.get(r.id) ?? 0,
+        _bookmarkCount: bookmarks.get(r.id) ?? 0,
+        _commentCount: comments.get(r.id) ?? 0,
+        _heartedByMe: myHearts.has(r.id),
+        _bookmarkedByMe: myBookmarks.has(r.id),
+      }));
+    },
+    [fetchProfiles, fetchCountsAndMine]
+  );
+
+  // -------- Friends' cooks (best effort; hidden if the table/RLS isn't there) --------
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const cooks = await fetchFriendCooks(friendIds);
+        const profileMap = await fetchProfiles(cooks.map((c) => c.user_id));
+        if (mounted) setFriendCooks(cooks.map((c) => ({ ...c, _profile: profileMap.get(c.user_id) ?? null })));
+      } catch {
+        if (mounted) setFriendCooks([]);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [friendIds, fetchProfiles]);
+
   // -------- Page fetch (recipes → profiles → counts+mine) --------
   const fetchPage = useCallback(
     async (nextPage: number) => {
@@ -213,7 +289,7 @@ export default function FriendsFeed() {
         const qb = supabase
           .from('recipes')
           .select(
-            'id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,visibility'
+            'id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,visibility,avg_rating,rating_count'
           )
           .in(
             'user_id',
@@ -241,36 +317,12 @@ export default function FriendsFeed() {
         const newOnes = filtered.filter((r) => !seenIdsRef.current.has(r.id));
         newOnes.forEach((r) => seenIdsRef.current.add(r.id));
 
-        const profileMap = await fetchProfiles(newOnes.map((r) => r.user_id));
-        const { hearts, bookmarks, myHearts, myBookmarks } = await fetchCountsAndMine(
-          newOnes.map((r) => r.id)
-        );
-
-        const withMeta: Recipe[] = newOnes.map((r) => ({
-          ...r,
-          _profile: profileMap.get(r.user_id) ?? null,
-          _heartCount: hearts.get(r.id) ?? 0,
-          _bookmarkCount: bookmarks.get(r.id) ?? 0,
-          _heartedByMe: myHearts.has(r.id),
-          _bookmarkedByMe: myBookmarks.has(r.id),
-        }));
+        const withMeta = await attachMeta(newOnes);
 
         const gotAll = (recipeRows?.length ?? 0) < PAGE_SIZE;
 
         // ✅ de-dupe + sort (newest first) WITHOUT changing how you fetch
-        setRows((prev) => {
-          const map = new Map<string, Recipe>();
-          for (const x of prev) map.set(x.id, x);
-          for (const x of withMeta) map.set(x.id, x);
-          const arr = Array.from(map.values());
-          arr.sort((a, b) => {
-            const ta = a.created_at ? Date.parse(a.created_at) : 0;
-            const tb = b.created_at ? Date.parse(b.created_at) : 0;
-            if (tb !== ta) return tb - ta;                 // created_at desc
-            return (b.id || '').localeCompare(a.id || ''); // id desc tiebreak
-          });
-          return arr;
-        });
+        setRows((prev) => mergeRows(prev, withMeta));
 
         setHasMore(!gotAll);
         setPage(nextPage);
@@ -281,13 +333,14 @@ export default function FriendsFeed() {
         fetchingPageRef.current = null;
       }
     },
-    [userId, visibleUserIds, fetchProfiles, fetchCountsAndMine]
+    [userId, visibleUserIds, attachMeta]
   );
 
   // Reset on dependency change
   useEffect(() => {
     if (!userId) return;
     setRows([]);
+    setPending([]);
     setPage(0);
     setHasMore(true);
     seenIdsRef.current.clear();
@@ -332,6 +385,102 @@ export default function FriendsFeed() {
     return () => window.removeEventListener('scroll', onScroll);
   }, [loading, page, fetchPage]);
 
+  // ===== Realtime: new recipes from you + friends =====
+  useEffect(() => {
+    if (!userId || !visibleUserIds.length) return;
+    const onInsert = (payload: RealtimePostgresChangesPayload<Recipe>) => {
+      const r = payload.new as Recipe;
+      if (!r?.id || seenIdsRef.current.has(r.id)) return;
+      // same rule as the page query: own rows, or friends' non-private ones
+      if (r.user_id !== userId && r.visibility === 'private') return;
+      setPending((prev) => (prev.some((p) => p.id === r.id) ? prev : [r, ...prev]));
+    };
+    // one channel per FILTER_CHUNK authors (the most a Realtime `in` filter takes)
+    const channels: RealtimeChannel[] = [];
+    for (let i = 0; i < visibleUserIds.length; i += FILTER_CHUNK) {
+      channels.push(
+        supabase
+          .channel(`friends-feed:${userId}:${i}`)
+          .on(
+            'postgres_changes',
+            {
+              event: 'INSERT',
+              schema: 'public',
+              table: 'recipes',
+              filter: `user_id=in.(${visibleUserIds.slice(i, i + FILTER_CHUNK).join(',')})`,
+            },
+            onInsert
+          )
+          .subscribe()
+      );
+    }
+    return () => {
+      channels.forEach((ch) => void supabase.removeChannel(ch));
+    };
+  }, [userId, visibleUserIds]);
+
+  async function showPending() {
+    const incoming = pending.filter((r) => !seenIdsRef.current.has(r.id));
+    setPending([]);
+    if (!incoming.length) return;
+    incoming.forEach((r) => seenIdsRef.current.add(r.id));
+    try {
+      const withMeta = await attachMeta(incoming);
+      // keep whatever is on screen in place; restored after the new rows render
+      scrollAnchorRef.current = { y: window.scrollY, height: document.documentElement.scrollHeight };
+      setRows((prev) => mergeRows(prev, withMeta));
+    } catch (e: any) {
+      incoming.forEach((r) => seenIdsRef.current.delete(r.id));
+      setMsg(e?.message ?? 'Failed to load new recipes.');
+    }
+  }
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    if (!anchor) return;
+    scrollAnchorRef.current = null;
+    if (anchor.y <= 0) return; // already at the top: let the new ones show
+    window.scrollTo(0, anchor.y + document.documentElement.scrollHeight - anchor.height);
+  }, [rows]);
+
+  // ===== Realtime: hearts/bookmarks from other tabs, devices and people → event bus =====
+  const rowIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    rowIdsRef.current = new Set(rows.map((r) => r.id));
+  }, [rows]);
+  // resubscribe only when the set of loaded recipes changes, not on every count change
+  const rowIdsKey = rows.map((r) => r.id).sort().join(',');
+  useEffect(() => {
+    if (!userId || !rowIdsKey) return;
+    return relayRemoteReactions(userId, rowIdsKey.split(','));
+  }, [userId, rowIdsKey]);
+
+  // ===== Recipes created / edited / re-shared / deleted in any tab =====
+  useEffect(() => {
+    if (!userId) return;
+    // same rule as the page query: you + friends, own rows or non-private ones
+    const belongs = (r: RecipeSnapshot) =>
+      visibleUserIds.includes(r.user_id) && (r.user_id === userId || r.visibility !== 'private');
+
+    return subscribeRecipeMutations((m) => {
+      if (!m.kind || m.kind === 'reaction') return;
+      if (m.kind === 'deleted' || (m.recipe && !belongs(m.recipe))) {
+        seenIdsRef.current.delete(m.id);
+        setPending((prev) => prev.filter((x) => x.id !== m.id));
+        setRows((prev) => prev.filter((x) => x.id !== m.id));
+        return;
+      }
+      const snap = m.recipe;
+      if (!snap) return;
+      if (rowIdsRef.current.has(m.id)) {
+        setRows((prev) => applyRecipeListMutation(prev, m, belongs, (r) => r));
+      } else if (!seenIdsRef.current.has(m.id)) {
+        // new to this feed: wait behind the pill like Realtime inserts do
+        setPending((prev) => (prev.some((p) => p.id === m.id) ? prev : [snap, ...prev]));
+      }
+    });
+  }, [userId, visibleUserIds]);
+
   // ===== SUBSCRIBE to cross-component mutations (from RecipeModal, etc.) =====
   useEffect(() => {
     const unsubscribe = subscribeRecipeMutations((m) => {
@@ -339,15 +488,27 @@ export default function FriendsFeed() {
         prev.map((x) => {
           if (x.id !== m.id) return x;
 
+          // a remote echo of a change this view already shows carries no new count
+          const heartSeen = m.remote && m.heartedByMe != null && m.heartedByMe === x._heartedByMe;
+          const bookmarkSeen =
+            m.remote && m.bookmarkedByMe != null && m.bookmarkedByMe === x._bookmarkedByMe;
+
           const nextHeartCount =
-            m.heartDelta != null ? (x._heartCount ?? 0) + m.heartDelta : x._heartCount;
+            m.heartCount ??
+            (m.heartDelta != null && !heartSeen ? (x._heartCount ?? 0) + m.heartDelta : x._heartCount);
           const nextBookmarkCount =
-            m.bookmarkDelta != null ? (x._bookmarkCount ?? 0) + m.bookmarkDelta : x._bookmarkCount;
+            m.bookmarkCount ??
+            (m.bookmarkDelta != null && !bookmarkSeen
+              ? (x._bookmarkCount ?? 0) + m.bookmarkDelta
+              : x._bookmarkCount);
+          const nextCommentCount =
+            m.commentDelta != null ? Math.max(0, (x._commentCount ?? 0) + m.commentDelta) : x._commentCount;
 
           return {
             ...x,
             _heartCount: nextHeartCount,
             _bookmarkCount: nextBookmarkCount,
+            _commentCount: nextCommentCount,
             _heartedByMe: m.heartedByMe ?? x._heartedByMe,
             _bookmarkedByMe: m.bookmarkedByMe ?? x._bookmarkedByMe,
           };
@@ -430,6 +591,54 @@ export default function FriendsFeed() {
           </p>
         </div>
 
+        {friendCooks.length > 0 && (
+          <div style={{ padding: '8px 12px', borderBottom: '1px solid #e5e7eb' }}>
+            <div style={{ fontSize: 13, fontWeight: 600, color: '#374151', marginBottom: 6 }}>Recently cooked</div>
+            <div style={{ display: 'flex', gap: 8, overflowX: 'auto', paddingBottom: 4 }}>
+              {friendCooks.map((c) => (
+                <button
+                  key={c.id}
+                  type="button"
+                  onClick={() =>
+                    c.recipe &&
+                    openRecipe({
+                      ...c.recipe,
+                      cuisine: null,
+                      recipe_types: null,
+                      source_url: null,
+                      created_at: null,
+                    })
+                  }
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    flex: '0 0 auto',
+                    maxWidth: 260,
+                    padding: '6px 10px',
+                    background: '#fff',
+                    border: '1px solid #e5e7eb',
+                    borderRadius: 999,
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                  }}
+                >
+                  <Avatar
+                    src={c._profile?.avatar_url ?? null}
+                    name={c._profile?.display_name ?? 'User'}
+                    size={28}
+                  />
+                  <span style={{ fontSize: 13, color: '#374151', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    <strong>{c._profile?.display_name ?? 'A friend'}</strong> cooked {c.recipe?.title}
+                    {c.rating ? ` · ${'★'.repeat(c.rating)}` : ''}
+                    <span style={{ color: '#9ca3af' }}> · {formatCookedOn(c.cooked_on)}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {msg && (
           <div
             style={{
@@ -461,6 +670,30 @@ export default function FriendsFeed() {
           </div>
         )}
 
+        {pending.length > 0 && (
+          <div style={{ position: 'sticky', top: 8, zIndex: 5, display: 'flex', justifyContent: 'center', height: 0 }}>
+            <button
+              type="button"
+              onClick={showPending}
+              style={{
+                marginTop: 8,
+                height: 32,
+                padding: '0 14px',
+                borderRadius: 999,
+                border: '1px solid #111827',
+                background: '#111827',
+                color: '#fff',
+                fontSize: 13,
+                fontWeight: 600,
+                cursor: 'pointer',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.15)',
+              }}
+            >
+              ↑ {pending.length} new recipe{pending.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        )}
+
         <div>
           {rows.map((r) => {
             const profile = r._profile;
@@ -507,12 +740,14 @@ export default function FriendsFeed() {
                     title={r.title}
                     types={r.recipe_types ?? []}
                     photoUrl={r.photo_url}
+                    rating={r.avg_rating}
+                    ratingCount={r.rating_count}
                     onClick={() => openRecipe(r)}
                     ariaLabel={`Open ${r.title}`}
                   />
                 </div>
 
-                {/* actions: Added on ... (left) + heart/bookmark (right) */}
+                {/* actions: Added on ... (left) + heart/comments/bookmark (right) */}
                 <div style={actionsRowStyle}>
                   <span style={{ color: '#6b7280' }}>
                     Added on {r.created_at ? formatDate(r.created_at) : '—'}
@@ -530,6 +765,17 @@ export default function FriendsFeed() {
                       <span>{r._heartCount ?? 0}</span>
                     </button>
 
+                    <button
+                      type="button"
+                      onClick={() => openRecipe(r)}
+                      aria-label={`${r._commentCount ?? 0} comments`}
+                      style={iconBtnStyle}
+                      title="Comments"
+                    >
+                      <CommentIcon />
+                      <span>{r._commentCount ?? 0}</span>
+                    </button>
+
                     <button
                       type="button"
                       onClick={() => toggleBookmark(r)}
@@ -594,6 +840,13 @@ function HeartIcon({ filled = false }: { filled?: boolean }) {
     </svg>
   );
 }
+function CommentIcon() {
+  return (
+    <svg width="18" height="18" viewBox="0 0 24 24" aria-hidden fill="none" stroke="#374151" strokeWidth="2">
+      <path d="M21 11.5a8.38 8.38 0 0 1-9 8.5 9.2 9.2 0 0 1-4-.9L3 21l1.9-5A8.4 8.4 0 0 1 3 11.5 8.5 8.5 0 0 1 12 3a8.38 8.38 0 0 1 9 8.5Z" />
+    </svg>
+  );
+}
 function BookmarkIcon({ filled = false }: { filled?: boolean }) {
   return (
     <svg
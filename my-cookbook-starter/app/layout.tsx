@@ -1,7 +1,9 @@
 import type { ReactNode } from 'react';
 import BottomTabs from './BottomTabs';
+import OfflineSupport from './components/OfflineSupport';
 
-export const metadata = { title: 'Cookbook' };
+export const metadata = { title: 'Cookbook', appleWebApp: { capable: true, title: 'Cookbook' } };
+export const viewport = { themeColor: '#111827' };
 
 export default function RootLayout({ children }: { children: ReactNode }) {
   return (
@@ -16,6 +18,7 @@ export default function RootLayout({ children }: { children: ReactNode }) {
         }}
       >
         {children}
+        <OfflineSupport />
         <BottomTabs />
       </body>
     </html>
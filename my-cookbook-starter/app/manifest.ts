@@ -0,0 +1,15 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Cookbook',
+    short_name: 'Cookbook',
+    description: 'Your recipes, meal plan and shopping list.',
+    start_url: '/cookbook',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#f7f7fb',
+    theme_color: '#111827',
+    icons: [{ src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' }],
+  };
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import AuthGuard from '../components/AuthGuard';
+import RecipeModal from '../components/RecipeModal';
+import {
+  fetchNotifications,
+  isProfileNotification,
+  markNotificationsRead,
+  notificationText,
+  subscribeNotifications,
+  type AppNotification,
+} from '@/lib/notifications';
+
+type Profile = { id: string; display_name: string | null; nickname: string | null; avatar_url: string | null };
+
+type ModalRecipe = {
+  id: string;
+  user_id: string;
+  title: string;
+  cuisine: string | null;
+  photo_url: string | null;
+  source_url: string | null;
+  created_at: string | null;
+};
+
+// /u/[handle] from display_name (preferred) or id
+function profileHandle(p: Profile | null | undefined, fallbackId: string): string {
+  return (p?.display_name && encodeURIComponent(p.display_name)) || p?.id || fallbackId;
+}
+
+function timeAgo(iso: string): string {
+  const mins = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs < 24) return `${hrs}h ago`;
+  const days = Math.floor(hrs / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export default function NotificationsPage() {
+  const router = useRouter();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [actors, setActors] = useState<Map<string, Profile>>(new Map());
+  // recipes the viewer can still see (RLS drops the rest)
+  const [recipes, setRecipes] = useState<Map<string, ModalRecipe>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [openRecipe, setOpenRecipe] = useState<ModalRecipe | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (!mounted) return;
+      setUserId(data.user?.id ?? null);
+      if (!data.user) setLoading(false);
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const rows = await fetchNotifications(userId);
+      const actorIds = Array.from(new Set(rows.map((n) => n.actor_id).filter((x): x is string => !!x)));
+      const recipeIds = Array.from(new Set(rows.map((n) => n.recipe_id).filter((x): x is string => !!x)));
+      const [{ data: profs }, { data: recs }] = await Promise.all([
+        actorIds.length
+          ? supabase.from('profiles').select('id, display_name, nickname, avatar_url').in('id', actorIds)
+          : Promise.resolve({ data: [] as Profile[] }),
+        recipeIds.length
+          ? supabase
+              .from('recipes')
+              .select('id,user_id,title,cuisine,photo_url,source_url,created_at')
+              .in('id', recipeIds)
+          : Promise.resolve({ data: [] as ModalRecipe[] }),
+      ]);
+      setItems(rows);
+      setActors(new Map(((profs as Profile[]) ?? []).map((p) => [p.id, p])));
+      setRecipes(new Map(((recs as ModalRecipe[]) ?? []).map((r) => [r.id, r])));
+      setMsg(null);
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not load notifications.');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  // initial load + live updates (realtime, polling fallback)
+  useEffect(() => {
+    if (!userId) return;
+    void load();
+    return subscribeNotifications(userId, () => void load());
+  }, [userId, load]);
+
+  async function markRead(ids?: string[]) {
+    if (!userId) return;
+    const now = new Date().toISOString();
+    setItems((prev) => prev.map((n) => (!n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: now } : n)));
+    try {
+      await markNotificationsRead(userId, ids);
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not mark notifications read.');
+    }
+  }
+
+  async function markAllRead() {
+    setBusy(true);
+    await markRead();
+    setBusy(false);
+  }
+
+  function open(n: AppNotification) {
+    if (!n.read_at) void markRead([n.id]);
+    const recipe = n.recipe_id ? recipes.get(n.recipe_id) : undefined;
+    if (!isProfileNotification(n) && recipe) {
+      setOpenRecipe(recipe);
+      return;
+    }
+    // friend activity, or a recipe that's no longer visible: go to the person
+    if (n.actor_id) router.push(`/u/${profileHandle(actors.get(n.actor_id), n.actor_id)}`);
+  }
+
+  const unread = items.filter((n) => !n.read_at).length;
+
+  const btn: React.CSSProperties = {
+    padding: '6px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: busy ? 'wait' : 'pointer',
+  };
+
+  return (
+    <AuthGuard>
+      <div style={{ maxWidth: 720, margin: '24px auto', padding: 16, paddingBottom: 96 }}>
+        <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <h1 style={{ margin: 0, fontSize: 22 }}>Notifications</h1>
+          {unread > 0 && (
+            <button type="button" onClick={markAllRead} disabled={busy} style={btn}>
+              Mark all as read
+            </button>
+          )}
+        </header>
+
+        {msg && <div style={{ color: '#b42318', marginBottom: 12 }}>{msg}</div>}
+
+        {loading ? (
+          <div>Loading…</div>
+        ) : items.length === 0 ? (
+          <div style={{ color: '#6b7280', fontSize: 14 }}>
+            Nothing yet. Friend requests, hearts, bookmarks, copies and comments on your recipes show up here.
+          </div>
+        ) : (
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0, background: '#fff', border: '1px solid #eee', borderRadius: 12, overflow: 'hidden' }}>
+            {items.map((n, i) => {
+              const actor = n.actor_id ? actors.get(n.actor_id) : undefined;
+              const name = actor?.display_name || actor?.nickname || 'Someone';
+              const title = n.recipe_id ? recipes.get(n.recipe_id)?.title ?? null : null;
+              return (
+                <li key={n.id} style={{ borderTop: i ? '1px solid #f3f4f6' : 'none' }}>
+                  <button
+                    type="button"
+                    onClick={() => open(n)}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 10,
+                      width: '100%',
+                      padding: '10px 12px',
+                      background: n.read_at ? '#fff' : '#eff6ff',
+                      border: 'none',
+                      textAlign: 'left',
+                      cursor: 'pointer',
+                      color: '#111827',
+                    }}
+                  >
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={actor?.avatar_url || '/avatar-placeholder.png'}
+                      alt=""
+                      style={{ width: 36, height: 36, borderRadius: '50%', objectFit: 'cover', flex: '0 0 auto' }}
+                    />
+                    <span style={{ flex: 1, minWidth: 0, display: 'grid', gap: 2 }}>
+                      <span style={{ fontSize: 14, fontWeight: n.read_at ? 400 : 600 }}>{notificationText(n, name, title)}</span>
+                      <span style={{ fontSize: 12, color: '#6b7280' }}>{timeAgo(n.created_at)}</span>
+                    </span>
+                    {!n.read_at && (
+                      <span aria-label="Unread" style={{ width: 8, height: 8, borderRadius: 999, background: '#2563eb', flex: '0 0 auto' }} />
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <RecipeModal open={!!openRecipe} onClose={() => setOpenRecipe(null)} recipe={openRecipe} />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import AuthGuard from '../components/AuthGuard';
+import {
+  addPantryItems,
+  fetchPantry,
+  fetchRecentShoppingNames,
+  removePantryItem,
+  type PantryItem,
+} from '@/lib/pantry';
+
+export default function PantryPage() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      const uid = data.user?.id ?? null;
+      if (!mounted) return;
+      setUserId(uid);
+      if (!uid) {
+        setLoading(false);
+        return;
+      }
+      try {
+        const list = await fetchPantry(uid);
+        const names = await fetchRecentShoppingNames(uid, list);
+        if (!mounted) return;
+        setItems(list);
+        setRecent(names);
+      } catch (e: any) {
+        if (mounted) setMsg(e?.message || 'Could not load your pantry.');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  async function add(lines: string[]) {
+    if (!userId || busy) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      await addPantryItems(userId, lines);
+      const list = await fetchPantry(userId);
+      setItems(list);
+      setRecent(await fetchRecentShoppingNames(userId, list));
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not add to your pantry.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function addDraft(e: React.FormEvent) {
+    e.preventDefault();
+    // "eggs, milk, 2 lemons" adds three items
+    const lines = draft.split(/[,\n]/).map((l) => l.trim()).filter(Boolean);
+    if (!lines.length) return;
+    await add(lines);
+    setDraft('');
+  }
+
+  async function remove(item: PantryItem) {
+    const prev = items;
+    setItems((xs) => xs.filter((x) => x.id !== item.id));
+    try {
+      await removePantryItem(item.id);
+    } catch (e: any) {
+      setItems(prev);
+      setMsg(e?.message || 'Could not remove the item.');
+    }
+  }
+
+  const btn: React.CSSProperties = {
+    padding: '6px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: busy ? 'wait' : 'pointer',
+  };
+  const chip: React.CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: 6,
+    padding: '4px 10px',
+    background: '#f3f4f6',
+    border: '1px solid #e5e7eb',
+    borderRadius: 9999,
+    fontSize: 14,
+  };
+  const card: React.CSSProperties = {
+    background: '#fff',
+    border: '1px solid #eee',
+    borderRadius: 12,
+    padding: 12,
+  };
+
+  return (
+    <AuthGuard>
+      <div style={{ maxWidth: 720, margin: '24px auto', padding: 16, paddingBottom: 96 }}>
+        <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <h1 style={{ margin: 0, fontSize: 22 }}>Pantry</h1>
+          <a href="/cookbook" style={{ ...btn, color: '#111', textDecoration: 'none' }}>
+            My Cookbook
+          </a>
+        </header>
+
+        {msg && <div style={{ color: '#b42318', marginBottom: 12 }}>{msg}</div>}
+
+        <form onSubmit={addDraft} style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="What do you have? e.g. eggs, rice, 2 lemons"
+            aria-label="Add to pantry"
+            style={{ flex: 1, padding: 8, borderRadius: 8, border: '1px solid #ddd', fontSize: 14 }}
+          />
+          <button type="submit" disabled={!draft.trim() || busy} style={btn}>
+            Add
+          </button>
+        </form>
+
+        {loading ? (
+          <div>Loading your pantry…</div>
+        ) : (
+          <div style={{ display: 'grid', gap: 12 }}>
+            {recent.length > 0 && (
+              <section style={card}>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 }}>
+                  <h2 style={{ margin: 0, fontSize: 14, color: '#6b7280', textTransform: 'uppercase', letterSpacing: 0.4 }}>
+                    From your shopping list
+                  </h2>
+                  <button type="button" onClick={() => add(recent)} disabled={busy} style={btn}>
+                    Add all
+                  </button>
+                </div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                  {recent.map((name) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => add([name])}
+                      disabled={busy}
+                      aria-label={`Add ${name} to pantry`}
+                      style={{ ...chip, background: '#fff', cursor: busy ? 'wait' : 'pointer' }}
+                    >
+                      + {name}
+                    </button>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section style={card}>
+              <h2 style={{ margin: '0 0 8px', fontSize: 14, color: '#6b7280', textTransform: 'uppercase', letterSpacing: 0.4 }}>
+                In your kitchen ({items.length})
+              </h2>
+              {items.length === 0 ? (
+                <div style={{ fontSize: 14, color: '#606375' }}>
+                  Nothing here yet. Add what you have, then try “What can I cook?” on My Cookbook.
+                </div>
+              ) : (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                  {items.map((it) => (
+                    <span key={it.id} style={chip}>
+                      {it.name}
+                      <button
+                        type="button"
+                        onClick={() => remove(it)}
+                        aria-label={`Remove ${it.name}`}
+                        style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: '#6b7280', fontSize: 13 }}
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,555 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import AuthGuard from '../components/AuthGuard';
+import RecipeModal from '../components/RecipeModal';
+import { fetchRecipeSource, type PickerRecipe, type RecipeSource } from '@/lib/recipeSources';
+import { addRecipesToShoppingList } from '@/lib/shoppingList';
+import {
+  MEAL_SLOTS,
+  addDays,
+  addPlanEntry,
+  copyWeekPlan,
+  fetchWeekPlan,
+  fitsSlot,
+  fromDateKey,
+  movePlanEntry,
+  removePlanEntry,
+  sortForSlot,
+  startOfWeek,
+  toDateKey,
+  weekDates,
+  type MealSlot,
+  type PlanEntry,
+} from '@/lib/mealPlan';
+
+const SOURCE_TABS: { value: RecipeSource; label: string }[] = [
+  { value: 'mine', label: 'My recipes' },
+  { value: 'bookmarked', label: 'Bookmarked' },
+];
+
+// what is being dragged: a recipe from the tray, or an entry already on the plan
+type DragPayload = { kind: 'recipe'; id: string } | { kind: 'entry'; id: string };
+const DRAG_TYPE = 'application/x-meal-plan';
+
+type Cell = { date: string; slot: MealSlot };
+
+function formatWeekRange(start: Date) {
+  const end = addDays(start, 6);
+  const fmt = (d: Date) => d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return `${fmt(start)} – ${fmt(end)}`;
+}
+
+export default function MealPlanPage() {
+  const router = useRouter();
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [weekStart, setWeekStart] = useState<Date>(() => startOfWeek(new Date()));
+  const [entries, setEntries] = useState<PlanEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // recipe tray
+  const [source, setSource] = useState<RecipeSource>('mine');
+  const [choices, setChoices] = useState<PickerRecipe[]>([]);
+  const [filter, setFilter] = useState('');
+
+  // tap-to-add sheet (touch devices can't drag)
+  const [pickFor, setPickFor] = useState<Cell | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // recipe detail modal
+  const [openRecipe, setOpenRecipe] = useState<PlanEntry['recipe']>(null);
+
+  // RecipeModal refetches when `recipe` changes identity, so build it once per open
+  const modalRecipe = useMemo(
+    () => (openRecipe ? { ...openRecipe, cuisine: null, source_url: null, created_at: null } : null),
+    [openRecipe]
+  );
+
+  const days = useMemo(() => weekDates(weekStart), [weekStart]);
+  const todayKey = toDateKey(new Date());
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (mounted) setUserId(data.user?.id ?? null);
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const loadWeek = useCallback(async () => {
+    if (!userId) return;
+    setEntries(await fetchWeekPlan(userId, weekStart));
+  }, [userId, weekStart]);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      if (!userId) return;
+      setLoading(true);
+      setMsg(null);
+      try {
+        const rows = await fetchWeekPlan(userId, weekStart);
+        if (mounted) setEntries(rows);
+      } catch (e: any) {
+        if (mounted) setMsg(e?.message || 'Could not load your plan.');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [userId, weekStart]);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      if (!userId) return;
+      try {
+        const rows = await fetchRecipeSource(userId, source);
+        if (mounted) setChoices(rows);
+      } catch (e: any) {
+        if (mounted) setMsg(e?.message || 'Could not load recipes.');
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [userId, source]);
+
+  const filtered = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    return q ? choices.filter((r) => r.title.toLowerCase().includes(q)) : choices;
+  }, [choices, filter]);
+
+  function entriesFor(cell: Cell) {
+    return entries.filter((e) => e.plan_date === cell.date && e.slot === cell.slot);
+  }
+
+  async function run(action: () => Promise<void>, fallback: string) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setMsg(e?.message || fallback);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function place(cell: Cell, recipeId: string) {
+    if (!userId) return;
+    run(async () => {
+      await addPlanEntry(userId, cell.date, cell.slot, recipeId);
+      await loadWeek();
+    }, 'Could not add to plan.');
+  }
+
+  function move(entryId: string, cell: Cell) {
+    const entry = entries.find((e) => e.id === entryId);
+    if (!entry || (entry.plan_date === cell.date && entry.slot === cell.slot)) return;
+    // optimistic; reload puts it back if the write fails
+    setEntries((prev) => prev.map((e) => (e.id === entryId ? { ...e, plan_date: cell.date, slot: cell.slot } : e)));
+    run(async () => {
+      try {
+        await movePlanEntry(entryId, cell.date, cell.slot);
+      } catch (e) {
+        await loadWeek();
+        throw e;
+      }
+    }, 'Could not move recipe.');
+  }
+
+  function remove(entryId: string) {
+    setEntries((prev) => prev.filter((e) => e.id !== entryId));
+    run(async () => {
+      try {
+        await removePlanEntry(entryId);
+      } catch (e) {
+        await loadWeek();
+        throw e;
+      }
+    }, 'Could not remove recipe.');
+  }
+
+  function copyToNextWeek() {
+    if (!userId || !entries.length) return;
+    const next = addDays(weekStart, 7);
+    run(async () => {
+      const n = await copyWeekPlan(userId, weekStart, next);
+      setNotice(
+        n
+          ? `Copied ${n} meal${n === 1 ? '' : 's'} to the week of ${formatWeekRange(next)}.`
+          : `The week of ${formatWeekRange(next)} already has these meals.`
+      );
+      setWeekStart(next);
+    }, 'Could not copy week.');
+  }
+
+  function sendToShoppingList() {
+    if (!userId || !entries.length) return;
+    run(async () => {
+      // one entry per planned meal, so a recipe planned twice is bought for twice
+      await addRecipesToShoppingList(userId, entries.map((e) => ({ id: e.recipe_id })));
+      router.push('/shopping');
+    }, 'Could not add to shopping list.');
+  }
+
+  // ---------- Drag & drop ----------
+  function onDragStart(ev: React.DragEvent, payload: DragPayload) {
+    ev.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    ev.dataTransfer.effectAllowed = payload.kind === 'recipe' ? 'copy' : 'move';
+  }
+
+  function onDrop(ev: React.DragEvent, cell: Cell) {
+    ev.preventDefault();
+    setDropTarget(null);
+    const raw = ev.dataTransfer.getData(DRAG_TYPE);
+    if (!raw) return;
+    try {
+      const payload = JSON.parse(raw) as DragPayload;
+      if (payload.kind === 'recipe') place(cell, payload.id);
+      else move(payload.id, cell);
+    } catch {
+      // not ours
+    }
+  }
+
+  // ---------- Styles ----------
+  const btn: React.CSSProperties = {
+    padding: '6px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: busy ? 'wait' : 'pointer',
+  };
+  const chip: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 4,
+    padding: '4px 6px',
+    background: '#f1f5f9',
+    border: '1px solid #e5e7eb',
+    borderRadius: 6,
+    fontSize: 12,
+    lineHeight: 1.2,
+    cursor: 'grab',
+  };
+
+  const pickChoices = pickFor ? sortForSlot(filtered, pickFor.slot) : [];
+  const pickSlotLabel = MEAL_SLOTS.find((s) => s.value === pickFor?.slot)?.label;
+
+  return (
+    <AuthGuard>
+      <div style={{ maxWidth: 1200, margin: '24px auto', padding: 16, paddingBottom: 96 }}>
+        <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 8, marginBottom: 12 }}>
+          <h1 style={{ margin: 0, fontSize: 22 }}>Meal Plan</h1>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+            <button type="button" onClick={() => setWeekStart(addDays(weekStart, -7))} style={btn} aria-label="Previous week">
+              ‹
+            </button>
+            <span style={{ fontSize: 14, fontWeight: 600, minWidth: 120, textAlign: 'center' }}>{formatWeekRange(weekStart)}</span>
+            <button type="button" onClick={() => setWeekStart(addDays(weekStart, 7))} style={btn} aria-label="Next week">
+              ›
+            </button>
+            <button type="button" onClick={() => setWeekStart(startOfWeek(new Date()))} style={btn}>
+              This week
+            </button>
+          </div>
+        </header>
+
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+          <button type="button" onClick={copyToNextWeek} disabled={busy || !entries.length} style={btn}>
+            Copy to next week
+          </button>
+          <button type="button" onClick={sendToShoppingList} disabled={busy || !entries.length} style={btn}>
+            Add week to shopping list
+          </button>
+        </div>
+
+        {msg && <div style={{ color: '#b42318', marginBottom: 12 }}>{msg}</div>}
+        {notice && (
+          <div style={{ background: '#ecfdf5', border: '1px solid #a7f3d0', color: '#065f46', borderRadius: 8, padding: 10, fontSize: 13, marginBottom: 12 }}>
+            {notice}
+          </div>
+        )}
+
+        {/* RECIPE TRAY — drag onto a slot (or use + on the slot) */}
+        <div style={{ background: '#fff', border: '1px solid #eee', borderRadius: 12, padding: 12, marginBottom: 16, display: 'grid', gap: 8 }}>
+          <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center' }}>
+            {SOURCE_TABS.map((t) => (
+              <button
+                key={t.value}
+                type="button"
+                aria-pressed={source === t.value}
+                onClick={() => setSource(t.value)}
+                style={{
+                  ...btn,
+                  background: source === t.value ? '#111827' : '#fff',
+                  color: source === t.value ? '#fff' : '#374151',
+                  border: `1px solid ${source === t.value ? '#111827' : '#ddd'}`,
+                }}
+              >
+                {t.label}
+              </button>
+            ))}
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter recipes"
+              aria-label="Filter recipes"
+              style={{ flex: 1, minWidth: 140, padding: 6, borderRadius: 8, border: '1px solid #ddd', fontSize: 13 }}
+            />
+          </div>
+          {filtered.length === 0 ? (
+            <div style={{ fontSize: 13, color: '#6b7280' }}>
+              {source === 'mine' ? 'No recipes to show.' : 'No bookmarked recipes to show.'}
+            </div>
+          ) : (
+            <div style={{ display: 'flex', gap: 6, overflowX: 'auto', paddingBottom: 4 }}>
+              {filtered.map((r) => (
+                <div
+                  key={r.id}
+                  draggable
+                  onDragStart={(ev) => onDragStart(ev, { kind: 'recipe', id: r.id })}
+                  title={r.recipe_types?.length ? r.recipe_types.join(', ') : r.title}
+                  style={{ ...chip, flex: '0 0 auto', maxWidth: 200, background: '#fff', fontSize: 13, padding: '6px 8px' }}
+                >
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{r.title}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* WEEK GRID */}
+        {loading ? (
+          <div>Loading your plan…</div>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: '84px repeat(7, minmax(120px, 1fr))',
+                gap: 1,
+                background: '#e5e7eb',
+                border: '1px solid #e5e7eb',
+                borderRadius: 8,
+                overflow: 'hidden',
+                minWidth: 940,
+              }}
+            >
+              <div style={{ background: '#f9fafb' }} />
+              {days.map((d) => {
+                const key = toDateKey(d);
+                return (
+                  <div
+                    key={key}
+                    style={{
+                      background: key === todayKey ? '#ecfdf5' : '#f9fafb',
+                      padding: '6px 8px',
+                      fontSize: 12,
+                      fontWeight: 600,
+                      color: '#374151',
+                    }}
+                  >
+                    {d.toLocaleDateString(undefined, { weekday: 'short' })}{' '}
+                    <span style={{ fontWeight: 400, color: '#6b7280' }}>{d.getDate()}</span>
+                  </div>
+                );
+              })}
+
+              {MEAL_SLOTS.map((slot) => (
+                <SlotRow key={slot.value} label={slot.label}>
+                  {days.map((d) => {
+                    const cell: Cell = { date: toDateKey(d), slot: slot.value };
+                    const cellKey = `${cell.date}|${cell.slot}`;
+                    return (
+                      <div
+                        key={cellKey}
+                        onDragOver={(ev) => {
+                          if (!ev.dataTransfer.types.includes(DRAG_TYPE)) return;
+                          ev.preventDefault();
+                          if (dropTarget !== cellKey) setDropTarget(cellKey);
+                        }}
+                        onDragLeave={() => setDropTarget((t) => (t === cellKey ? null : t))}
+                        onDrop={(ev) => onDrop(ev, cell)}
+                        style={{
+                          background: dropTarget === cellKey ? '#ecfdf5' : '#fff',
+                          padding: 6,
+                          minHeight: 64,
+                          display: 'flex',
+                          flexDirection: 'column',
+                          gap: 4,
+                        }}
+                      >
+                        {entriesFor(cell).map((e) => (
+                          <div
+                            key={e.id}
+                            draggable
+                            onDragStart={(ev) => onDragStart(ev, { kind: 'entry', id: e.id })}
+                            style={chip}
+                          >
+                            <button
+                              type="button"
+                              onClick={() => e.recipe && setOpenRecipe(e.recipe)}
+                              disabled={!e.recipe}
+                              style={{
+                                flex: 1,
+                                minWidth: 0,
+                                background: 'none',
+                                border: 'none',
+                                padding: 0,
+                                textAlign: 'left',
+                                fontSize: 12,
+                                color: e.recipe ? '#111827' : '#9ca3af',
+                                cursor: e.recipe ? 'pointer' : 'default',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis',
+                                whiteSpace: 'nowrap',
+                              }}
+                            >
+                              {e.recipe?.title ?? 'Recipe unavailable'}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => remove(e.id)}
+                              aria-label={`Remove ${e.recipe?.title ?? 'recipe'}`}
+                              style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: '#6b7280', fontSize: 12 }}
+                            >
+                              ✕
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => setPickFor(cell)}
+                          aria-label={`Add ${slot.label.toLowerCase()} on ${d.toLocaleDateString(undefined, { weekday: 'long' })}`}
+                          style={{
+                            alignSelf: 'flex-start',
+                            background: 'none',
+                            border: '1px dashed #d1d5db',
+                            borderRadius: 6,
+                            color: '#9ca3af',
+                            fontSize: 12,
+                            padding: '2px 8px',
+                            cursor: 'pointer',
+                          }}
+                        >
+                          +
+                        </button>
+                      </div>
+                    );
+                  })}
+                </SlotRow>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* TAP-TO-ADD SHEET */}
+        {pickFor && (
+          <div
+            style={{
+              position: 'fixed',
+              inset: 0,
+              background: 'rgba(0,0,0,.5)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: 12,
+              zIndex: 1000,
+            }}
+            onClick={() => setPickFor(null)}
+            aria-modal="true"
+            role="dialog"
+            aria-label="Choose a recipe"
+          >
+            <div
+              style={{
+                width: 'min(480px, 96vw)',
+                maxHeight: '80vh',
+                background: '#fff',
+                borderRadius: 12,
+                display: 'flex',
+                flexDirection: 'column',
+                overflow: 'hidden',
+              }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div style={{ padding: '12px 16px', borderBottom: '1px solid #eee', fontWeight: 700 }}>
+                {pickSlotLabel} ·{' '}
+                {fromDateKey(pickFor.date).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+              </div>
+              <div style={{ overflowY: 'auto', padding: 8 }}>
+                {pickChoices.length === 0 ? (
+                  <div style={{ padding: 8, color: '#6b7280', fontSize: 14 }}>No recipes to show.</div>
+                ) : (
+                  pickChoices.map((r) => (
+                    <button
+                      key={r.id}
+                      type="button"
+                      disabled={busy}
+                      onClick={() => {
+                        place(pickFor, r.id);
+                        setPickFor(null);
+                      }}
+                      style={{
+                        display: 'flex',
+                        width: '100%',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        gap: 8,
+                        padding: '8px 10px',
+                        background: 'none',
+                        border: 'none',
+                        borderRadius: 8,
+                        textAlign: 'left',
+                        fontSize: 14,
+                        cursor: 'pointer',
+                      }}
+                    >
+                      <span>{r.title}</span>
+                      {fitsSlot(r.recipe_types, pickFor.slot) && (
+                        <span style={{ fontSize: 11, color: '#065f46', background: '#ecfdf5', borderRadius: 999, padding: '2px 8px' }}>
+                          Suggested
+                        </span>
+                      )}
+                    </button>
+                  ))
+                )}
+              </div>
+              <div style={{ padding: '8px 16px', borderTop: '1px solid #eee', fontSize: 12, color: '#6b7280' }}>
+                Showing {SOURCE_TABS.find((t) => t.value === source)?.label.toLowerCase()}
+                {filter.trim() ? ` matching “${filter.trim()}”` : ''}.
+              </div>
+            </div>
+          </div>
+        )}
+
+        <RecipeModal open={!!modalRecipe} onClose={() => setOpenRecipe(null)} recipe={modalRecipe} />
+      </div>
+    </AuthGuard>
+  );
+}
+
+// Slot label in the first column, then the seven day cells
+function SlotRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <>
+      <div style={{ background: '#f9fafb', padding: '6px 8px', fontSize: 12, fontWeight: 600, color: '#374151' }}>{label}</div>
+      {children}
+    </>
+  );
+}
@@ -1,6 +1,9 @@
 // app/recipes/[id]/page.tsx
 import { notFound } from 'next/navigation';
 import { createClient } from '@supabase/supabase-js';
+import { formatIngredientForDisplay } from '@/lib/ingredientDisplay';
+import { isUnitSystem, UNIT_SYSTEM_OPTIONS, type UnitSystem } from '@/lib/unitConversion';
+import RecipeComments from '@/app/components/RecipeComments';
 
 export const dynamic = 'force-dynamic';
 
@@ -18,6 +21,15 @@ type Recipe = {
   instructions: string;
 };
 
+type IngredientRow = {
+  item_name: string;
+  quantity: number | null;
+  quantity_max: number | null;
+  unit: string | null;
+  note: string | null;
+  section_label: string | null;
+};
+
 type Profile = {
   id: string;
   display_name: string | null;
@@ -25,16 +37,43 @@ type Profile = {
   avatar_url: string | null;
 };
 
-export default async function RecipePage({ params }: { params: { id: string } }) {
+export default async function RecipePage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { units?: string };
+}) {
+  // Unit system comes from the URL (?units=metric) so the page stays server-rendered
+  const units: UnitSystem = isUnitSystem(searchParams.units) ? searchParams.units : 'original';
+
   // RLS will enforce visibility here
   const { data: recipe, error } = await supabase
     .from('recipes')
-    .select('id, title, cuisine, user_id, visibility, photo_url, ingredients, instructions')
+    .select('id, title, cuisine, user_id, visibility, photo_url, instructions')
     .eq('id', params.id)
     .single();
 
   if (error || !recipe) return notFound();
 
+  const { data: ingData } = await supabase
+    .from('recipe_ingredients')
+    .select('item_name, quantity, quantity_max, unit, note, section_label')
+    .eq('recipe_id', params.id)
+    .order('ingredient_order', { ascending: true });
+
+  // group by section label, first-seen order
+  const ingredientSections: { name: string; items: IngredientRow[] }[] = [];
+  ((ingData as IngredientRow[] | null) ?? []).forEach((i) => {
+    const name = (i.section_label || 'Main').trim() || 'Main';
+    let sec = ingredientSections.find((x) => x.name === name);
+    if (!sec) {
+      sec = { name, items: [] };
+      ingredientSections.push(sec);
+    }
+    sec.items.push(i);
+  });
+
   const { data: author } = await supabase
     .from('profiles')
     .select('id, display_name, nickname, avatar_url')
@@ -80,10 +119,51 @@ export default async function RecipePage({ params }: { params: { id: string } })
         />
       ) : null}
 
+      {ingredientSections.length > 0 ? (
+        <>
+          <div className="mt-4 mb-2 flex items-center justify-between gap-2">
+            <h2 className="text-lg font-medium">Ingredients</h2>
+            <div className="flex gap-1 text-xs">
+              {UNIT_SYSTEM_OPTIONS.map((o) => (
+                <a
+                  key={o.value}
+                  href={o.value === 'original' ? `?` : `?units=${o.value}`}
+                  className={`rounded-full border px-2 py-1 ${units === o.value ? 'bg-gray-900 text-white' : 'text-gray-700'}`}
+                >
+                  {o.label}
+                </a>
+              ))}
+            </div>
+          </div>
+          {ingredientSections.map((sec) => (
+            <div key={sec.name} className="mb-2">
+              {ingredientSections.length > 1 || sec.name !== 'Main' ? (
+                <div className="font-semibold">{sec.name}</div>
+              ) : null}
+              <ul className="list-disc pl-5 text-sm">
+                {sec.items.map((i, idx) => {
+                  const { text, note } = formatIngredientForDisplay(i, { system: units });
+                  return (
+                    <li key={idx}>
+                      {text}
+                      {note ? ` (${note})` : ''}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </>
+      ) : null}
+
       <h2 className="mt-4 mb-2 text-lg font-medium">Instructions</h2>
       <pre className="whitespace-pre-wrap rounded border bg-gray-50 p-3 text-sm">
         {recipe.instructions}
       </pre>
+
+      <div className="mt-6">
+        <RecipeComments recipeId={recipe.id} ownerId={recipe.user_id} />
+      </div>
     </div>
   );
 }
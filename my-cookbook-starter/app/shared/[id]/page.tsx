@@ -0,0 +1,340 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import AuthGuard from '../../components/AuthGuard';
+import RecipeModal from '../../components/RecipeModal';
+import { RecipeTile, recipeGridStyle } from '../../components/RecipeBadges';
+import { searchMentionCandidates, type MentionProfile } from '@/lib/recipeComments';
+import { applyRecipeListMutation, subscribeRecipeMutations } from '@/lib/recipeSync';
+import {
+  canEditBook,
+  deleteSharedCookbook,
+  fetchCookbookMembers,
+  fetchCookbookRecipes,
+  fetchMyCookbook,
+  inviteToCookbook,
+  removeCookbookMember,
+  renameSharedCookbook,
+  ROLE_OPTIONS,
+  setCookbookRole,
+  type CookbookMember,
+  type CookbookRole,
+  type MyCookbook,
+  type SharedRecipe,
+} from '@/lib/sharedCookbooks';
+
+function personName(p: { display_name: string | null; nickname: string | null } | null | undefined): string {
+  return p?.display_name || p?.nickname || 'Someone';
+}
+
+export default function SharedCookbookPage({ params }: { params: { id: string } }) {
+  const cookbookId = params.id;
+  const router = useRouter();
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [book, setBook] = useState<MyCookbook | null>(null);
+  const [recipes, setRecipes] = useState<SharedRecipe[]>([]);
+  const [members, setMembers] = useState<CookbookMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [selected, setSelected] = useState<SharedRecipe | null>(null);
+
+  // invite form (owners)
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MentionProfile[]>([]);
+  const [inviteRole, setInviteRole] = useState<CookbookRole>('editor');
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (!mounted) return;
+      setUserId(data.user?.id ?? null);
+      if (!data.user) setLoading(false);
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const mine = await fetchMyCookbook(userId, cookbookId);
+      setBook(mine);
+      if (!mine || mine.status !== 'accepted') return;
+      const [rs, ms] = await Promise.all([fetchCookbookRecipes(cookbookId), fetchCookbookMembers(cookbookId)]);
+      setRecipes(rs);
+      setMembers(ms);
+      setMsg(null);
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not load this cookbook.');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, cookbookId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  // recipes added, edited or deleted here or in another tab
+  useEffect(() => {
+    return subscribeRecipeMutations((m) => {
+      setRecipes((prev) => applyRecipeListMutation(prev, m, (r) => r.shared_cookbook_id === cookbookId, (r) => r));
+    });
+  }, [cookbookId]);
+
+  const isOwner = book?.role === 'owner';
+  const canEdit = canEditBook(book?.role);
+  const ownerCount = members.filter((m) => m.role === 'owner' && m.status === 'accepted').length;
+
+  async function run(action: () => Promise<void>, failMsg: string) {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      setMsg(e?.message || failMsg);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function rename() {
+    if (!book) return;
+    const name = window.prompt('Cookbook name', book.name)?.trim();
+    if (!name || name === book.name) return;
+    void run(async () => {
+      await renameSharedCookbook(cookbookId, name);
+      await load();
+    }, 'Could not rename the cookbook.');
+  }
+
+  function remove() {
+    if (!book || !window.confirm(`Delete “${book.name}”? Its recipes stay in their authors’ cookbooks.`)) return;
+    void run(async () => {
+      await deleteSharedCookbook(cookbookId);
+      router.replace('/shared');
+    }, 'Could not delete the cookbook.');
+  }
+
+  function leave() {
+    if (!userId || !book || !window.confirm(`Leave “${book.name}”?`)) return;
+    void run(async () => {
+      await removeCookbookMember(cookbookId, userId);
+      router.replace('/shared');
+    }, 'Could not leave the cookbook.');
+  }
+
+  async function search() {
+    const q = query.trim();
+    if (!q) return;
+    try {
+      const found = await searchMentionCandidates(q, 8);
+      const taken = new Set(members.map((m) => m.user_id));
+      setResults(found.filter((p) => !taken.has(p.id)));
+    } catch (e: any) {
+      setMsg(e?.message || 'Search failed.');
+    }
+  }
+
+  function invite(p: MentionProfile) {
+    void run(async () => {
+      await inviteToCookbook(cookbookId, p.id, inviteRole);
+      setResults((prev) => prev.filter((x) => x.id !== p.id));
+      setMembers(await fetchCookbookMembers(cookbookId));
+    }, 'Could not send the invite.');
+  }
+
+  function changeRole(m: CookbookMember, role: CookbookRole) {
+    void run(async () => {
+      await setCookbookRole(cookbookId, m.user_id, role);
+      setMembers(await fetchCookbookMembers(cookbookId));
+    }, 'Could not change the role.');
+  }
+
+  function dropMember(m: CookbookMember) {
+    const verb = m.status === 'pending' ? 'Cancel the invite for' : 'Remove';
+    if (!window.confirm(`${verb} ${personName(m.profile)}?`)) return;
+    void run(async () => {
+      await removeCookbookMember(cookbookId, m.user_id);
+      setMembers(await fetchCookbookMembers(cookbookId));
+    }, 'Could not remove the member.');
+  }
+
+  const btn: React.CSSProperties = {
+    padding: '6px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: busy ? 'wait' : 'pointer',
+  };
+
+  return (
+    <AuthGuard>
+      <div style={{ maxWidth: 1100, margin: '24px auto', padding: 16, paddingBottom: 96 }}>
+        {loading ? (
+          <div>Loading…</div>
+        ) : !book || book.status !== 'accepted' ? (
+          <div style={{ display: 'grid', gap: 8 }}>
+            <div style={{ color: '#b42318' }}>
+              {msg || (book ? 'Accept the invite to open this cookbook.' : 'Cookbook not found, or you’re not a member.')}
+            </div>
+            <a href="/shared" style={{ color: '#2563eb' }}>
+              Shared cookbooks
+            </a>
+          </div>
+        ) : (
+          <>
+            <header style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+              <h1 style={{ margin: 0, fontSize: 22, marginRight: 'auto' }}>{book.name}</h1>
+              {canEdit && (
+                <a
+                  href={`/add-recipe?book=${cookbookId}`}
+                  style={{ padding: '8px 12px', background: '#4CAF50', color: '#fff', borderRadius: 8, textDecoration: 'none', fontSize: 14 }}
+                >
+                  + Add Recipe
+                </a>
+              )}
+              {isOwner && (
+                <>
+                  <button type="button" onClick={rename} disabled={busy} style={btn}>
+                    Rename
+                  </button>
+                  <button type="button" onClick={remove} disabled={busy} style={{ ...btn, color: '#b42318' }}>
+                    Delete
+                  </button>
+                </>
+              )}
+              {(!isOwner || ownerCount > 1) && (
+                <button type="button" onClick={leave} disabled={busy} style={btn}>
+                  Leave
+                </button>
+              )}
+            </header>
+
+            {msg && <div style={{ color: '#b42318', marginBottom: 12 }}>{msg}</div>}
+
+            {/* RECIPES */}
+            {recipes.length === 0 ? (
+              <div style={{ background: '#fff', border: '1px solid #eee', borderRadius: 12, padding: 16, color: '#606375', marginBottom: 16 }}>
+                {canEdit ? 'No recipes yet. Tap “+ Add Recipe” to add the first one.' : 'No recipes yet.'}
+              </div>
+            ) : (
+              <div style={{ ...recipeGridStyle, marginBottom: 16 }}>
+                {recipes.map((r) => (
+                  <RecipeTile
+                    key={r.id}
+                    title={r.title}
+                    types={r.recipe_types ?? []}
+                    photoUrl={r.photo_url}
+                    rating={r.avg_rating}
+                    ratingCount={r.rating_count}
+                    onClick={() => setSelected(r)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* MEMBERS */}
+            <section style={{ background: '#fff', border: '1px solid #eee', borderRadius: 12, padding: 12, display: 'grid', gap: 8 }}>
+              <h2 style={{ margin: 0, fontSize: 16 }}>Members</h2>
+              {members.map((m) => (
+                <div key={m.user_id} style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={m.profile?.avatar_url || '/avatar-placeholder.png'}
+                    alt=""
+                    style={{ width: 32, height: 32, borderRadius: '50%', objectFit: 'cover' }}
+                  />
+                  <span style={{ flex: 1, minWidth: 0, fontSize: 14 }}>
+                    {personName(m.profile)}
+                    {m.user_id === userId ? ' (you)' : ''}
+                    {m.status === 'pending' && <span style={{ color: '#6b7280' }}> · invited</span>}
+                  </span>
+                  {isOwner && m.user_id !== userId ? (
+                    <>
+                      <select
+                        value={m.role}
+                        onChange={(e) => changeRole(m, e.target.value as CookbookRole)}
+                        disabled={busy}
+                        aria-label={`Role for ${personName(m.profile)}`}
+                        style={{ ...btn, padding: '5px 8px' }}
+                      >
+                        {ROLE_OPTIONS.map((o) => (
+                          <option key={o.value} value={o.value}>
+                            {o.label}
+                          </option>
+                        ))}
+                      </select>
+                      <button type="button" onClick={() => dropMember(m)} disabled={busy} style={btn} aria-label={`Remove ${personName(m.profile)}`}>
+                        ✕
+                      </button>
+                    </>
+                  ) : (
+                    <span style={{ fontSize: 13, color: '#666' }}>{ROLE_OPTIONS.find((o) => o.value === m.role)?.label}</span>
+                  )}
+                </div>
+              ))}
+
+              {isOwner && (
+                <div style={{ display: 'grid', gap: 8, borderTop: '1px solid #f3f4f6', paddingTop: 8 }}>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      void search();
+                    }}
+                    style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}
+                  >
+                    <input
+                      value={query}
+                      onChange={(e) => setQuery(e.target.value)}
+                      placeholder="Invite someone by name"
+                      style={{ flex: 1, minWidth: 160, padding: '6px 10px', border: '1px solid #ddd', borderRadius: 8, fontSize: 14 }}
+                    />
+                    <select
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as CookbookRole)}
+                      aria-label="Role for the invite"
+                      style={{ ...btn, padding: '5px 8px' }}
+                    >
+                      {ROLE_OPTIONS.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button type="submit" disabled={!query.trim()} style={btn}>
+                      Search
+                    </button>
+                  </form>
+                  {results.map((p) => (
+                    <div key={p.id} style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={p.avatar_url || '/avatar-placeholder.png'}
+                        alt=""
+                        style={{ width: 28, height: 28, borderRadius: '50%', objectFit: 'cover' }}
+                      />
+                      <span style={{ flex: 1, fontSize: 14 }}>{personName(p)}</span>
+                      <button type="button" onClick={() => invite(p)} disabled={busy} style={btn}>
+                        Invite
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+
+        <RecipeModal open={!!selected} onClose={() => setSelected(null)} recipe={selected} />
+      </div>
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import AuthGuard from '../components/AuthGuard';
+import {
+  acceptCookbookInvite,
+  createSharedCookbook,
+  fetchMyCookbooks,
+  removeCookbookMember,
+  ROLE_OPTIONS,
+  type MyCookbook,
+} from '@/lib/sharedCookbooks';
+
+type Profile = { id: string; display_name: string | null; nickname: string | null };
+
+const roleLabel = (role: string) => ROLE_OPTIONS.find((o) => o.value === role)?.label ?? role;
+
+export default function SharedCookbooksPage() {
+  const router = useRouter();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [books, setBooks] = useState<MyCookbook[]>([]);
+  const [inviters, setInviters] = useState<Map<string, Profile>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (!mounted) return;
+      setUserId(data.user?.id ?? null);
+      if (!data.user) setLoading(false);
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const rows = await fetchMyCookbooks(userId);
+      const inviterIds = Array.from(
+        new Set(rows.filter((b) => b.status === 'pending' && b.invited_by).map((b) => b.invited_by as string))
+      );
+      const { data: profs } = inviterIds.length
+        ? await supabase.from('profiles').select('id, display_name, nickname').in('id', inviterIds)
+        : { data: [] as Profile[] };
+      setBooks(rows);
+      setInviters(new Map(((profs as Profile[]) ?? []).map((p) => [p.id, p])));
+      setMsg(null);
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not load shared cookbooks.');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  async function create() {
+    const name = newName.trim();
+    if (!name || busy) return;
+    setBusy(true);
+    try {
+      const book = await createSharedCookbook(name);
+      router.push(`/shared/${book.id}`);
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not create the cookbook.');
+      setBusy(false);
+    }
+  }
+
+  async function respond(book: MyCookbook, accept: boolean) {
+    if (!userId) return;
+    setBusy(true);
+    try {
+      if (accept) await acceptCookbookInvite(userId, book.id);
+      else await removeCookbookMember(book.id, userId);
+      await load();
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not answer the invite.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const invites = books.filter((b) => b.status === 'pending');
+  const mine = books.filter((b) => b.status === 'accepted');
+
+  const btn: React.CSSProperties = {
+    padding: '6px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: busy ? 'wait' : 'pointer',
+  };
+  const card: React.CSSProperties = {
+    background: '#fff',
+    border: '1px solid #eee',
+    borderRadius: 12,
+    padding: 12,
+  };
+
+  return (
+    <AuthGuard>
+      <div style={{ maxWidth: 720, margin: '24px auto', padding: 16, paddingBottom: 96 }}>
+        <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <h1 style={{ margin: 0, fontSize: 22 }}>Shared Cookbooks</h1>
+          <a href="/cookbook" style={{ ...btn, color: '#111', textDecoration: 'none' }}>
+            My Cookbook
+          </a>
+        </header>
+
+        {msg && <div style={{ color: '#b42318', marginBottom: 12 }}>{msg}</div>}
+
+        {loading ? (
+          <div>Loading…</div>
+        ) : (
+          <div style={{ display: 'grid', gap: 16 }}>
+            {invites.length > 0 && (
+              <section style={{ display: 'grid', gap: 8 }}>
+                <h2 style={{ margin: 0, fontSize: 16 }}>Invites</h2>
+                {invites.map((b) => {
+                  const from = b.invited_by ? inviters.get(b.invited_by) : undefined;
+                  return (
+                    <div key={b.id} style={{ ...card, display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                      <div style={{ flex: 1, minWidth: 200 }}>
+                        <div style={{ fontWeight: 700 }}>{b.name}</div>
+                        <div style={{ fontSize: 13, color: '#666' }}>
+                          {from?.display_name || from?.nickname || 'Someone'} invited you as {roleLabel(b.role).toLowerCase()}
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => respond(b, true)}
+                        disabled={busy}
+                        style={{ ...btn, background: '#4CAF50', color: '#fff', border: '1px solid #4CAF50' }}
+                      >
+                        Accept
+                      </button>
+                      <button type="button" onClick={() => respond(b, false)} disabled={busy} style={btn}>
+                        Decline
+                      </button>
+                    </div>
+                  );
+                })}
+              </section>
+            )}
+
+            <section style={{ display: 'grid', gap: 8 }}>
+              <h2 style={{ margin: 0, fontSize: 16 }}>Your shared cookbooks</h2>
+              {mine.length === 0 ? (
+                <div style={{ fontSize: 14, color: '#606375' }}>
+                  None yet. Start one for your household and invite the people you cook with.
+                </div>
+              ) : (
+                mine.map((b) => (
+                  <a
+                    key={b.id}
+                    href={`/shared/${b.id}`}
+                    style={{ ...card, display: 'flex', alignItems: 'center', justifyContent: 'space-between', color: '#111827', textDecoration: 'none' }}
+                  >
+                    <span style={{ fontWeight: 700 }}>{b.name}</span>
+                    <span style={{ fontSize: 13, color: '#666' }}>{roleLabel(b.role)}</span>
+                  </a>
+                ))
+              )}
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  void create();
+                }}
+                style={{ display: 'flex', gap: 8, marginTop: 4 }}
+              >
+                <input
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="New shared cookbook, e.g. Our kitchen"
+                  maxLength={80}
+                  style={{ flex: 1, padding: '8px 10px', border: '1px solid #ddd', borderRadius: 8, fontSize: 14 }}
+                />
+                <button type="submit" disabled={busy || !newName.trim()} style={btn}>
+                  Create
+                </button>
+              </form>
+            </section>
+          </div>
+        )}
+      </div>
+    </AuthGuard>
+  );
+}
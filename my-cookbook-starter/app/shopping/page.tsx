@@ -0,0 +1,321 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import AuthGuard from '../components/AuthGuard';
+import { formatIngredientForDisplay } from '@/lib/ingredientDisplay';
+import { isUnitSystem, type UnitSystem } from '@/lib/unitConversion';
+import { fetchRecipeSource, type PickerRecipe, type RecipeSource } from '@/lib/recipeSources';
+import {
+  addManualItem,
+  addRecipesToShoppingList,
+  deleteShoppingItems,
+  fetchShoppingList,
+  groupByAisle,
+  setItemChecked,
+  type ShoppingItem,
+} from '@/lib/shoppingList';
+
+const SOURCE_TABS: { value: RecipeSource; label: string }[] = [
+  { value: 'mine', label: 'My recipes' },
+  { value: 'bookmarked', label: 'Bookmarked' },
+];
+
+export default function ShoppingListPage() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [items, setItems] = useState<ShoppingItem[]>([]);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('original');
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // manual add
+  const [draft, setDraft] = useState('');
+
+  // recipe picker
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [source, setSource] = useState<RecipeSource>('mine');
+  const [choices, setChoices] = useState<PickerRecipe[]>([]);
+  const [choicesLoading, setChoicesLoading] = useState(false);
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      const uid = data.user?.id ?? null;
+      if (!mounted) return;
+      setUserId(uid);
+      if (!uid) {
+        setLoading(false);
+        return;
+      }
+      try {
+        const [list, { data: me }] = await Promise.all([
+          fetchShoppingList(uid),
+          supabase.from('profiles').select('unit_system').eq('id', uid).limit(1),
+        ]);
+        if (!mounted) return;
+        setItems(list);
+        const pref = (me?.[0] as { unit_system?: string } | undefined)?.unit_system;
+        setUnitSystem(isUnitSystem(pref) ? pref : 'original');
+      } catch (e: any) {
+        if (mounted) setMsg(e?.message || 'Could not load your shopping list.');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      if (!pickerOpen || !userId) return;
+      setChoicesLoading(true);
+      try {
+        const rows = await fetchRecipeSource(userId, source);
+        if (mounted) setChoices(rows);
+      } catch (e: any) {
+        if (mounted) setMsg(e?.message || 'Could not load recipes.');
+      } finally {
+        if (mounted) setChoicesLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [pickerOpen, source, userId]);
+
+  const groups = useMemo(() => groupByAisle(items), [items]);
+  const checkedCount = items.filter((i) => i.checked).length;
+
+  async function reload() {
+    if (!userId) return;
+    setItems(await fetchShoppingList(userId));
+  }
+
+  async function toggle(item: ShoppingItem) {
+    const next = !item.checked;
+    // optimistic; put it back if the write fails
+    setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, checked: next } : i)));
+    try {
+      await setItemChecked(item.id, next);
+    } catch (e: any) {
+      setItems((prev) => prev.map((i) => (i.id === item.id ? { ...i, checked: item.checked } : i)));
+      setMsg(e?.message || 'Could not update item.');
+    }
+  }
+
+  async function addDraft(ev: React.FormEvent) {
+    ev.preventDefault();
+    const line = draft.trim();
+    if (!userId || !line || busy) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      await addManualItem(userId, line);
+      setDraft('');
+      await reload();
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not add item.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function addPicked() {
+    if (!userId || picked.size === 0 || busy) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      await addRecipesToShoppingList(userId, Array.from(picked).map((id) => ({ id })));
+      setPicked(new Set());
+      setPickerOpen(false);
+      await reload();
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not add recipes.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function clear(which: 'checked' | 'all') {
+    if (!userId || busy) return;
+    if (which === 'all' && !window.confirm('Remove every item from your shopping list?')) return;
+    setBusy(true);
+    try {
+      await deleteShoppingItems(userId, which);
+      setItems((prev) => (which === 'all' ? [] : prev.filter((i) => !i.checked)));
+    } catch (e: any) {
+      setMsg(e?.message || 'Could not clear items.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function togglePicked(id: string) {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  const btn: React.CSSProperties = {
+    padding: '6px 10px',
+    background: '#fff',
+    border: '1px solid #ddd',
+    borderRadius: 8,
+    fontSize: 13,
+    cursor: busy ? 'wait' : 'pointer',
+  };
+  const primaryBtn: React.CSSProperties = {
+    ...btn,
+    background: '#4CAF50',
+    border: '1px solid #4CAF50',
+    color: '#fff',
+  };
+  const card: React.CSSProperties = {
+    background: '#fff',
+    border: '1px solid #eee',
+    borderRadius: 12,
+    padding: 12,
+  };
+
+  return (
+    <AuthGuard>
+      <div style={{ maxWidth: 720, margin: '24px auto', padding: 16, paddingBottom: 96 }}>
+        <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <h1 style={{ margin: 0, fontSize: 22 }}>Shopping List</h1>
+          <button type="button" onClick={() => setPickerOpen((v) => !v)} style={pickerOpen ? btn : primaryBtn}>
+            {pickerOpen ? 'Close' : '+ Add recipes'}
+          </button>
+        </header>
+
+        {msg && <div style={{ color: '#b42318', marginBottom: 12 }}>{msg}</div>}
+
+        {/* RECIPE PICKER */}
+        {pickerOpen && (
+          <div style={{ ...card, marginBottom: 16, display: 'grid', gap: 10 }}>
+            <div role="tablist" style={{ display: 'flex', gap: 6 }}>
+              {SOURCE_TABS.map((t) => (
+                <button
+                  key={t.value}
+                  type="button"
+                  role="tab"
+                  aria-selected={source === t.value}
+                  onClick={() => setSource(t.value)}
+                  style={{
+                    ...btn,
+                    background: source === t.value ? '#111827' : '#fff',
+                    color: source === t.value ? '#fff' : '#374151',
+                    border: `1px solid ${source === t.value ? '#111827' : '#ddd'}`,
+                  }}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+
+            {choicesLoading ? (
+              <div style={{ fontSize: 14 }}>Loading…</div>
+            ) : choices.length === 0 ? (
+              <div style={{ fontSize: 14, color: '#6b7280' }}>
+                {source === 'mine' ? 'You haven’t added any recipes yet.' : 'No bookmarked recipes yet.'}
+              </div>
+            ) : (
+              <div style={{ maxHeight: 280, overflowY: 'auto', display: 'grid', gap: 2 }}>
+                {choices.map((r) => (
+                  <label
+                    key={r.id}
+                    style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 4px', fontSize: 14, cursor: 'pointer' }}
+                  >
+                    <input type="checkbox" checked={picked.has(r.id)} onChange={() => togglePicked(r.id)} />
+                    <span>{r.title}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <button type="button" onClick={addPicked} disabled={picked.size === 0 || busy} style={picked.size ? primaryBtn : btn}>
+                {busy ? 'Adding…' : picked.size ? `Add ${picked.size} recipe${picked.size === 1 ? '' : 's'}` : 'Select recipes'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* MANUAL ADD */}
+        <form onSubmit={addDraft} style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Add an item, e.g. 2 lemons"
+            aria-label="Add an item"
+            style={{ flex: 1, padding: 8, borderRadius: 8, border: '1px solid #ddd', fontSize: 14 }}
+          />
+          <button type="submit" disabled={!draft.trim() || busy} style={btn}>
+            Add
+          </button>
+        </form>
+
+        {/* LIST */}
+        {loading ? (
+          <div>Loading your list…</div>
+        ) : items.length === 0 ? (
+          <div style={{ ...card, color: '#606375' }}>
+            Your list is empty. Add recipes here, or pick them on My Cookbook with “Select recipes…”.
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: 12 }}>
+            {groups.map((g) => (
+              <section key={g.aisle} style={card}>
+                <h2 style={{ margin: '0 0 6px', fontSize: 14, color: '#6b7280', textTransform: 'uppercase', letterSpacing: 0.4 }}>
+                  {g.aisle}
+                </h2>
+                <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                  {g.items.map((it) => {
+                    const { text } = formatIngredientForDisplay({ ...it, note: null }, { system: unitSystem });
+                    return (
+                      <li key={it.id}>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '6px 0', cursor: 'pointer' }}>
+                          <input type="checkbox" checked={it.checked} onChange={() => toggle(it)} />
+                          <span
+                            style={{
+                              flex: 1,
+                              fontSize: 15,
+                              color: it.checked ? '#9ca3af' : '#111827',
+                              textDecoration: it.checked ? 'line-through' : 'none',
+                            }}
+                          >
+                            {text}
+                          </span>
+                          {it.recipe_ids.length > 1 && (
+                            <span style={{ fontSize: 12, color: '#9ca3af' }}>{it.recipe_ids.length} recipes</span>
+                          )}
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </section>
+            ))}
+
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+              <button type="button" onClick={() => clear('checked')} disabled={!checkedCount || busy} style={btn}>
+                Clear checked ({checkedCount})
+              </button>
+              <button type="button" onClick={() => clear('all')} disabled={busy} style={btn}>
+                Clear all
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </AuthGuard>
+  );
+}
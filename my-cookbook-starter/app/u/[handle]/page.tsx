@@ -4,6 +4,7 @@ import { useEffect, useMemo, useRef, useState } from 'react';
 import { supabase } from '@/lib/supabaseClient';
 import RecipeModal from '@/app/components/RecipeModal';
 import FriendsListModal from '@/app/components/FriendsListModal';
+import CollectionsShelf from '@/app/components/CollectionsShelf';
 import { RecipeTile, recipeGridStyle } from '@/app/components/RecipeBadges';
 
 type RecipeVisibility = 'public' | 'friends' | 'private' | null;
@@ -18,6 +19,8 @@ type Recipe = {
   source_url: string | null;
   created_at: string | null;
   recipe_visibility: RecipeVisibility; // <- we keep this name in TS
+  avg_rating?: number | null;
+  rating_count?: number | null;
 };
 
 type Profile = {
@@ -49,7 +52,7 @@ export default function OtherCookbookPage({ params }: { params: { handle: string
   // Stats
   const [friendCount, setFriendCount] = useState(0);
   const [totalAddedCount, setTotalAddedCount] = useState(0);
-  const [recipesCookedCount] = useState(0); // placeholder
+  const [recipesCookedCount, setRecipesCookedCount] = useState(0);
 
   // Recipes (already visibility-filtered by server)
   const [visibleRecipes, setVisibleRecipes] = useState<Recipe[]>([]);
@@ -132,6 +135,10 @@ export default function OtherCookbookPage({ params }: { params: { handle: string
       const { data: fc, error: fcErr } = await supabase.rpc('friend_count', { uid: viewedId });
       if (!cancelled) setFriendCount(!fcErr && typeof fc === 'number' ? (fc as number) : 0);
 
+      // cooks they've logged (count only; entries stay friends-only)
+      const { data: cc, error: ccErr } = await supabase.rpc('cook_count', { uid: viewedId });
+      if (!cancelled) setRecipesCookedCount(!ccErr && typeof cc === 'number' ? (cc as number) : 0);
+
       // total recipes they’ve added (count only; not filtered)
       const { count, error: cntErr } = await supabase
         .from('recipes')
@@ -175,7 +182,7 @@ export default function OtherCookbookPage({ params }: { params: { handle: string
         const qb = supabase
           .from('recipes')
           .select(
-            'id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,recipe_visibility:visibility'
+            'id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,recipe_visibility:visibility,avg_rating,rating_count'
           )
           .eq('user_id', viewedId)
           .order('created_at', { ascending: false });
@@ -470,6 +477,15 @@ export default function OtherCookbookPage({ params }: { params: { handle: string
         </button>
       </div>
 
+      {/* Collections the viewer may see (all of them on your own profile) */}
+      {viewed && (
+        <CollectionsShelf
+          ownerId={viewed.id}
+          editable={viewerId === viewed.id}
+          onOpenRecipe={(r) => openRecipe({ ...r, recipe_visibility: null })}
+        />
+      )}
+
       {/* Recipes grid */}
       <div ref={gridRef}>
         {loadingViewed ? (
@@ -498,6 +514,8 @@ export default function OtherCookbookPage({ params }: { params: { handle: string
                 title={r.title}
                 types={r.recipe_types ?? []}
                 photoUrl={r.photo_url}
+                rating={r.avg_rating}
+                ratingCount={r.rating_count}
                 onClick={() => openRecipe(r)}
               />
             ))}
@@ -0,0 +1,204 @@
+// lib/collections.ts
+
+// Named recipe folders ("Weeknight", "Grandma's"): each belongs to one user, holds
+// their own and bookmarked recipes in a chosen order, and has its own visibility
+// and cover (collections + collection_recipes, see README). RLS hides collections
+// the viewer may not see and, inside a visible one, recipes they may not see.
+
+import { supabase } from './supabaseClient';
+import type { RecipeVisibility } from './recipeSync';
+
+export type Collection = {
+  id: string;
+  user_id: string;
+  name: string;
+  visibility: RecipeVisibility;
+  cover_url: string | null;
+  position: number;
+  created_at: string;
+};
+
+/** A collection plus what its card shows. */
+export type CollectionCard = Collection & {
+  recipe_count: number;
+  /** cover_url, else the first visible recipe's photo */
+  cover: string | null;
+};
+
+export type CollectionRecipe = {
+  id: string;
+  user_id: string;
+  title: string;
+  cuisine: string | null;
+  recipe_types: string[] | null;
+  photo_url: string | null;
+  source_url: string | null;
+  created_at: string | null;
+  avg_rating?: number | null;
+  rating_count?: number | null;
+};
+
+export const COLLECTION_VISIBILITY_OPTIONS: { value: RecipeVisibility; label: string }[] = [
+  { value: 'private', label: 'Only me' },
+  { value: 'friends', label: 'Friends' },
+  { value: 'public', label: 'Everyone' },
+];
+
+const COLLECTION_COLUMNS = 'id,user_id,name,visibility,cover_url,position,created_at';
+const RECIPE_COLUMNS = 'id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,avg_rating,rating_count';
+
+/** `ownerId`'s collections the viewer can see, in the owner's order, with counts and covers. */
+export async function fetchCollections(ownerId: string): Promise<CollectionCard[]> {
+  const { data, error } = await supabase
+    .from('collections')
+    .select(COLLECTION_COLUMNS)
+    .eq('user_id', ownerId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  const rows = (data as Collection[]) ?? [];
+  if (!rows.length) return [];
+
+  const { data: items, error: iErr } = await supabase
+    .from('collection_recipes')
+    .select('collection_id,position,recipe:recipes(photo_url)')
+    .in('collection_id', rows.map((c) => c.id))
+    .order('position', { ascending: true });
+  if (iErr) throw iErr;
+
+  const counts = new Map<string, number>();
+  const firstPhoto = new Map<string, string>();
+  for (const it of (items as any[]) ?? []) {
+    const recipe = Array.isArray(it.recipe) ? it.recipe[0] : it.recipe;
+    if (!recipe) continue; // not visible to this viewer
+    counts.set(it.collection_id, (counts.get(it.collection_id) ?? 0) + 1);
+    if (recipe.photo_url && !firstPhoto.has(it.collection_id)) firstPhoto.set(it.collection_id, recipe.photo_url);
+  }
+
+  return rows.map((c) => ({
+    ...c,
+    recipe_count: counts.get(c.id) ?? 0,
+    cover: c.cover_url || firstPhoto.get(c.id) || null,
+  }));
+}
+
+/** Recipes in a collection, in its order (ones the viewer can't see are left out). */
+export async function fetchCollectionRecipes(collectionId: string): Promise<CollectionRecipe[]> {
+  const { data, error } = await supabase
+    .from('collection_recipes')
+    .select(`position,recipe:recipes(${RECIPE_COLUMNS})`)
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: true });
+  if (error) throw error;
+  return ((data as any[]) ?? [])
+    .map((row) => (Array.isArray(row.recipe) ? row.recipe[0] : row.recipe) as CollectionRecipe | null)
+    .filter((r): r is CollectionRecipe => !!r);
+}
+
+/** Ids of the viewer's collections that hold `recipeId` (for the save picker). */
+export async function fetchCollectionIdsForRecipe(uid: string, recipeId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('collection_recipes')
+    .select('collection_id,collection:collections!inner(user_id)')
+    .eq('recipe_id', recipeId)
+    .eq('collection.user_id', uid);
+  if (error) throw error;
+  return new Set(((data as any[]) ?? []).map((r) => r.collection_id as string));
+}
+
+export async function createCollection(
+  uid: string,
+  name: string,
+  visibility: RecipeVisibility = 'private'
+): Promise<Collection> {
+  // new collections go last
+  const { data: last } = await supabase
+    .from('collections')
+    .select('position')
+    .eq('user_id', uid)
+    .order('position', { ascending: false })
+    .limit(1);
+  const position = ((last as { position: number }[] | null)?.[0]?.position ?? -1) + 1;
+
+  const { data, error } = await supabase
+    .from('collections')
+    .insert({ user_id: uid, name: name.trim(), visibility, position })
+    .select(COLLECTION_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as Collection;
+}
+
+export async function updateCollection(
+  id: string,
+  patch: Partial<Pick<Collection, 'name' | 'visibility' | 'cover_url'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('collections')
+    .update(patch.name != null ? { ...patch, name: patch.name.trim() } : patch)
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteCollection(id: string): Promise<void> {
+  const { error } = await supabase.from('collections').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/** Append a recipe to a collection (no-op if it's already there). */
+export async function addToCollection(collectionId: string, recipeId: string): Promise<void> {
+  const { data: last } = await supabase
+    .from('collection_recipes')
+    .select('position')
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: false })
+    .limit(1);
+  const position = ((last as { position: number }[] | null)?.[0]?.position ?? -1) + 1;
+
+  const { error } = await supabase
+    .from('collection_recipes')
+    .insert({ collection_id: collectionId, recipe_id: recipeId, position });
+  if (error && error.code !== '23505') throw error;
+}
+
+export async function removeFromCollection(collectionId: string, recipeId: string): Promise<void> {
+  const { error } = await supabase
+    .from('collection_recipes')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('recipe_id', recipeId);
+  if (error) throw error;
+}
+
+/** Save a new order of the owner's collections (ids first to last). */
+export async function reorderCollections(ids: string[]): Promise<void> {
+  const results = await Promise.all(
+    ids.map((id, position) => supabase.from('collections').update({ position }).eq('id', id))
+  );
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+}
+
+/** Save a new order of the recipes in a collection (recipe ids first to last). */
+export async function reorderCollectionRecipes(collectionId: string, recipeIds: string[]): Promise<void> {
+  const results = await Promise.all(
+    recipeIds.map((recipeId, position) =>
+      supabase
+        .from('collection_recipes')
+        .update({ position })
+        .eq('collection_id', collectionId)
+        .eq('recipe_id', recipeId)
+    )
+  );
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw failed.error;
+}
+
+/** Move the item at `from` one step by `delta` (−1 / +1); same array if it can't move. */
+export function moveItem<T>(list: T[], from: number, delta: number): T[] {
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= list.length) return list;
+  const next = list.slice();
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
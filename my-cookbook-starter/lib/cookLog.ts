@@ -0,0 +1,92 @@
+// lib/cookLog.ts
+
+// "I cooked this" log: one recipe_cooks row per time someone made a recipe, with an
+// optional note, rating and photo (see README). Powers the Recipes Cooked stat,
+// the "You've made this N times" line in RecipeModal and the friends' cooks strip.
+
+import { supabase } from './supabaseClient';
+import { photoExtension, uploadRecipePhoto } from './recipePhotos';
+
+export type CookEntry = {
+  id: string;
+  user_id: string;
+  recipe_id: string;
+  cooked_on: string; // YYYY-MM-DD
+  note: string | null;
+  rating: number | null; // 1–5
+  photo_url: string | null;
+  created_at: string;
+};
+
+export type FriendCook = CookEntry & {
+  recipe: { id: string; user_id: string; title: string; photo_url: string | null } | null;
+};
+
+export type NewCook = {
+  cookedOn: string;
+  note?: string | null;
+  rating?: number | null;
+  photo?: File | null;
+};
+
+const COOK_COLUMNS = 'id,user_id,recipe_id,cooked_on,note,rating,photo_url,created_at';
+
+/** The viewer's cooks of one recipe, most recent first. */
+export async function fetchMyCooks(uid: string, recipeId: string): Promise<CookEntry[]> {
+  const { data, error } = await supabase
+    .from('recipe_cooks')
+    .select(COOK_COLUMNS)
+    .eq('user_id', uid)
+    .eq('recipe_id', recipeId)
+    .order('cooked_on', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data as CookEntry[]) ?? [];
+}
+
+export async function logCook(uid: string, recipeId: string, cook: NewCook): Promise<CookEntry> {
+  const photo_url = cook.photo
+    ? await uploadRecipePhoto(cook.photo, uid, photoExtension(cook.photo, cook.photo.name))
+    : null;
+  const { data, error } = await supabase
+    .from('recipe_cooks')
+    .insert({
+      user_id: uid,
+      recipe_id: recipeId,
+      cooked_on: cook.cookedOn,
+      note: cook.note?.trim() || null,
+      rating: cook.rating ?? null,
+      photo_url,
+    })
+    .select(COOK_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as CookEntry;
+}
+
+/** Latest cooks by these users (RLS only returns friends' rows). */
+export async function fetchFriendCooks(userIds: string[], limit = 10): Promise<FriendCook[]> {
+  if (!userIds.length) return [];
+  const { data, error } = await supabase
+    .from('recipe_cooks')
+    .select(`${COOK_COLUMNS},recipe:recipes(id,user_id,title,photo_url)`)
+    .in('user_id', userIds)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return ((data as any[]) ?? [])
+    .map((row) => ({ ...row, recipe: Array.isArray(row.recipe) ? row.recipe[0] ?? null : row.recipe ?? null }))
+    .filter((c: FriendCook) => !!c.recipe);
+}
+
+export function formatCookedOn(day: string): string {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/** "You've made this 3 times, last on Oct 12, 2026" (null before the first cook). */
+export function cookSummary(cooks: CookEntry[]): string | null {
+  if (!cooks.length) return null;
+  const times = cooks.length === 1 ? 'once' : cooks.length === 2 ? 'twice' : `${cooks.length} times`;
+  return `You’ve made this ${times}, last on ${formatCookedOn(cooks[0].cooked_on)}`;
+}
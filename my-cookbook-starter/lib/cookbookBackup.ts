@@ -0,0 +1,369 @@
+// lib/cookbookBackup.ts
+
+// Full backup of everything a user owns, as one zip:
+//   backup.json          versioned manifest (profile, recipes with ingredients/steps, bookmarks, hearts)
+//   photos/<id>.<ext>    recipe photos from the recipe-photos bucket
+//   avatar.<ext>         profile picture from the avatars bucket
+// Restore re-creates it all under the signed-in account with fresh ids and storage paths.
+
+import type JSZip from 'jszip';
+import { supabase } from './supabaseClient';
+import { fetchRecipeBundles, type BundleIngredient, type BundleStep } from './recipeBundle';
+import { buildSaveRecipeArgs, saveFullRecipe } from './recipePayload';
+import {
+  downloadRecipePhoto,
+  photoContentType,
+  photoExtension,
+  RECIPE_PHOTO_BUCKET,
+  storagePathFromPublicUrl,
+} from './recipePhotos';
+
+export const BACKUP_FORMAT = 'my-cookbook-backup';
+export const BACKUP_VERSION = 1;
+
+type BackupIngredient = Omit<BundleIngredient, 'recipe_id'>;
+type BackupStep = Omit<BundleStep, 'recipe_id'>;
+
+export type BackupRecipe = {
+  id: string; // original id; used to re-link bookmarks/hearts on restore
+  title: string;
+  cuisine: string | null;
+  recipe_types: string[] | null;
+  visibility: string | null;
+  photo_url: string | null;
+  photo_file: string | null; // path inside the zip, when the photo was downloaded
+  source_url: string | null;
+  servings: number | null;
+  total_minutes?: number | null; // not in backups made before these existed
+  dietary_tags?: string[] | null;
+  instructions: string | null;
+  created_at: string | null;
+  ingredients: BackupIngredient[];
+  steps: BackupStep[];
+};
+
+export type BackupProfile = {
+  display_name: string | null;
+  nickname: string | null;
+  bio: string | null;
+  unit_system: string | null;
+  avatar_url: string | null;
+  avatar_file: string | null;
+};
+
+export type CookbookBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  source_user_id: string;
+  profile: BackupProfile | null;
+  recipes: BackupRecipe[];
+  bookmarks: string[]; // recipe ids
+  hearts: string[]; // recipe ids
+};
+
+export type RestoreResult = {
+  recipes: number;
+  skipped: number;
+  photos: number;
+  bookmarks: number;
+  hearts: number;
+  warnings: string[];
+};
+
+type Progress = (message: string) => void;
+
+async function currentUserId(): Promise<string> {
+  const { data } = await supabase.auth.getUser();
+  const uid = data?.user?.id;
+  if (!uid) throw new Error('No signed-in user — please log in again.');
+  return uid;
+}
+
+function stripRecipeId<T extends { recipe_id: string }>(row: T): Omit<T, 'recipe_id'> {
+  const { recipe_id: _omit, ...rest } = row;
+  return rest;
+}
+
+// ---------- Backup ----------
+
+/** Build the backup zip for the signed-in user. */
+export async function createCookbookBackup(onProgress?: Progress): Promise<Blob> {
+  const uid = await currentUserId();
+  const { default: ZipWriter } = await import('jszip');
+  const zip = new ZipWriter();
+
+  onProgress?.('Loading recipes…');
+  const { data: ownRows, error } = await supabase
+    .from('recipes')
+    .select('id,visibility')
+    .eq('user_id', uid)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  const visibility = new Map((ownRows ?? []).map((r: { id: string; visibility: string | null }) => [r.id, r.visibility]));
+  const bundles = await fetchRecipeBundles(Array.from(visibility.keys()));
+
+  const [bmRes, heartRes, profRes] = await Promise.all([
+    supabase.from('recipe_bookmarks').select('recipe_id').eq('user_id', uid),
+    supabase.from('recipe_hearts').select('recipe_id').eq('user_id', uid),
+    supabase.from('profiles').select('display_name,nickname,bio,unit_system,avatar_url').eq('id', uid).limit(1),
+  ]);
+  if (bmRes.error) throw bmRes.error;
+  if (heartRes.error) throw heartRes.error;
+
+  const recipes: BackupRecipe[] = [];
+  for (const [idx, b] of bundles.entries()) {
+    onProgress?.(`Saving photos ${idx + 1}/${bundles.length}…`);
+    let photoFile: string | null = null;
+    if (b.photo_url) {
+      const blob = await downloadRecipePhoto(b.photo_url);
+      if (blob) {
+        photoFile = `photos/${b.id}.${photoExtension(blob, b.photo_url)}`;
+        zip.file(photoFile, blob);
+      }
+    }
+    recipes.push({
+      id: b.id,
+      title: b.title,
+      cuisine: b.cuisine,
+      recipe_types: b.recipe_types,
+      visibility: visibility.get(b.id) ?? null,
+      photo_url: b.photo_url,
+      photo_file: photoFile,
+      source_url: b.source_url,
+      servings: b.servings,
+      total_minutes: b.total_minutes,
+      dietary_tags: b.dietary_tags,
+      instructions: b.instructions,
+      created_at: b.created_at,
+      ingredients: b.ingredients.map(stripRecipeId),
+      steps: b.steps.map(stripRecipeId),
+    });
+  }
+
+  let profile: BackupProfile | null = null;
+  const p = profRes.data?.[0] as Omit<BackupProfile, 'avatar_file'> | undefined;
+  if (p) {
+    let avatarFile: string | null = null;
+    if (p.avatar_url) {
+      try {
+        const res = await fetch(p.avatar_url);
+        if (res.ok) {
+          const blob = await res.blob();
+          avatarFile = `avatar.${photoExtension(blob, p.avatar_url)}`;
+          zip.file(avatarFile, blob);
+        }
+      } catch {
+        // keep the URL only
+      }
+    }
+    profile = { ...p, avatar_file: avatarFile };
+  }
+
+  const manifest: CookbookBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    source_user_id: uid,
+    profile,
+    recipes,
+    bookmarks: (bmRes.data ?? []).map((r: { recipe_id: string }) => r.recipe_id),
+    hearts: (heartRes.data ?? []).map((r: { recipe_id: string }) => r.recipe_id),
+  };
+  zip.file('backup.json', JSON.stringify(manifest, null, 2));
+
+  onProgress?.('Compressing…');
+  return zip.generateAsync({ type: 'blob' });
+}
+
+// ---------- Restore ----------
+
+/** Read and validate backup.json from a backup zip. */
+export async function readCookbookBackup(file: Blob) {
+  const { default: ZipReader } = await import('jszip');
+  let zip: JSZip;
+  try {
+    zip = await ZipReader.loadAsync(file);
+  } catch {
+    throw new Error('That file is not a cookbook backup (.zip).');
+  }
+  const entry = zip.file('backup.json');
+  if (!entry) throw new Error('backup.json is missing from this archive.');
+
+  let manifest: CookbookBackup;
+  try {
+    manifest = JSON.parse(await entry.async('string'));
+  } catch {
+    throw new Error('backup.json is not valid JSON.');
+  }
+  if (manifest?.format !== BACKUP_FORMAT || !Array.isArray(manifest.recipes)) {
+    throw new Error('This archive is not a cookbook backup.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of the app (v${manifest.version}).`);
+  }
+  return { zip, manifest };
+}
+
+/**
+ * Re-create a backup under the signed-in account.
+ * Recipes that still exist in this account are skipped: the same id, or the same title
+ * and created_at (a restore keeps created_at but not the id). So restoring after an
+ * accidental delete, or restoring the same backup twice, only brings back what's missing.
+ */
+export async function restoreCookbookBackup(file: Blob, onProgress?: Progress): Promise<RestoreResult> {
+  const uid = await currentUserId();
+  const { zip, manifest } = await readCookbookBackup(file);
+  const result: RestoreResult = { recipes: 0, skipped: 0, photos: 0, bookmarks: 0, hearts: 0, warnings: [] };
+
+  const { data: mine, error: mineErr } = await supabase
+    .from('recipes')
+    .select('id,title,created_at')
+    .eq('user_id', uid);
+  if (mineErr) throw mineErr;
+  const existing = new Map<string, string>();
+  for (const r of (mine ?? []) as { id: string; title: string; created_at: string | null }[]) {
+    existing.set(r.id, r.id);
+    const key = restoreKey(r);
+    if (key) existing.set(key, r.id);
+  }
+
+  // old recipe id → id in this account (for bookmarks/hearts on own recipes)
+  const idMap = new Map<string, string>();
+
+  for (const [idx, r] of manifest.recipes.entries()) {
+    onProgress?.(`Restoring recipes ${idx + 1}/${manifest.recipes.length}…`);
+    const already = existing.get(r.id) ?? existing.get(restoreKey(r) ?? '');
+    if (already) {
+      idMap.set(r.id, already);
+      result.skipped++;
+      continue;
+    }
+
+    let photoUrl = r.photo_url;
+    const photoEntry = r.photo_file ? zip.file(r.photo_file) : null;
+    if (photoEntry) {
+      const blob = await photoEntry.async('blob');
+      const ext = r.photo_file!.split('.').pop() || 'jpg';
+      const path = `${uid}/${crypto.randomUUID()}-${Date.now()}.${ext}`;
+      const { error: upErr } = await supabase.storage
+        .from(RECIPE_PHOTO_BUCKET)
+        .upload(path, blob, { contentType: photoContentType(ext) });
+      if (upErr) {
+        result.warnings.push(`Photo for “${r.title}” could not be uploaded: ${upErr.message}`);
+        photoUrl = null;
+      } else {
+        photoUrl = supabase.storage.from(RECIPE_PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+        result.photos++;
+      }
+    } else if (photoUrl && storagePathFromPublicUrl(photoUrl)) {
+      // a bucket photo we couldn't download at backup time; the old path may be gone
+      result.warnings.push(`Photo for “${r.title}” was not in the backup.`);
+    }
+
+    // same transactional RPC the add-recipe form uses
+    const newId = await saveFullRecipe(
+      buildSaveRecipeArgs(
+        null,
+        {
+          title: r.title,
+          cuisine: r.cuisine,
+          source_url: r.source_url,
+          photo_url: photoUrl,
+          visibility: r.visibility ?? 'private',
+          recipe_types: r.recipe_types ?? [],
+          servings: r.servings,
+          total_minutes: r.total_minutes ?? null,
+          dietary_tags: r.dietary_tags ?? [],
+        },
+        {
+          instructions: r.instructions ?? '',
+          ingredients: r.ingredients.map((i, idx) => ({
+            ...i,
+            section_label: i.section_label ?? 'Main',
+            ingredient_order: i.ingredient_order ?? idx + 1,
+          })),
+          steps: r.steps.map((s) => ({ ...s, section_label: s.section_label ?? 'Main' })),
+        },
+        { createdAt: r.created_at }
+      )
+    );
+    idMap.set(r.id, newId);
+    result.recipes++;
+  }
+
+  onProgress?.('Restoring bookmarks and hearts…');
+  result.bookmarks = await restoreReactions('recipe_bookmarks', manifest.bookmarks ?? [], idMap, uid, result);
+  result.hearts = await restoreReactions('recipe_hearts', manifest.hearts ?? [], idMap, uid, result);
+
+  if (manifest.profile) {
+    onProgress?.('Restoring profile…');
+    await restoreProfile(manifest.profile, zip, uid, result);
+  }
+
+  return result;
+}
+
+/** Title + creation time: what a restored recipe keeps from its backup. */
+function restoreKey(r: { title: string; created_at: string | null }): string | null {
+  const at = r.created_at ? Date.parse(r.created_at) : NaN;
+  return Number.isNaN(at) ? null : `${r.title}\u0000${at}`;
+}
+
+/** Re-add bookmarks/hearts whose recipes still exist (own recipes map to their new ids). */
+async function restoreReactions(
+  table: 'recipe_bookmarks' | 'recipe_hearts',
+  recipeIds: string[],
+  idMap: Map<string, string>,
+  uid: string,
+  result: RestoreResult
+): Promise<number> {
+  const targets = Array.from(new Set(recipeIds.map((id) => idMap.get(id) ?? id)));
+  if (!targets.length) return 0;
+
+  const { data: found } = await supabase.from('recipes').select('id').in('id', targets);
+  const alive = new Set((found ?? []).map((r: { id: string }) => r.id));
+  const { data: already } = await supabase.from(table).select('recipe_id').eq('user_id', uid).in('recipe_id', targets);
+  const have = new Set((already ?? []).map((r: { recipe_id: string }) => r.recipe_id));
+
+  const rows = targets.filter((id) => alive.has(id) && !have.has(id)).map((recipe_id) => ({ recipe_id, user_id: uid }));
+  const missing = targets.filter((id) => !alive.has(id)).length;
+  if (missing) result.warnings.push(`${missing} ${table === 'recipe_hearts' ? 'hearted' : 'bookmarked'} recipe(s) are no longer available.`);
+  if (!rows.length) return 0;
+
+  const { error } = await supabase.from(table).insert(rows);
+  if (error) {
+    result.warnings.push(error.message);
+    return 0;
+  }
+  return rows.length;
+}
+
+/** Fill in the profile; never fails the whole restore. */
+async function restoreProfile(p: BackupProfile, zip: JSZip, uid: string, result: RestoreResult) {
+  let avatarUrl = p.avatar_url;
+  const avatarEntry = p.avatar_file ? zip.file(p.avatar_file) : null;
+  if (avatarEntry) {
+    const blob = await avatarEntry.async('blob');
+    // keep the backed-up file's type; avatar.<ext> per user, like AvatarUpload's avatar.png
+    const ext = photoExtension(null, p.avatar_file!);
+    const filePath = `${uid}/avatar.${ext}`;
+    const { error } = await supabase.storage
+      .from('avatars')
+      .upload(filePath, blob, { upsert: true, contentType: photoContentType(ext) });
+    if (error) result.warnings.push(`Avatar could not be uploaded: ${error.message}`);
+    else avatarUrl = supabase.storage.from('avatars').getPublicUrl(filePath).data.publicUrl;
+  }
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      display_name: p.display_name,
+      nickname: p.nickname,
+      bio: p.bio,
+      unit_system: p.unit_system ?? 'original',
+      avatar_url: avatarUrl,
+    })
+    .eq('id', uid);
+  if (error) result.warnings.push(`Profile could not be restored: ${error.message}`);
+}
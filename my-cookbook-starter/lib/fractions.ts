@@ -0,0 +1,50 @@
+// lib/fractions.ts
+
+// Kitchen-friendly number formatting for scaled quantities: 0.333 → "⅓", 1.5 → "1½".
+
+const FRIENDLY: [number, string][] = [
+  [1 / 8, '⅛'], [1 / 4, '¼'], [1 / 3, '⅓'], [3 / 8, '⅜'], [1 / 2, '½'],
+  [5 / 8, '⅝'], [2 / 3, '⅔'], [3 / 4, '¾'], [7 / 8, '⅞'],
+];
+
+// How far a value may be from a "nice" fraction before we fall back to decimals.
+const TOLERANCE = 0.04;
+
+/** Round to at most two decimals and drop trailing zeros. */
+function trimDecimal(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+/**
+ * Format a quantity the way a cook would write it.
+ *   0.333 → "⅓", 1.5 → "1½", 2.25 → "2¼", 12.4 → "12½", 250 → "250", 0.06 → "0.06"
+ */
+export function formatFriendlyQuantity(n: number): string {
+  if (!Number.isFinite(n) || n <= 0) return '0';
+  // Big amounts: fractions stop being useful
+  if (n >= 20) return String(Math.round(n));
+  if (n >= 10) {
+    const halves = Math.round(n * 2) / 2;
+    return Number.isInteger(halves) ? String(halves) : `${Math.floor(halves)}½`;
+  }
+
+  const whole = Math.floor(n);
+  const frac = n - whole;
+  if (frac < TOLERANCE) return whole ? String(whole) : trimDecimal(n);
+  if (1 - frac < TOLERANCE) return String(whole + 1);
+
+  let best: [number, string] | null = null;
+  for (const f of FRIENDLY) {
+    if (!best || Math.abs(f[0] - frac) < Math.abs(best[0] - frac)) best = f;
+  }
+  if (best && Math.abs(best[0] - frac) <= TOLERANCE) {
+    return whole ? `${whole}${best[1]}` : best[1];
+  }
+  return trimDecimal(n);
+}
+
+/** Multiply a (possibly missing) quantity by a scale factor. */
+export function scaleQuantity(q: number | null | undefined, factor: number): number | null {
+  if (q == null) return null;
+  return q * factor;
+}
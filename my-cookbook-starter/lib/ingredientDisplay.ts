@@ -0,0 +1,41 @@
+// lib/ingredientDisplay.ts
+
+// One place that turns a recipe_ingredients row into the text shown to cooks:
+// scaled (servings), converted (unit system) and formatted (friendly fractions).
+
+import { formatQuantityRange, parseIngredientLine, unitLabel } from './ingredientParser';
+import { scaleQuantity } from './fractions';
+import { convertAmount, formatAmountNumber, type UnitSystem } from './unitConversion';
+
+export type DisplayIngredient = {
+  item_name: string;
+  quantity: number | null;
+  quantity_max?: number | null;
+  unit: string | null;
+  note: string | null;
+};
+
+// Older recipes saved the whole line in item_name; parse those on the fly so they scale too.
+export function resolveIngredient<T extends DisplayIngredient>(i: T): T {
+  if (i.quantity != null || i.unit) return i;
+  const p = parseIngredientLine(i.item_name);
+  if (p.quantity == null) return i;
+  return { ...i, ...p, note: [p.note, i.note].filter(Boolean).join(', ') || null };
+}
+
+/** "1½ cups flour" (without the note) for a row, after scaling and unit conversion. */
+export function formatIngredientForDisplay(
+  row: DisplayIngredient,
+  opts: { scale?: number; system?: UnitSystem } = {}
+): { text: string; note: string | null } {
+  const i = resolveIngredient(row);
+  const scaled = {
+    quantity: scaleQuantity(i.quantity, opts.scale ?? 1),
+    quantity_max: scaleQuantity(i.quantity_max, opts.scale ?? 1),
+    unit: i.unit,
+  };
+  const a = convertAmount(scaled, opts.system ?? 'original', i.item_name);
+  const qty = formatQuantityRange(a.quantity, a.quantity_max, (n) => formatAmountNumber(n, a.unit));
+  const unit = unitLabel(a.unit, a.quantity_max ?? a.quantity);
+  return { text: [qty, unit, i.item_name].filter(Boolean).join(' '), note: i.note };
+}
@@ -0,0 +1,261 @@
+// lib/ingredientParser.ts
+
+// Splits free-text ingredient lines ("1 1/2 cups flour, sifted") into the
+// quantity / unit / item / note columns that recipe_ingredients stores.
+
+export type UnitKind = 'volume' | 'weight' | 'count';
+
+export type UnitDef = {
+  key: string;        // canonical value saved in recipe_ingredients.unit
+  singular: string;
+  plural: string;
+  kind: UnitKind;
+  aliases: string[];  // matched case-insensitively, except single letters
+};
+
+export type ParsedIngredient = {
+  item_name: string;
+  quantity: number | null;
+  quantity_max: number | null; // upper bound for ranges like "2-3"
+  unit: string | null;
+  note: string | null;
+};
+
+export const UNITS: UnitDef[] = [
+  // US volume
+  { key: 'tsp', singular: 'tsp', plural: 'tsp', kind: 'volume', aliases: ['tsp', 'tsps', 'teaspoon', 'teaspoons', 't'] },
+  { key: 'tbsp', singular: 'tbsp', plural: 'tbsp', kind: 'volume', aliases: ['tbsp', 'tbsps', 'tbs', 'tbl', 'tablespoon', 'tablespoons', 'T'] },
+  { key: 'fl oz', singular: 'fl oz', plural: 'fl oz', kind: 'volume', aliases: ['fl oz', 'fl. oz', 'floz', 'fluid ounce', 'fluid ounces'] },
+  { key: 'cup', singular: 'cup', plural: 'cups', kind: 'volume', aliases: ['cup', 'cups', 'c'] },
+  { key: 'pint', singular: 'pint', plural: 'pints', kind: 'volume', aliases: ['pint', 'pints', 'pt', 'pts'] },
+  { key: 'quart', singular: 'quart', plural: 'quarts', kind: 'volume', aliases: ['quart', 'quarts', 'qt', 'qts'] },
+  { key: 'gallon', singular: 'gallon', plural: 'gallons', kind: 'volume', aliases: ['gallon', 'gallons', 'gal'] },
+  // metric volume
+  { key: 'ml', singular: 'ml', plural: 'ml', kind: 'volume', aliases: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { key: 'cl', singular: 'cl', plural: 'cl', kind: 'volume', aliases: ['cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres'] },
+  { key: 'dl', singular: 'dl', plural: 'dl', kind: 'volume', aliases: ['dl', 'deciliter', 'deciliters', 'decilitre', 'decilitres'] },
+  { key: 'l', singular: 'l', plural: 'l', kind: 'volume', aliases: ['l', 'liter', 'liters', 'litre', 'litres'] },
+  // weight
+  { key: 'mg', singular: 'mg', plural: 'mg', kind: 'weight', aliases: ['mg', 'milligram', 'milligrams'] },
+  { key: 'g', singular: 'g', plural: 'g', kind: 'weight', aliases: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'] },
+  { key: 'kg', singular: 'kg', plural: 'kg', kind: 'weight', aliases: ['kg', 'kgs', 'kilogram', 'kilograms', 'kilo', 'kilos'] },
+  { key: 'oz', singular: 'oz', plural: 'oz', kind: 'weight', aliases: ['oz', 'ounce', 'ounces'] },
+  { key: 'lb', singular: 'lb', plural: 'lb', kind: 'weight', aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+  // countable / informal
+  { key: 'pinch', singular: 'pinch', plural: 'pinches', kind: 'count', aliases: ['pinch', 'pinches'] },
+  { key: 'dash', singular: 'dash', plural: 'dashes', kind: 'count', aliases: ['dash', 'dashes'] },
+  { key: 'clove', singular: 'clove', plural: 'cloves', kind: 'count', aliases: ['clove', 'cloves'] },
+  { key: 'can', singular: 'can', plural: 'cans', kind: 'count', aliases: ['can', 'cans', 'tin', 'tins'] },
+  { key: 'stick', singular: 'stick', plural: 'sticks', kind: 'count', aliases: ['stick', 'sticks'] },
+  { key: 'slice', singular: 'slice', plural: 'slices', kind: 'count', aliases: ['slice', 'slices'] },
+  { key: 'piece', singular: 'piece', plural: 'pieces', kind: 'count', aliases: ['piece', 'pieces', 'pc', 'pcs'] },
+  { key: 'package', singular: 'package', plural: 'packages', kind: 'count', aliases: ['package', 'packages', 'pkg', 'pkgs', 'packet', 'packets'] },
+  { key: 'bunch', singular: 'bunch', plural: 'bunches', kind: 'count', aliases: ['bunch', 'bunches'] },
+  { key: 'sprig', singular: 'sprig', plural: 'sprigs', kind: 'count', aliases: ['sprig', 'sprigs'] },
+  { key: 'handful', singular: 'handful', plural: 'handfuls', kind: 'count', aliases: ['handful', 'handfuls'] },
+];
+
+const UNIT_BY_KEY = new Map(UNITS.map((u) => [u.key, u]));
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4',
+  '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5', '⅙': '1/6',
+  '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+// "1", "1.5", "1,5", "1/2", "1 1/2"
+const NUM = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?`;
+const QTY_RE = new RegExp(String.raw`^(${NUM})(?:\s*(?:-|to)\s*(${NUM}))?(?![\d/])\s*`, 'i');
+// "1-1/2" is US shorthand for 1 1/2, not a range
+const HYPHEN_MIXED_RE = /^(\d+)-(\d+)\/(\d+)(?![\d/])/;
+// a package size between the count and the unit: "1 (14 oz) can tomatoes"
+const SIZE_RE = /^\(([^()]*)\)\s*/;
+
+/** Lookup a unit by its canonical key (as saved in the DB). */
+export function getUnit(key: string | null | undefined): UnitDef | null {
+  if (!key) return null;
+  return UNIT_BY_KEY.get(key) ?? null;
+}
+
+/** Resolve user-typed unit text ("Tablespoons", "T", "g") to a unit definition. */
+export function findUnit(text: string): UnitDef | null {
+  const raw = text.trim().replace(/\.$/, '');
+  if (!raw) return null;
+  const lower = raw.toLowerCase();
+  for (const u of UNITS) {
+    for (const a of u.aliases) {
+      // single-letter aliases are case-sensitive (t = tsp, T = tbsp)
+      if (a.length === 1 ? a === raw : a.toLowerCase() === lower) return u;
+    }
+  }
+  return null;
+}
+
+/** Parse "1 1/2", "3/4", "2.5" or "2,5" into a number. */
+export function parseNumber(text: string): number | null {
+  const s = text.trim();
+  const mixed = s.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const den = Number(mixed[3]);
+    return den ? Number(mixed[1]) + Number(mixed[2]) / den : null;
+  }
+  const frac = s.match(/^(\d+)\/(\d+)$/);
+  if (frac) {
+    const den = Number(frac[2]);
+    return den ? Number(frac[1]) / den : null;
+  }
+  const n = Number(s.replace(',', '.'));
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Replace unicode vulgar fractions and dashes with plain ASCII so the regexes stay simple. */
+function normalizeLine(line: string): string {
+  return line
+    .replace(/(\d)?\s*([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_m, whole: string | undefined, f: string) =>
+      whole ? `${whole} ${UNICODE_FRACTIONS[f]}` : ` ${UNICODE_FRACTIONS[f]}`
+    )
+    .replace(/⁄/g, '/')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Try to read a unit at the start of `rest`; returns the unit and the remaining text. */
+function takeUnit(rest: string): { unit: UnitDef | null; rest: string } {
+  const words = rest.split(' ');
+  // two-word units first ("fl oz", "fluid ounces")
+  if (words.length > 1) {
+    const two = findUnit(`${words[0]} ${words[1]}`);
+    if (two) return { unit: two, rest: words.slice(2).join(' ') };
+  }
+  const one = findUnit(words[0] ?? '');
+  // don't treat the last word as a unit ("2 c" alone would leave no item)
+  if (one && words.length > 1) return { unit: one, rest: words.slice(1).join(' ') };
+  return { unit: null, rest };
+}
+
+/** Split "flour, sifted" or "butter (softened)" into item + note. */
+function splitNote(text: string): { item: string; note: string | null } {
+  const comma = text.indexOf(',');
+  if (comma > 0) {
+    return { item: text.slice(0, comma).trim(), note: text.slice(comma + 1).trim() || null };
+  }
+  const paren = text.match(/^(.*\S)\s*\(([^()]*)\)$/);
+  if (paren) return { item: paren[1].trim(), note: paren[2].trim() || null };
+  return { item: text.trim(), note: null };
+}
+
+/**
+ * Parse one ingredient line.
+ *
+ *   "1 1/2 cups flour, sifted" → { quantity: 1.5, unit: 'cup', item_name: 'flour', note: 'sifted' }
+ *   "2-3 cloves garlic"        → { quantity: 2, quantity_max: 3, unit: 'clove', item_name: 'garlic' }
+ *   "200g butter"              → { quantity: 200, unit: 'g', item_name: 'butter' }
+ *   "1-1/2 cups sugar"         → { quantity: 1.5, unit: 'cup', item_name: 'sugar' }
+ *   "1 (14 oz) can tomatoes"   → { quantity: 1, unit: 'can', item_name: 'tomatoes', note: '14 oz' }
+ *   "salt, to taste"           → { quantity: null, unit: null, item_name: 'salt', note: 'to taste' }
+ */
+export function parseIngredientLine(line: string): ParsedIngredient {
+  let rest = normalizeLine(line);
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+  let unit: UnitDef | null = null;
+  let size: string | null = null;
+
+  rest = rest.replace(HYPHEN_MIXED_RE, (whole, n: string, a: string, b: string) =>
+    Number(a) < Number(b) ? `${n} ${a}/${b}` : whole
+  );
+  const m = rest.match(QTY_RE);
+  if (m) {
+    quantity = parseNumber(m[1]);
+    quantityMax = m[2] ? parseNumber(m[2]) : null;
+    if (quantityMax != null && quantity != null && quantityMax <= quantity) quantityMax = null;
+    rest = rest.slice(m[0].length);
+  } else {
+    // "a pinch of salt", "an onion"
+    const article = rest.match(/^an?\s+/i);
+    if (article) {
+      const probe = takeUnit(rest.slice(article[0].length));
+      if (probe.unit) {
+        quantity = 1;
+        rest = rest.slice(article[0].length);
+      }
+    }
+  }
+
+  if (quantity != null) {
+    const sized = rest.match(SIZE_RE);
+    if (sized) {
+      size = sized[1].trim() || null;
+      rest = rest.slice(sized[0].length);
+    }
+    const taken = takeUnit(rest);
+    unit = taken.unit;
+    rest = taken.rest.replace(/^of\s+/i, '');
+  }
+
+  const { item, note } = splitNote(rest);
+
+  // Nothing usable after the numbers ("2") — keep the original text as the item.
+  if (!item) {
+    return { item_name: line.trim(), quantity: null, quantity_max: null, unit: null, note: null };
+  }
+
+  return {
+    item_name: item,
+    quantity,
+    quantity_max: quantityMax,
+    unit: unit?.key ?? null,
+    note: [size, note].filter(Boolean).join(', ') || null,
+  };
+}
+
+// ---------- Formatting (round-trips back into the add-recipe form) ----------
+
+const ASCII_FRACTIONS: [number, string][] = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+  [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8'],
+];
+
+/** 1.5 → "1 1/2", 0.333 → "1/3", 2.25 → "2 1/4", 1.37 → "1.37" */
+export function formatQuantity(n: number): string {
+  const whole = Math.floor(n);
+  const frac = n - whole;
+  if (frac < 0.01) return String(whole);
+  if (frac > 0.99) return String(whole + 1);
+  const hit = ASCII_FRACTIONS.find(([v]) => Math.abs(v - frac) < 0.01);
+  if (hit) return whole ? `${whole} ${hit[1]}` : hit[1];
+  return String(Math.round(n * 100) / 100);
+}
+
+/** Quantity with optional range: (2, 3) → "2-3". */
+export function formatQuantityRange(
+  quantity: number | null | undefined,
+  quantityMax?: number | null,
+  format: (n: number) => string = formatQuantity
+): string {
+  if (quantity == null) return '';
+  return quantityMax != null ? `${format(quantity)}-${format(quantityMax)}` : format(quantity);
+}
+
+/** Display label for a saved unit key, pluralised for amounts above one. */
+export function unitLabel(unit: string | null | undefined, quantity?: number | null): string {
+  if (!unit) return '';
+  const def = getUnit(unit);
+  if (!def) return unit;
+  return quantity != null && quantity > 1 ? def.plural : def.singular;
+}
+
+/** Rebuild an editable line from the stored columns. */
+export function formatIngredientLine(row: {
+  item_name: string;
+  quantity?: number | null;
+  quantity_max?: number | null;
+  unit?: string | null;
+  note?: string | null;
+}): string {
+  const qty = formatQuantityRange(row.quantity, row.quantity_max);
+  const unit = unitLabel(row.unit, row.quantity_max ?? row.quantity);
+  const head = [qty, unit, row.item_name].filter(Boolean).join(' ');
+  return row.note ? `${head}, ${row.note}` : head;
+}
@@ -0,0 +1,153 @@
+// lib/mealPlan.ts
+
+// Weekly meal plan: recipes placed in day × slot cells, stored per user in
+// meal_plan_entries (see README). Weeks start on Monday; dates are local YYYY-MM-DD.
+
+import { supabase } from './supabaseClient';
+import type { PickerRecipe } from './recipeSources';
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// `types` are the RECIPE_TYPE_OPTIONS that suit the slot, best match first
+export const MEAL_SLOTS: { value: MealSlot; label: string; types: string[] }[] = [
+  { value: 'breakfast', label: 'Breakfast', types: ['Breakfast'] },
+  { value: 'lunch', label: 'Lunch', types: ['Lunch', 'Side Dish', 'Appetizer'] },
+  { value: 'dinner', label: 'Dinner', types: ['Dinner', 'Main Dish', 'Side Dish'] },
+  { value: 'snack', label: 'Snack', types: ['Snack', 'Appetizer', 'Dessert', 'Drink'] },
+];
+
+export type PlanEntry = {
+  id: string;
+  plan_date: string;
+  slot: MealSlot;
+  recipe_id: string;
+  created_at: string;
+  recipe: Pick<PickerRecipe, 'id' | 'user_id' | 'title' | 'photo_url' | 'recipe_types'> | null;
+};
+
+// ---------- Dates ----------
+
+export function toDateKey(d: Date): string {
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${m}-${day}`;
+}
+
+export function fromDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function addDays(d: Date, n: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
+}
+
+/** Monday of the week containing `d`. */
+export function startOfWeek(d: Date): Date {
+  return addDays(d, -((d.getDay() + 6) % 7));
+}
+
+export function weekDates(start: Date): Date[] {
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+// ---------- Suggestions ----------
+
+/** 0 = best fit for the slot; larger = weaker; Infinity = not tagged for it. */
+function slotRank(types: string[] | null | undefined, slot: MealSlot): number {
+  const wanted = MEAL_SLOTS.find((s) => s.value === slot)?.types ?? [];
+  const ranks = (types ?? []).map((t) => wanted.indexOf(t)).filter((i) => i >= 0);
+  return ranks.length ? Math.min(...ranks) : Infinity;
+}
+
+export function fitsSlot(types: string[] | null | undefined, slot: MealSlot): boolean {
+  return slotRank(types, slot) !== Infinity;
+}
+
+/** Recipes tagged for the slot first (best match first), then the rest; stable otherwise. */
+export function sortForSlot<T extends { recipe_types: string[] | null }>(recipes: T[], slot: MealSlot): T[] {
+  return recipes
+    .map((r, i) => ({ r, i, rank: slotRank(r.recipe_types, slot) }))
+    .sort((a, b) => (a.rank === b.rank ? a.i - b.i : a.rank < b.rank ? -1 : 1))
+    .map((x) => x.r);
+}
+
+// ---------- Persistence ----------
+
+const ENTRY_COLUMNS = 'id,plan_date,slot,recipe_id,created_at,recipe:recipes(id,user_id,title,photo_url,recipe_types)';
+
+export async function fetchWeekPlan(uid: string, weekStart: Date): Promise<PlanEntry[]> {
+  const { data, error } = await supabase
+    .from('meal_plan_entries')
+    .select(ENTRY_COLUMNS)
+    .eq('user_id', uid)
+    .gte('plan_date', toDateKey(weekStart))
+    .lte('plan_date', toDateKey(addDays(weekStart, 6)))
+    .order('plan_date', { ascending: true })
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return ((data as any[]) ?? []).map((row) => ({
+    ...row,
+    // embedded rows come back as an object (or an array on older clients)
+    recipe: Array.isArray(row.recipe) ? row.recipe[0] ?? null : row.recipe ?? null,
+  }));
+}
+
+export async function addPlanEntry(uid: string, planDate: string, slot: MealSlot, recipeId: string): Promise<void> {
+  const { error } = await supabase.from('meal_plan_entries').insert({
+    user_id: uid,
+    plan_date: planDate,
+    slot,
+    recipe_id: recipeId,
+  });
+  if (error) throw error;
+}
+
+export async function movePlanEntry(id: string, planDate: string, slot: MealSlot): Promise<void> {
+  const { error } = await supabase
+    .from('meal_plan_entries')
+    .update({ plan_date: planDate, slot })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function removePlanEntry(id: string): Promise<void> {
+  const { error } = await supabase.from('meal_plan_entries').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Copy every entry of one week onto another (same weekday and slot).
+ * Entries already in the target week are kept, and a recipe already planned for the same
+ * day and slot isn't added again (so copying twice is harmless); returns how many were copied.
+ */
+export async function copyWeekPlan(uid: string, fromStart: Date, toStart: Date): Promise<number> {
+  const [entries, target] = await Promise.all([fetchWeekPlan(uid, fromStart), fetchWeekPlan(uid, toStart)]);
+  if (!entries.length) return 0;
+  const offset = Math.round((toStart.getTime() - fromStart.getTime()) / 86400000);
+
+  // counted per cell: a recipe planned twice in a slot still copies twice into an empty week
+  const key = (date: string, slot: MealSlot, recipeId: string) => `${date}|${slot}|${recipeId}`;
+  const planned = new Map<string, number>();
+  for (const e of target) {
+    const k = key(e.plan_date, e.slot, e.recipe_id);
+    planned.set(k, (planned.get(k) ?? 0) + 1);
+  }
+
+  const rows = [];
+  for (const e of entries) {
+    const date = toDateKey(addDays(fromDateKey(e.plan_date), offset));
+    const k = key(date, e.slot, e.recipe_id);
+    const left = planned.get(k) ?? 0;
+    if (left > 0) {
+      planned.set(k, left - 1);
+      continue;
+    }
+    rows.push({ user_id: uid, plan_date: date, slot: e.slot, recipe_id: e.recipe_id });
+  }
+  if (!rows.length) return 0;
+
+  const { error } = await supabase.from('meal_plan_entries').insert(rows);
+  if (error) throw error;
+  return rows.length;
+}
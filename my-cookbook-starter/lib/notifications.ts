@@ -0,0 +1,139 @@
+// lib/notifications.ts
+
+// In-app notifications (notifications table, see README). Rows are written by
+// database triggers on friendships, hearts, bookmarks, forks and comments; the client
+// only reads them and marks them read. Changes arrive over a Supabase Realtime
+// channel, with polling as a fallback when the channel can't connect.
+
+import { supabase } from './supabaseClient';
+
+export type NotificationKind =
+  | 'friend_request'
+  | 'friend_accept'
+  | 'heart'
+  | 'bookmark'
+  | 'fork'
+  | 'comment'
+  | 'mention';
+
+export type AppNotification = {
+  id: string;
+  user_id: string;
+  actor_id: string | null;
+  kind: NotificationKind;
+  recipe_id: string | null;
+  comment_id: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+const NOTIFICATION_COLUMNS = 'id,user_id,actor_id,kind,recipe_id,comment_id,read_at,created_at';
+const POLL_MS = 30000;
+const LOCAL_EVENT = 'notifications-changed';
+
+export async function fetchNotifications(uid: string, limit = 50): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('user_id', uid)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as AppNotification[]) ?? [];
+}
+
+export async function fetchUnreadCount(uid: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', uid)
+    .is('read_at', null);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/** Mark some (or, with no ids, all) unread notifications read. */
+export async function markNotificationsRead(uid: string, ids?: string[]): Promise<void> {
+  if (ids && !ids.length) return;
+  let qb = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', uid)
+    .is('read_at', null);
+  if (ids) qb = qb.in('id', ids);
+  const { error } = await qb;
+  if (error) throw error;
+  // tell other listeners in this tab right away (realtime may be slow or down)
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(LOCAL_EVENT));
+}
+
+let channelSeq = 0;
+
+/**
+ * Calls `onChange` whenever the user's notifications change. Listens on a Realtime
+ * channel; until it's subscribed (or after it errors) it polls every 30s instead.
+ */
+export function subscribeNotifications(uid: string, onChange: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  let pollTimer: number | null = null;
+  const startPolling = () => {
+    if (pollTimer == null) pollTimer = window.setInterval(onChange, POLL_MS);
+  };
+  const stopPolling = () => {
+    if (pollTimer != null) window.clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  startPolling();
+  const channel = supabase
+    .channel(`notifications:${uid}:${++channelSeq}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${uid}` },
+      () => onChange()
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        stopPolling();
+        onChange(); // catch anything that landed while connecting
+      } else {
+        startPolling();
+      }
+    });
+
+  window.addEventListener(LOCAL_EVENT, onChange);
+  return () => {
+    stopPolling();
+    window.removeEventListener(LOCAL_EVENT, onChange);
+    void supabase.removeChannel(channel);
+  };
+}
+
+/** "Ann hearted Lasagna" — recipe title left out when it isn't known/visible. */
+export function notificationText(n: AppNotification, actorName: string, recipeTitle: string | null): string {
+  const recipe = recipeTitle ? `“${recipeTitle}”` : 'your recipe';
+  switch (n.kind) {
+    case 'friend_request':
+      return `${actorName} sent you a friend request`;
+    case 'friend_accept':
+      return `${actorName} accepted your friend request`;
+    case 'heart':
+      return `${actorName} hearted ${recipe}`;
+    case 'bookmark':
+      return `${actorName} bookmarked ${recipe}`;
+    case 'fork':
+      return `${actorName} copied ${recipe} into their cookbook`;
+    case 'comment':
+      return `${actorName} commented on ${recipe}`;
+    case 'mention':
+      return recipeTitle ? `${actorName} mentioned you on ${recipe}` : `${actorName} mentioned you in a comment`;
+    default:
+      return `${actorName} did something`;
+  }
+}
+
+/** Friend notifications link to the person; everything else to a recipe. */
+export function isProfileNotification(n: AppNotification): boolean {
+  return n.kind === 'friend_request' || n.kind === 'friend_accept' || !n.recipe_id;
+}
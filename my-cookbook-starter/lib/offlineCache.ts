@@ -0,0 +1,68 @@
+// lib/offlineCache.ts
+
+// Pre-fetch what should open offline: my cookbook, my bookmarked recipes (each with
+// steps, ingredients, author and photo) and this week's meal plan. The requests go
+// through the same helpers the pages use, so the service worker stores them under
+// the URLs those pages will ask for later.
+
+import { fetchBookmarkedRecipes, fetchCookbookRecipes, fetchMyRecipes } from './recipeSources';
+import { fetchWeekPlan, startOfWeek } from './mealPlan';
+import {
+  fetchProfileCard,
+  fetchRecipeCore,
+  fetchRecipeIngredients,
+  fetchRecipeSteps,
+  fetchUnitPreference,
+} from './recipeDetail';
+
+const LAST_WARM_KEY = 'offline-cache:warmed-at';
+const MIN_INTERVAL_MS = 30 * 60 * 1000;
+
+type WarmRecipe = { id: string; user_id: string; photo_url: string | null };
+
+async function warmRecipe(r: WarmRecipe) {
+  await Promise.all([
+    fetchRecipeCore(r.id),
+    fetchRecipeSteps(r.id),
+    fetchRecipeIngredients(r.id),
+    fetchProfileCard(r.user_id),
+    r.photo_url ? fetch(r.photo_url).catch(() => undefined) : undefined,
+  ]);
+}
+
+/**
+ * Warm the service worker's caches for `uid`. Does nothing without an active
+ * worker, while offline, or if it ran in the last 30 minutes (unless `force`).
+ */
+export async function warmOfflineCache(uid: string, force = false): Promise<void> {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker?.controller || !navigator.onLine) return;
+  const last = Number(window.localStorage.getItem(LAST_WARM_KEY) || 0);
+  if (!force && Date.now() - last < MIN_INTERVAL_MS) return;
+  window.localStorage.setItem(LAST_WARM_KEY, String(Date.now()));
+
+  const [cookbook, , bookmarked, plan] = await Promise.all([
+    fetchCookbookRecipes(uid),
+    fetchMyRecipes(uid),
+    fetchBookmarkedRecipes(uid),
+    fetchWeekPlan(uid, startOfWeek(new Date())),
+    fetchUnitPreference(uid),
+  ]);
+
+  const byId = new Map<string, WarmRecipe>();
+  for (const r of [...cookbook, ...bookmarked]) byId.set(r.id, r);
+  for (const e of plan) if (e.recipe) byId.set(e.recipe.id, e.recipe);
+
+  // a few at a time so a big cookbook doesn't flood the connection
+  const queue = Array.from(byId.values());
+  const workers = Array.from({ length: 4 }, async () => {
+    for (let r = queue.shift(); r; r = queue.shift()) await warmRecipe(r);
+  });
+  await Promise.all(workers);
+}
+
+/** Forget cached data (on log out), so the next user starts clean. */
+export function clearOfflineCache(): void {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(LAST_WARM_KEY);
+  navigator.serviceWorker?.controller?.postMessage({ type: 'clear-user-data' });
+}
@@ -0,0 +1,256 @@
+// lib/offlineQueue.ts
+
+// Writes made without a connection: hearts, bookmarks and new recipes are queued in
+// localStorage and replayed in order when the app is back online. Anything the
+// server no longer accepts (recipe deleted or unshared, a same-named recipe added
+// from another device meanwhile, a save that fails) becomes a conflict for the user
+// to resolve in the offline banner instead of being dropped silently.
+
+import { supabase } from './supabaseClient';
+import { saveFullRecipe, type SaveRecipeArgs } from './recipePayload';
+import { copyRecipePhotoToUser, storagePathFromPublicUrl } from './recipePhotos';
+import { emitRecipeMutation, RECIPE_SNAPSHOT_COLUMNS, type RecipeSnapshot } from './recipeSync';
+
+export type QueuedOp =
+  | {
+      id: string;
+      type: 'heart' | 'bookmark';
+      userId: string;
+      recipeId: string;
+      on: boolean; // true = add, false = remove
+      title: string | null;
+      queuedAt: string;
+    }
+  | {
+      id: string;
+      type: 'create_recipe';
+      userId: string;
+      args: SaveRecipeArgs;
+      title: string;
+      queuedAt: string;
+    };
+
+export type SyncConflict = {
+  id: string;
+  op: QueuedOp;
+  message: string;
+  /** Offer "Save anyway"/"Try again" (otherwise the only option is to dismiss). */
+  canRetry: boolean;
+  at: string;
+};
+
+type NewOp =
+  | Omit<Extract<QueuedOp, { type: 'heart' | 'bookmark' }>, 'id' | 'queuedAt'>
+  | Omit<Extract<QueuedOp, { type: 'create_recipe' }>, 'id' | 'queuedAt'>;
+
+const QUEUE_KEY = 'offline-queue:v1';
+const CONFLICTS_KEY = 'offline-conflicts:v1';
+const CHANGED = 'offline-queue-changed';
+
+/* ---------- storage ---------- */
+
+function read<T>(key: string): T[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function write<T>(key: string, list: T[]) {
+  window.localStorage.setItem(key, JSON.stringify(list));
+  window.dispatchEvent(new Event(CHANGED));
+}
+
+export function queuedOps(): QueuedOp[] {
+  return read<QueuedOp>(QUEUE_KEY);
+}
+
+export function syncConflicts(): SyncConflict[] {
+  return read<SyncConflict>(CONFLICTS_KEY);
+}
+
+/** Fires on queue/conflict changes in this tab and others. */
+export function subscribeOfflineQueue(handler: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === QUEUE_KEY || e.key === CONFLICTS_KEY) handler();
+  };
+  window.addEventListener(CHANGED, handler);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(CHANGED, handler);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/* ---------- detecting "offline" ---------- */
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/** supabase-js reports a dropped connection as an error whose message is the fetch TypeError. */
+export function isNetworkError(err: unknown): boolean {
+  const msg = String((err as { message?: string } | null)?.message ?? err ?? '');
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(msg);
+}
+
+/* ---------- queueing ---------- */
+
+/** Queue a write. A heart/bookmark replaces any queued toggle of the same recipe (last tap wins). */
+export function queueOfflineOp(op: NewOp): void {
+  const full = { ...op, id: crypto.randomUUID(), queuedAt: new Date().toISOString() } as QueuedOp;
+  let list = queuedOps();
+  if (full.type !== 'create_recipe') {
+    list = list.filter(
+      (q) => !(q.type === full.type && q.userId === full.userId && q.recipeId === full.recipeId)
+    );
+  }
+  write(QUEUE_KEY, [...list, full]);
+}
+
+function addConflict(op: QueuedOp, message: string, canRetry: boolean) {
+  const c: SyncConflict = { id: op.id, op, message, canRetry, at: new Date().toISOString() };
+  write(CONFLICTS_KEY, [...syncConflicts().filter((x) => x.id !== op.id), c]);
+}
+
+function removeQueued(id: string) {
+  write(
+    QUEUE_KEY,
+    queuedOps().filter((q) => q.id !== id)
+  );
+}
+
+/* ---------- replay ---------- */
+
+type Outcome = { ok: true } | { ok: false; network: true } | { ok: false; network: false; message: string; canRetry: boolean };
+
+const NETWORK: Outcome = { ok: false, network: true };
+
+async function applyReaction(op: Extract<QueuedOp, { type: 'heart' | 'bookmark' }>): Promise<Outcome> {
+  const table = op.type === 'heart' ? 'recipe_hearts' : 'recipe_bookmarks';
+  const what = op.title ? `“${op.title}”` : 'a recipe';
+
+  if (!op.on) {
+    const { error } = await supabase.from(table).delete().eq('recipe_id', op.recipeId).eq('user_id', op.userId);
+    if (error) return isNetworkError(error) ? NETWORK : { ok: false, network: false, message: error.message, canRetry: true };
+    emitRecipeMutation({
+      id: op.recipeId,
+      ...(op.type === 'heart' ? { heartedByMe: false } : { bookmarkedByMe: false }),
+      remote: true,
+    });
+    return { ok: true };
+  }
+
+  // the recipe may have been deleted or unshared while we were offline
+  const { data: still, error: seeErr } = await supabase.from('recipes').select('id').eq('id', op.recipeId).limit(1);
+  if (seeErr) return isNetworkError(seeErr) ? NETWORK : { ok: false, network: false, message: seeErr.message, canRetry: true };
+  if (!still?.length) {
+    return {
+      ok: false,
+      network: false,
+      message: `Couldn’t ${op.type} ${what}: it was deleted or is no longer shared with you.`,
+      canRetry: false,
+    };
+  }
+
+  const { error } = await supabase.from(table).insert({ recipe_id: op.recipeId, user_id: op.userId });
+  // 23505: already there (e.g. done from another device), so it's counted already
+  const existed = error?.code === '23505';
+  if (error && !existed) {
+    return isNetworkError(error) ? NETWORK : { ok: false, network: false, message: error.message, canRetry: true };
+  }
+  const delta = existed ? undefined : 1;
+  emitRecipeMutation({
+    id: op.recipeId,
+    ...(op.type === 'heart' ? { heartedByMe: true, heartDelta: delta } : { bookmarkedByMe: true, bookmarkDelta: delta }),
+    remote: true,
+  });
+  return { ok: true };
+}
+
+async function applyCreate(op: Extract<QueuedOp, { type: 'create_recipe' }>, force: boolean): Promise<Outcome> {
+  if (!force) {
+    // a recipe with the same name added since (say, from another device) is probably this one
+    const { data: dupes, error } = await supabase
+      .from('recipes')
+      .select('id')
+      .eq('user_id', op.userId)
+      .eq('title', op.args.p_title)
+      .gte('created_at', op.queuedAt)
+      .limit(1);
+    if (error) return isNetworkError(error) ? NETWORK : { ok: false, network: false, message: error.message, canRetry: true };
+    if (dupes?.length) {
+      return {
+        ok: false,
+        network: false,
+        message: `“${op.title}” was also added to your cookbook from somewhere else while you were offline.`,
+        canRetry: true,
+      };
+    }
+  }
+
+  try {
+    const args = { ...op.args };
+    // a copy of someone else's recipe gets its own photo, as when saving online
+    if (args.p_forked_from && args.p_photo_url && !storagePathFromPublicUrl(args.p_photo_url)?.startsWith(`${op.userId}/`)) {
+      args.p_photo_url = await copyRecipePhotoToUser(args.p_photo_url, op.userId);
+    }
+    const newId = await saveFullRecipe(args);
+    const { data: saved } = await supabase.from('recipes').select(RECIPE_SNAPSHOT_COLUMNS).eq('id', newId).single();
+    if (saved) emitRecipeMutation({ id: newId, kind: 'created', recipe: saved as RecipeSnapshot });
+    return { ok: true };
+  } catch (e: any) {
+    if (isNetworkError(e)) return NETWORK;
+    return { ok: false, network: false, message: `Couldn’t save “${op.title}”: ${e?.message || 'unknown error'}`, canRetry: true };
+  }
+}
+
+function apply(op: QueuedOp, force = false): Promise<Outcome> {
+  return op.type === 'create_recipe' ? applyCreate(op, force) : applyReaction(op);
+}
+
+let replaying = false;
+
+/**
+ * Replay the signed-in user's queued writes in order. Stops at the first network
+ * failure (the rest wait for the next attempt); other failures become conflicts.
+ */
+export async function replayOfflineQueue(): Promise<void> {
+  if (replaying || isOffline()) return;
+  replaying = true;
+  try {
+    const { data } = await supabase.auth.getSession();
+    const uid = data.session?.user?.id;
+    if (!uid) return;
+
+    for (const op of queuedOps().filter((q) => q.userId === uid)) {
+      const res = await apply(op);
+      if (!res.ok && res.network) break;
+      removeQueued(op.id);
+      if (!res.ok) addConflict(op, res.message, res.canRetry);
+    }
+  } finally {
+    replaying = false;
+  }
+}
+
+/** "Save anyway" / "Try again" on a conflict. Resolves to an error message if it failed again. */
+export async function retryConflict(id: string): Promise<string | null> {
+  const c = syncConflicts().find((x) => x.id === id);
+  if (!c) return null;
+  const res = await apply(c.op, true);
+  if (!res.ok) return res.network ? 'Still offline. Try again once you’re connected.' : res.message;
+  dismissConflict(id);
+  return null;
+}
+
+export function dismissConflict(id: string): void {
+  write(
+    CONFLICTS_KEY,
+    syncConflicts().filter((c) => c.id !== id)
+  );
+}
@@ -0,0 +1,101 @@
+// lib/pantry.ts
+
+// What's in the user's kitchen (pantry_items, see README) and the "what can I cook
+// now" search over it. Postgres normalizes names into item_key (ingredient_key), so
+// "2 cloves garlic, minced" in a recipe and "Garlic" in the pantry meet as "garlic";
+// pantry_matches does the ranking server-side.
+
+import { supabase } from './supabaseClient';
+import { parseIngredientLine } from './ingredientParser';
+import { normalizeItemName } from './shoppingList';
+
+export type PantryItem = {
+  id: string;
+  name: string;
+  item_key: string;
+  created_at: string;
+};
+
+/** A recipe row from pantry_matches: tile fields plus how much of it the pantry covers. */
+export type PantryMatch = {
+  id: string;
+  user_id: string;
+  title: string;
+  cuisine: string | null;
+  photo_url: string | null;
+  source_url: string | null;
+  created_at: string | null;
+  recipe_types: string[] | null;
+  avg_rating: number | null;
+  rating_count: number | null;
+  have_count: number;
+  total_count: number;
+  missing: string[];
+};
+
+const ITEM_COLUMNS = 'id,name,item_key,created_at';
+
+export async function fetchPantry(uid: string): Promise<PantryItem[]> {
+  const { data, error } = await supabase
+    .from('pantry_items')
+    .select(ITEM_COLUMNS)
+    .eq('user_id', uid)
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return (data as PantryItem[]) ?? [];
+}
+
+/** "2 lemons" → "lemons". Items already in the pantry (same item_key) are skipped. */
+export async function addPantryItems(uid: string, lines: string[]): Promise<void> {
+  const names = lines.map((l) => parseIngredientLine(l).item_name.trim()).filter(Boolean);
+  if (!names.length) return;
+  const { error } = await supabase
+    .from('pantry_items')
+    .upsert(names.map((name) => ({ user_id: uid, name })), { onConflict: 'user_id,item_key', ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function removePantryItem(id: string): Promise<void> {
+  const { error } = await supabase.from('pantry_items').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Names from the user's recent shopping list items that aren't in the pantry yet,
+ * bought (checked) ones first, for one-tap adding.
+ */
+export async function fetchRecentShoppingNames(uid: string, pantry: PantryItem[], limit = 12): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('shopping_list_items')
+    .select('item_name,checked,created_at')
+    .eq('user_id', uid)
+    .order('checked', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(60);
+  if (error) throw error;
+
+  const have = new Set(pantry.map((p) => p.item_key));
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const row of (data as { item_name: string }[]) ?? []) {
+    const key = normalizeItemName(row.item_name);
+    if (!key || have.has(key) || seen.has(key)) continue;
+    seen.add(key);
+    out.push(row.item_name);
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+/** Recipes ranked by pantry coverage. `owner` limits to one user's recipes (My Cookbook). */
+export async function fetchPantryMatches(
+  opts: { owner?: string | null; limit?: number; offset?: number } = {}
+): Promise<PantryMatch[]> {
+  const { data, error } = await supabase.rpc('pantry_matches', {
+    p_owner: opts.owner ?? null,
+    p_limit: opts.limit ?? 20,
+    p_offset: opts.offset ?? 0,
+  });
+  if (error) throw error;
+  return (data as PantryMatch[]) ?? [];
+}
@@ -0,0 +1,199 @@
+// lib/publicFetch.ts
+
+// Server-only page fetch for the URL importer (app/api/import). Only public hosts are
+// reachable: every address a name resolves to is checked when the socket connects (so
+// DNS rebinding can't swap in an internal one afterwards), redirects are followed by
+// hand and each hop is checked the same way, and the body is read with a hard byte cap.
+
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import zlib from 'node:zlib';
+import type { Readable } from 'node:stream';
+
+export type PublicFetchOptions = {
+  timeoutMs: number;
+  maxBytes: number;      // after decompression; anything beyond is dropped
+  maxRedirects?: number;
+  headers?: Record<string, string>;
+};
+
+export type PublicFetchResult = { status: number; url: string; body: string };
+
+/** `message` is safe to show to the user. */
+export type PublicFetchError = Error & { code: 'blocked' | 'timeout' | 'redirects' | 'network' };
+
+function fetchError(code: PublicFetchError['code'], message: string): PublicFetchError {
+  return Object.assign(new Error(message), { code });
+}
+
+// ---------- Address checks ----------
+
+function ipv4Parts(ip: string): number[] {
+  return ip.split('.').map(Number);
+}
+
+function isPublicIPv4(ip: string): boolean {
+  const [a, b, c] = ipv4Parts(ip);
+  if (a === 0 || a === 10 || a === 127) return false;
+  if (a === 100 && b >= 64 && b <= 127) return false;           // carrier-grade NAT
+  if (a === 169 && b === 254) return false;                     // link-local, cloud metadata
+  if (a === 172 && b >= 16 && b <= 31) return false;
+  if (a === 192 && b === 168) return false;
+  if (a === 192 && b === 0 && (c === 0 || c === 2)) return false;
+  if (a === 198 && (b === 18 || b === 19)) return false;        // benchmarking
+  if (a === 198 && b === 51 && c === 100) return false;
+  if (a === 203 && b === 0 && c === 113) return false;
+  return a < 224;                                               // multicast, reserved, broadcast
+}
+
+/** "::ffff:7f00:1" → [0, 0, 0, 0, 0, 0xffff, 0x7f00, 1]; null if it isn't IPv6. */
+function ipv6Hextets(ip: string): number[] | null {
+  let s = ip.split('%')[0].toLowerCase();
+  const dotted = s.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (!net.isIPv4(dotted[2])) return null;
+    const [a, b, c, d] = ipv4Parts(dotted[2]);
+    s = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const halves = s.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const fill = halves.length === 2 ? 8 - head.length - tail.length : 0;
+  if (fill < 0 || (halves.length === 1 && head.length !== 8)) return null;
+  const groups = [...head, ...Array(fill).fill('0'), ...tail];
+  if (groups.some((g) => !/^[0-9a-f]{1,4}$/.test(g))) return null;
+  return groups.map((g) => parseInt(g, 16));
+}
+
+function isPublicIPv6(ip: string): boolean {
+  const h = ipv6Hextets(ip);
+  if (!h) return false;
+  const embeddedV4 = () => `${h[6] >> 8}.${h[6] & 0xff}.${h[7] >> 8}.${h[7] & 0xff}`;
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) reach an IPv4 host
+  if (h.slice(0, 5).every((x) => x === 0) && h[5] === 0xffff) return isPublicIPv4(embeddedV4());
+  if (h[0] === 0x64 && h[1] === 0xff9b && h.slice(2, 6).every((x) => x === 0)) return isPublicIPv4(embeddedV4());
+  // otherwise only global unicast (2000::/3), minus documentation, Teredo and 6to4
+  if ((h[0] & 0xe000) !== 0x2000) return false;
+  if (h[0] === 0x2001 && (h[1] === 0x0db8 || h[1] === 0)) return false;
+  return h[0] !== 0x2002;
+}
+
+export function isPublicAddress(ip: string): boolean {
+  if (net.isIPv4(ip)) return isPublicIPv4(ip);
+  if (net.isIPv6(ip)) return isPublicIPv6(ip);
+  return false;
+}
+
+// Used as the socket's `lookup`, so the address checked is the address connected to.
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { all: true, family: options.family ?? 0 }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+    if (!addresses.length || addresses.some((a) => !isPublicAddress(a.address))) {
+      return callback(fetchError('blocked', 'Only public http(s) pages can be imported.'), '', 0);
+    }
+    if ((options as dns.LookupAllOptions).all) {
+      (callback as unknown as (e: null, all: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function checkUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw fetchError('blocked', 'Only public http(s) pages can be imported.');
+  }
+  // IP literals never reach the lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw fetchError('blocked', 'Only public http(s) pages can be imported.');
+  }
+}
+
+// ---------- Fetch ----------
+
+function decoded(res: http.IncomingMessage): Readable {
+  switch ((res.headers['content-encoding'] || '').toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return res.pipe(zlib.createGunzip());
+    case 'deflate':
+      return res.pipe(zlib.createInflate());
+    case 'br':
+      return res.pipe(zlib.createBrotliDecompress());
+    default:
+      return res;
+  }
+}
+
+function requestOnce(
+  url: URL,
+  opts: PublicFetchOptions,
+  signal: AbortSignal
+): Promise<{ status: number; location: string | null; body: string }> {
+  return new Promise((resolve, reject) => {
+    const get = url.protocol === 'https:' ? https.get : http.get;
+    const req = get(
+      url,
+      {
+        lookup: publicLookup,
+        signal,
+        headers: { 'Accept-Encoding': 'gzip, deflate, br', ...opts.headers },
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume();
+          return resolve({ status, location: res.headers.location, body: '' });
+        }
+        const stream = decoded(res);
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let done = false;
+        const finish = () => {
+          if (done) return;
+          done = true;
+          resolve({ status, location: null, body: Buffer.concat(chunks).toString('utf8') });
+        };
+        stream.on('data', (chunk: Buffer) => {
+          if (done) return;
+          const room = opts.maxBytes - size;
+          chunks.push(chunk.length > room ? chunk.subarray(0, room) : chunk);
+          size += Math.min(chunk.length, room);
+          if (size >= opts.maxBytes) {
+            finish();
+            res.destroy(); // stop downloading; the extractor only needs the first few MB
+          }
+        });
+        stream.on('end', finish);
+        stream.on('error', (e) => (done ? undefined : reject(e)));
+      }
+    );
+    req.on('error', reject);
+  });
+}
+
+/** GET a public page, following up to `maxRedirects` redirects. */
+export async function fetchPublicPage(input: string, opts: PublicFetchOptions): Promise<PublicFetchResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), opts.timeoutMs);
+  let url = new URL(input);
+  try {
+    for (let hop = 0; hop <= (opts.maxRedirects ?? 5); hop++) {
+      checkUrl(url);
+      const res = await requestOnce(url, opts, controller.signal);
+      if (res.location == null) return { status: res.status, url: url.toString(), body: res.body };
+      url = new URL(res.location, url);
+    }
+    throw fetchError('redirects', 'The page redirected too many times.');
+  } catch (e: any) {
+    if (e?.code === 'blocked' || e?.code === 'redirects') throw e;
+    if (controller.signal.aborted) throw fetchError('timeout', 'The page took too long to respond.');
+    throw fetchError('network', 'Could not fetch that page.');
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,104 @@
+// lib/recipeBundle.ts
+
+// A recipe with everything needed to render it away from the app:
+// core row, ingredients, steps and the author's name. Used by export.
+
+import { supabase } from './supabaseClient';
+
+export type BundleIngredient = {
+  recipe_id: string;
+  item_name: string;
+  quantity: number | null;
+  quantity_max: number | null;
+  unit: string | null;
+  note: string | null;
+  section_label: string | null;
+  ingredient_order: number | null;
+};
+
+export type BundleStep = {
+  recipe_id: string;
+  step_number: number;
+  body: string;
+  section_label: string | null;
+};
+
+export type RecipeBundle = {
+  id: string;
+  user_id: string;
+  title: string;
+  cuisine: string | null;
+  recipe_types: string[] | null;
+  photo_url: string | null;
+  source_url: string | null;
+  servings: number | null;
+  total_minutes: number | null;
+  dietary_tags: string[] | null;
+  instructions: string | null;
+  created_at: string | null;
+  author_name: string | null;
+  ingredients: BundleIngredient[];
+  steps: BundleStep[];
+};
+
+const RECIPE_COLUMNS =
+  'id,user_id,title,cuisine,recipe_types,photo_url,source_url,servings,total_minutes,dietary_tags,instructions,created_at';
+
+// Keeps `in (…)` URLs short and child rows under PostgREST's default 1000-row cap
+const CHUNK_SIZE = 40;
+
+/** Load full bundles for the given recipe ids (RLS decides what's visible), in the order given. */
+export async function fetchRecipeBundles(ids: string[]): Promise<RecipeBundle[]> {
+  const out: RecipeBundle[] = [];
+  for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+    out.push(...(await fetchChunk(ids.slice(i, i + CHUNK_SIZE))));
+  }
+  return out;
+}
+
+async function fetchChunk(ids: string[]): Promise<RecipeBundle[]> {
+  const { data: recipes, error } = await supabase.from('recipes').select(RECIPE_COLUMNS).in('id', ids);
+  if (error) throw error;
+  const rows = (recipes ?? []) as Omit<RecipeBundle, 'author_name' | 'ingredients' | 'steps'>[];
+  if (!rows.length) return [];
+
+  const visibleIds = rows.map((r) => r.id);
+  const authorIds = Array.from(new Set(rows.map((r) => r.user_id)));
+
+  const [ingRes, stepRes, profRes] = await Promise.all([
+    supabase
+      .from('recipe_ingredients')
+      .select('recipe_id,item_name,quantity,quantity_max,unit,note,section_label,ingredient_order')
+      .in('recipe_id', visibleIds)
+      .order('ingredient_order', { ascending: true }),
+    supabase
+      .from('recipe_steps')
+      .select('recipe_id,step_number,body,section_label')
+      .in('recipe_id', visibleIds)
+      .order('step_number', { ascending: true }),
+    supabase.from('profiles').select('id,display_name,nickname').in('id', authorIds),
+  ]);
+  if (ingRes.error) throw ingRes.error;
+  if (stepRes.error) throw stepRes.error;
+
+  const names = new Map<string, string>();
+  (profRes.data ?? []).forEach((p: { id: string; display_name: string | null; nickname: string | null }) => {
+    const name = p.display_name || p.nickname;
+    if (name) names.set(p.id, name);
+  });
+  const ings = (ingRes.data ?? []) as BundleIngredient[];
+  const steps = (stepRes.data ?? []) as BundleStep[];
+
+  const byId = new Map(
+    rows.map((r) => [
+      r.id,
+      {
+        ...r,
+        author_name: names.get(r.user_id) ?? null,
+        ingredients: ings.filter((i) => i.recipe_id === r.id),
+        steps: steps.filter((s) => s.recipe_id === r.id),
+      },
+    ])
+  );
+  return ids.map((id) => byId.get(id)).filter((b): b is RecipeBundle => !!b);
+}
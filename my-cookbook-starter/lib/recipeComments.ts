@@ -0,0 +1,196 @@
+// lib/recipeComments.ts
+
+// Threaded comments under a recipe (recipe_comments, see README). Replies point at
+// their parent via parent_id; @mentions are stored as profile ids in `mentions` so
+// renames don't break them. RLS mirrors reviews: only people who can see the recipe
+// can read or write its comments, and the recipe owner can delete any of them.
+
+import { supabase } from './supabaseClient';
+
+export type RecipeComment = {
+  id: string;
+  recipe_id: string;
+  user_id: string;
+  parent_id: string | null;
+  body: string;
+  mentions: string[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type CommentNode = RecipeComment & { replies: CommentNode[] };
+
+export type MentionProfile = {
+  id: string;
+  display_name: string | null;
+  nickname: string | null;
+  avatar_url: string | null;
+};
+
+const COMMENT_COLUMNS = 'id,recipe_id,user_id,parent_id,body,mentions,created_at,updated_at';
+
+/** All comments on a recipe, oldest first (threads read top-down). */
+export async function fetchComments(recipeId: string): Promise<RecipeComment[]> {
+  const { data, error } = await supabase
+    .from('recipe_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('recipe_id', recipeId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return ((data as RecipeComment[]) ?? []).map((c) => ({ ...c, mentions: c.mentions ?? [] }));
+}
+
+export async function addComment(
+  uid: string,
+  recipeId: string,
+  body: string,
+  parentId: string | null,
+  mentions: string[]
+): Promise<RecipeComment> {
+  const { data, error } = await supabase
+    .from('recipe_comments')
+    .insert({ recipe_id: recipeId, user_id: uid, parent_id: parentId, body: body.trim(), mentions })
+    .select(COMMENT_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as RecipeComment;
+}
+
+export async function updateComment(id: string, body: string, mentions: string[]): Promise<RecipeComment> {
+  const { data, error } = await supabase
+    .from('recipe_comments')
+    .update({ body: body.trim(), mentions, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select(COMMENT_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as RecipeComment;
+}
+
+/** Deletes a comment; its replies go with it (on delete cascade). */
+export async function deleteComment(id: string): Promise<void> {
+  const { error } = await supabase.from('recipe_comments').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/** Comment totals per recipe (same count-the-rows approach as hearts/bookmarks). */
+export async function fetchCommentCounts(recipeIds: string[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (!recipeIds.length) return counts;
+  const { data, error } = await supabase.from('recipe_comments').select('recipe_id').in('recipe_id', recipeIds);
+  if (error) throw error;
+  ((data as { recipe_id: string }[]) ?? []).forEach((r) => counts.set(r.recipe_id, (counts.get(r.recipe_id) ?? 0) + 1));
+  return counts;
+}
+
+/** Nest a flat, oldest-first list into threads. Orphans (parent not visible) become roots. */
+export function buildThreads(comments: RecipeComment[]): CommentNode[] {
+  const byId = new Map<string, CommentNode>();
+  comments.forEach((c) => byId.set(c.id, { ...c, replies: [] }));
+  const roots: CommentNode[] = [];
+  byId.forEach((node) => {
+    const parent = node.parent_id ? byId.get(node.parent_id) : null;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  });
+  return roots;
+}
+
+/** Ids of a comment and everything under it (what a delete removes). */
+export function threadIds(comments: RecipeComment[], rootId: string): Set<string> {
+  const ids = new Set([rootId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const c of comments) {
+      if (c.parent_id && ids.has(c.parent_id) && !ids.has(c.id)) {
+        ids.add(c.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/* ---------- @mentions ---------- */
+
+/** The name inserted after "@" when a person is picked. */
+export function mentionName(p: Pick<MentionProfile, 'display_name' | 'nickname'>): string {
+  return (p.display_name || p.nickname || '').trim();
+}
+
+/** The "@partial" being typed right before the caret, if any. */
+export function activeMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const m = text.slice(0, caret).match(/(^|\s)@([^\s@]{0,30})$/);
+  if (!m) return null;
+  return { start: caret - m[2].length - 1, query: m[2] };
+}
+
+/** People matching a partial name, via the same lookup as Community → Users. */
+export async function searchMentionCandidates(query: string, limit = 5): Promise<MentionProfile[]> {
+  const { data, error } = await supabase.rpc('search_users', {
+    q: query || null,
+    limit_count: limit,
+    offset_count: 0,
+  });
+  if (error) throw error;
+  return (data as MentionProfile[]) ?? [];
+}
+
+/**
+ * Profile ids mentioned in `body`. People picked from the suggestions are matched by
+ * their inserted name; any other "@word" is looked up through search_users and kept
+ * only on an exact (case-insensitive) display name or nickname match.
+ */
+export async function resolveMentions(body: string, picked: MentionProfile[]): Promise<string[]> {
+  const ids = new Set<string>();
+  let rest = body;
+  for (const p of picked) {
+    const token = `@${mentionName(p)}`;
+    if (mentionName(p) && rest.includes(token)) {
+      ids.add(p.id);
+      rest = rest.split(token).join(' ');
+    }
+  }
+
+  const words = Array.from(new Set(Array.from(rest.matchAll(/(?:^|\s)@([\w.-]{2,30})/g)).map((m) => m[1])));
+  for (const w of words) {
+    try {
+      const found = await searchMentionCandidates(w, 5);
+      const hit = found.find(
+        (p) =>
+          p.display_name?.toLowerCase() === w.toLowerCase() || p.nickname?.toLowerCase() === w.toLowerCase()
+      );
+      if (hit) ids.add(hit.id);
+    } catch {
+      // unresolved mentions just stay plain text
+    }
+  }
+  return Array.from(ids);
+}
+
+export type CommentPart = { text: string; mention?: MentionProfile };
+
+/** Split a comment into text and mention pieces for rendering links. */
+export function splitMentions(body: string, people: MentionProfile[]): CommentPart[] {
+  const tokens = people
+    .map((p) => ({ p, token: `@${mentionName(p)}` }))
+    .filter((t) => t.token.length > 1)
+    .sort((a, b) => b.token.length - a.token.length); // longest first so "@Ann Lee" beats "@Ann"
+  const parts: CommentPart[] = [];
+  let i = 0;
+  let plainStart = 0;
+  while (i < body.length) {
+    const hit = body[i] === '@' ? tokens.find((t) => body.startsWith(t.token, i)) : undefined;
+    if (hit) {
+      if (i > plainStart) parts.push({ text: body.slice(plainStart, i) });
+      parts.push({ text: hit.token, mention: hit.p });
+      i += hit.token.length;
+      plainStart = i;
+    } else {
+      i += 1;
+    }
+  }
+  if (plainStart < body.length) parts.push({ text: body.slice(plainStart) });
+  return parts;
+}
@@ -0,0 +1,43 @@
+// lib/recipeDetail.ts
+
+// The reads RecipeModal makes to show one recipe. They live here so the offline
+// warm-up (lib/offlineCache.ts) issues byte-identical requests: the service worker
+// caches Supabase reads by URL, so any drift would miss the cache when offline.
+
+import { supabase } from './supabaseClient';
+
+export const RECIPE_DETAIL_COLUMNS =
+  'id,user_id,title,cuisine,photo_url,source_url,created_at,servings,total_minutes,dietary_tags,instructions,forked_from,shared_cookbook_id';
+
+export function fetchRecipeCore(recipeId: string) {
+  return supabase.from('recipes').select(RECIPE_DETAIL_COLUMNS).eq('id', recipeId).single();
+}
+
+export function fetchRecipeSteps(recipeId: string) {
+  return supabase
+    .from('recipe_steps')
+    .select('step_number,body,section_label')
+    .eq('recipe_id', recipeId)
+    .order('step_number');
+}
+
+export function fetchRecipeIngredients(recipeId: string) {
+  return supabase
+    .from('recipe_ingredients')
+    .select('item_name,quantity,quantity_max,unit,note,section_label,ingredient_order')
+    .eq('recipe_id', recipeId)
+    .order('ingredient_order', { ascending: true });
+}
+
+/** Name + avatar for an author line. */
+export function fetchProfileCard(userId: string) {
+  return supabase
+    .from('profiles')
+    .select('id, display_name, nickname, avatar_url')
+    .eq('id', userId)
+    .limit(1);
+}
+
+export function fetchUnitPreference(userId: string) {
+  return supabase.from('profiles').select('unit_system').eq('id', userId).limit(1);
+}
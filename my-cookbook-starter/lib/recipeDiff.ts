@@ -0,0 +1,91 @@
+// lib/recipeDiff.ts
+
+// Side-by-side diff of two recipe versions. Each version is flattened to display lines
+// (title, details, then ingredients and steps per section) and compared line by line.
+
+import { formatIngredientForDisplay } from './ingredientDisplay';
+import { groupRecipeSections } from './recipeSections';
+import type { RecipeSnapshot, SnapshotIngredient, SnapshotStep } from './recipeRevisions';
+
+export type DiffLine = { text: string; heading?: boolean };
+
+export type DiffRow =
+  | { kind: 'same'; left: DiffLine; right: DiffLine }
+  | { kind: 'changed'; left: DiffLine; right: DiffLine }
+  | { kind: 'removed'; left: DiffLine; right: null }
+  | { kind: 'added'; left: null; right: DiffLine };
+
+/** Flatten a snapshot into the lines shown in the history view. */
+export function snapshotLines(snap: RecipeSnapshot): DiffLine[] {
+  const out: DiffLine[] = [
+    { text: `Title: ${snap.title}` },
+    { text: `Cuisine: ${snap.cuisine || '—'}` },
+    { text: `Types: ${(snap.recipe_types ?? []).join(', ') || '—'}` },
+    { text: `Servings: ${snap.servings ?? '—'}` },
+  ];
+  const sections = groupRecipeSections<SnapshotIngredient, SnapshotStep>(snap.ingredients, snap.steps, snap.instructions);
+  const labelled = !(sections.length === 1 && sections[0].name === 'Main');
+
+  out.push({ text: 'Ingredients', heading: true });
+  sections.forEach((s) => {
+    if (!s.ingredients.length) return;
+    if (labelled) out.push({ text: `${s.name}:`, heading: true });
+    s.ingredients.forEach((i) => {
+      const { text, note } = formatIngredientForDisplay(i);
+      out.push({ text: note ? `• ${text} (${note})` : `• ${text}` });
+    });
+  });
+
+  out.push({ text: 'Instructions', heading: true });
+  sections.forEach((s) => {
+    if (!s.steps.length) return;
+    if (labelled) out.push({ text: `${s.name}:`, heading: true });
+    s.steps.forEach((st, idx) => out.push({ text: `${idx + 1}. ${st.body}` }));
+  });
+  return out;
+}
+
+/**
+ * Line diff via longest common subsequence. Runs of removed lines followed by added
+ * lines are paired up as "changed" so edits sit next to each other.
+ */
+export function diffLines(a: DiffLine[], b: DiffLine[]): DiffRow[] {
+  const n = a.length;
+  const m = b.length;
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].text === b[j].text ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) rows.push({ kind: 'changed', left: removed[k], right: added[k] });
+    removed.slice(paired).forEach((l) => rows.push({ kind: 'removed', left: l, right: null }));
+    added.slice(paired).forEach((r) => rows.push({ kind: 'added', left: null, right: r }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i].text === b[j].text) {
+      flush();
+      rows.push({ kind: 'same', left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+  return rows;
+}
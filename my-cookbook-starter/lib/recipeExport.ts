@@ -0,0 +1,321 @@
+// lib/recipeExport.ts
+
+// Export recipes as schema.org JSON-LD, Markdown or a printable HTML page,
+// and a whole cookbook as a zip (all three formats + photos).
+
+import { formatIngredientForDisplay } from './ingredientDisplay';
+import { downloadRecipePhoto, photoExtension } from './recipePhotos';
+import { groupRecipeSections, hideSectionLabel } from './recipeSections';
+import type { BundleIngredient, BundleStep, RecipeBundle } from './recipeBundle';
+
+export type ExportFormat = 'jsonld' | 'markdown' | 'print';
+
+export const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'jsonld', label: 'JSON-LD (schema.org)' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'print', label: 'Print / save as PDF' },
+];
+
+// ---------- Shared helpers ----------
+
+/** "Grandma's Lasagna!" → "grandmas-lasagna" */
+export function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || 'recipe';
+}
+
+function ingredientText(i: BundleIngredient): string {
+  const { text, note } = formatIngredientForDisplay(i);
+  return note ? `${text} (${note})` : text;
+}
+
+function sectionsOf(r: RecipeBundle) {
+  return groupRecipeSections<BundleIngredient, BundleStep>(r.ingredients, r.steps, r.instructions);
+}
+
+function metaLine(r: RecipeBundle): string {
+  return [
+    r.cuisine,
+    (r.recipe_types ?? []).join(', ') || null,
+    r.servings ? `Serves ${r.servings}` : null,
+    r.author_name ? `By ${r.author_name}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+// ---------- JSON-LD ----------
+
+/**
+ * schema.org Recipe. recipeIngredient is the flat list every consumer understands;
+ * each HowToSection also carries its own recipeIngredient so components survive a
+ * round trip through our importer.
+ */
+export function recipeToJsonLd(r: RecipeBundle, opts: { imageUrl?: string | null } = {}): Record<string, unknown> {
+  const sections = sectionsOf(r);
+  const image = opts.imageUrl !== undefined ? opts.imageUrl : r.photo_url;
+  const howToSteps = (steps: BundleStep[]) => steps.map((s) => ({ '@type': 'HowToStep', text: s.body }));
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: r.title,
+    ...(image ? { image } : {}),
+    ...(r.author_name ? { author: { '@type': 'Person', name: r.author_name } } : {}),
+    ...(r.created_at ? { datePublished: r.created_at.slice(0, 10) } : {}),
+    ...(r.cuisine ? { recipeCuisine: r.cuisine } : {}),
+    ...(r.recipe_types?.length ? { recipeCategory: r.recipe_types } : {}),
+    ...(r.servings ? { recipeYield: `${r.servings} servings` } : {}),
+    ...(r.source_url ? { isBasedOn: r.source_url } : {}),
+    recipeIngredient: sections.flatMap((s) => s.ingredients.map(ingredientText)),
+    recipeInstructions: hideSectionLabel(sections)
+      ? howToSteps(sections[0].steps)
+      : sections.map((s) => ({
+          '@type': 'HowToSection',
+          name: s.name,
+          recipeIngredient: s.ingredients.map(ingredientText),
+          itemListElement: howToSteps(s.steps),
+        })),
+  };
+}
+
+// ---------- Markdown ----------
+
+export function recipeToMarkdown(r: RecipeBundle, opts: { imageUrl?: string | null } = {}): string {
+  const sections = sectionsOf(r);
+  const noLabels = hideSectionLabel(sections);
+  const image = opts.imageUrl !== undefined ? opts.imageUrl : r.photo_url;
+  const out: string[] = [`# ${r.title}`, ''];
+
+  if (image) out.push(`![${r.title}](${image})`, '');
+  const meta = metaLine(r);
+  if (meta) out.push(`*${meta}*`, '');
+  if (r.source_url) out.push(`Source: <${r.source_url}>`, '');
+
+  out.push('## Ingredients', '');
+  sections.forEach((s) => {
+    if (!s.ingredients.length) return;
+    if (!noLabels) out.push(`### ${s.name}`, '');
+    s.ingredients.forEach((i) => out.push(`- ${ingredientText(i)}`));
+    out.push('');
+  });
+
+  out.push('## Instructions', '');
+  sections.forEach((s) => {
+    if (!s.steps.length) return;
+    if (!noLabels) out.push(`### ${s.name}`, '');
+    s.steps.forEach((step, idx) => out.push(`${idx + 1}. ${step.body}`));
+    out.push('');
+  });
+
+  return out.join('\n').trimEnd() + '\n';
+}
+
+// ---------- Printable HTML ----------
+
+function esc(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const PRINT_CSS = `
+  *{box-sizing:border-box}
+  body{font:15px/1.5 Georgia,'Times New Roman',serif;color:#111;margin:0;background:#f5f5f4}
+  main{max-width:760px;margin:0 auto;padding:24px}
+  article{background:#fff;border:1px solid #e7e5e4;border-radius:10px;padding:28px;margin-bottom:24px}
+  h1{font-size:28px;margin:0 0 4px}
+  h2{font:700 13px/1.2 system-ui,sans-serif;text-transform:uppercase;letter-spacing:.08em;color:#57534e;margin:20px 0 8px}
+  h3{font-size:16px;margin:12px 0 4px}
+  .meta{color:#57534e;font-style:italic;margin:0 0 12px}
+  .photo{width:100%;max-height:360px;object-fit:cover;border-radius:8px;margin:8px 0 12px}
+  .cols{display:grid;grid-template-columns:1fr 1.6fr;gap:24px}
+  ul,ol{margin:0;padding-left:20px}
+  li{margin:2px 0;break-inside:avoid}
+  .source{font-size:12px;color:#57534e;margin-top:16px;word-break:break-all}
+  .toolbar{position:sticky;top:0;background:#111;color:#fff;padding:10px 16px;display:flex;gap:12px;align-items:center;font:14px system-ui,sans-serif}
+  .toolbar button{padding:6px 12px;border-radius:6px;border:none;background:#4CAF50;color:#fff;cursor:pointer}
+  @media (max-width:600px){.cols{grid-template-columns:1fr}}
+  @media print{
+    @page{margin:16mm}
+    body{background:#fff;font-size:12pt}
+    main{max-width:none;padding:0}
+    .toolbar{display:none}
+    article{border:none;border-radius:0;padding:0;margin:0;break-after:page}
+    article:last-child{break-after:auto}
+    .photo{max-height:80mm}
+    h2,h3{break-after:avoid}
+    a{color:inherit;text-decoration:none}
+  }
+`;
+
+function recipeArticle(r: RecipeBundle, imageUrl: string | null): string {
+  const sections = sectionsOf(r);
+  const noLabels = hideSectionLabel(sections);
+  const meta = metaLine(r);
+
+  const ingredientHtml = sections
+    .filter((s) => s.ingredients.length)
+    .map(
+      (s) =>
+        (noLabels ? '' : `<h3>${esc(s.name)}</h3>`) +
+        `<ul>${s.ingredients.map((i) => `<li>${esc(ingredientText(i))}</li>`).join('')}</ul>`
+    )
+    .join('');
+  const stepHtml = sections
+    .filter((s) => s.steps.length)
+    .map(
+      (s) =>
+        (noLabels ? '' : `<h3>${esc(s.name)}</h3>`) +
+        `<ol>${s.steps.map((st) => `<li>${esc(st.body)}</li>`).join('')}</ol>`
+    )
+    .join('');
+
+  return [
+    '<article>',
+    `<h1>${esc(r.title)}</h1>`,
+    meta ? `<p class="meta">${esc(meta)}</p>` : '',
+    imageUrl ? `<img class="photo" src="${esc(imageUrl)}" alt="${esc(r.title)}">` : '',
+    '<div class="cols">',
+    `<section><h2>Ingredients</h2>${ingredientHtml || '<p>No ingredients.</p>'}</section>`,
+    `<section><h2>Instructions</h2>${stepHtml || '<p>No instructions.</p>'}</section>`,
+    '</div>',
+    r.source_url ? `<p class="source">Source: ${esc(r.source_url)}</p>` : '',
+    '</article>',
+  ].join('');
+}
+
+/**
+ * A standalone HTML document for one or more recipes, one per printed page.
+ * `imageUrls` overrides photo_url per recipe id (relative paths inside the zip).
+ */
+export function recipesToPrintHtml(
+  recipes: RecipeBundle[],
+  opts: { title?: string; imageUrls?: Map<string, string | null> } = {}
+): string {
+  const title = opts.title ?? (recipes.length === 1 ? recipes[0].title : 'My Cookbook');
+  const articles = recipes
+    .map((r) => recipeArticle(r, opts.imageUrls?.has(r.id) ? opts.imageUrls.get(r.id)! : r.photo_url))
+    .join('\n');
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${esc(title)}</title>
+<style>${PRINT_CSS}</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button><span>${recipes.length} recipe${recipes.length === 1 ? '' : 's'}</span></div>
+<main>
+${articles}
+</main>
+</body>
+</html>
+`;
+}
+
+// ---------- Delivering files ----------
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+}
+
+/** Download a single recipe as JSON-LD or Markdown. */
+export function downloadRecipe(r: RecipeBundle, format: Exclude<ExportFormat, 'print'>) {
+  const slug = slugify(r.title);
+  if (format === 'jsonld') {
+    const json = JSON.stringify(recipeToJsonLd(r), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/ld+json' }), `${slug}.jsonld`);
+  } else {
+    downloadBlob(new Blob([recipeToMarkdown(r)], { type: 'text/markdown' }), `${slug}.md`);
+  }
+}
+
+/**
+ * Show the print view in a window opened beforehand. Open it synchronously in the
+ * click handler (window.open('', '_blank')) so popup blockers allow it.
+ */
+export function writePrintWindow(win: Window, recipes: RecipeBundle[], title?: string) {
+  win.document.open();
+  win.document.write(recipesToPrintHtml(recipes, { title }));
+  win.document.close();
+}
+
+// ---------- Cookbook zip ----------
+
+/**
+ * my-cookbook.zip
+ *   index.html            printable view of every recipe
+ *   recipes.jsonld        schema.org @graph of every recipe
+ *   markdown/<slug>.md    one file per recipe
+ *   photos/<slug>.<ext>   photos from the recipe-photos bucket
+ * Photos that can't be downloaded keep their original URL.
+ */
+export async function buildCookbookZip(
+  recipes: RecipeBundle[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+
+  const used = new Set<string>();
+  const slugs = new Map<string, string>();
+  recipes.forEach((r) => {
+    const base = slugify(r.title);
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+    used.add(slug);
+    slugs.set(r.id, slug);
+  });
+
+  // photo path relative to the zip root, per recipe
+  const photoPaths = new Map<string, string | null>();
+  let done = 0;
+  for (const r of recipes) {
+    if (r.photo_url) {
+      const blob = await downloadRecipePhoto(r.photo_url);
+      if (blob) {
+        const path = `photos/${slugs.get(r.id)}.${photoExtension(blob, r.photo_url)}`;
+        zip.file(path, blob);
+        photoPaths.set(r.id, path);
+      }
+    }
+    onProgress?.(++done, recipes.length);
+  }
+
+  const graph = recipes.map((r) => {
+    const node = recipeToJsonLd(r, { imageUrl: photoPaths.get(r.id) ?? r.photo_url });
+    delete node['@context'];
+    return node;
+  });
+  zip.file('recipes.jsonld', JSON.stringify({ '@context': 'https://schema.org', '@graph': graph }, null, 2));
+
+  recipes.forEach((r) => {
+    const photo = photoPaths.get(r.id);
+    zip.file(
+      `markdown/${slugs.get(r.id)}.md`,
+      recipeToMarkdown(r, { imageUrl: photo ? `../${photo}` : r.photo_url })
+    );
+  });
+
+  zip.file('index.html', recipesToPrintHtml(recipes, { title: 'My Cookbook', imageUrls: photoPaths }));
+
+  return zip.generateAsync({ type: 'blob' });
+}
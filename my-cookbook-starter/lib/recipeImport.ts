@@ -0,0 +1,345 @@
+// lib/recipeImport.ts
+
+// Extracts a schema.org Recipe from a web page's HTML (JSON-LD first, microdata as a
+// fallback). Pure string-in / object-out, so it runs the same in the API route and
+// against saved HTML files offline.
+
+export type ImportedComponent = {
+  title: string;          // 'Main' when the source has no sections
+  ingredients: string[];  // one line per ingredient, as written on the page
+  steps: string[];
+};
+
+export type ImportedRecipe = {
+  title: string;
+  cuisine: string | null;
+  imageUrl: string | null;
+  sourceUrl: string | null;
+  servings: number | null;
+  categories: string[];   // raw recipeCategory values
+  components: ImportedComponent[];
+};
+
+// Parsed JSON-LD; pages put almost anything anywhere, so every access is checked
+type Json = string | number | boolean | null | Json[] | JsonObject;
+type JsonObject = { [key: string]: Json | undefined };
+
+// ---------- Text helpers ----------
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  frac12: '½', frac14: '¼', frac34: '¾', deg: '°', ndash: '–', mdash: '—',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', hellip: '…',
+};
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (m, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? m;
+  });
+}
+
+/** Strip tags, decode entities and collapse whitespace. */
+export function cleanText(s: string | null | undefined): string {
+  if (!s) return '';
+  return decodeEntities(
+    String(s)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|li|div)>/gi, '\n')
+      // inline formatting sits inside words and sentences ("bake <em>60 minutes</em>.")
+      .replace(/<\/?(a|b|i|em|strong|span|small|sup|sub|u)\b[^>]*>/gi, '')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .split('\n')
+    .map((l) => l.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function asArray<T>(v: T | T[] | null | undefined): T[] {
+  if (v == null) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+function isObject(v: Json | undefined): v is JsonObject {
+  return v != null && typeof v === 'object' && !Array.isArray(v);
+}
+
+/** A JSON value as text ('' for objects, arrays and null). */
+function str(v: Json | undefined): string {
+  return typeof v === 'string' ? v : typeof v === 'number' ? String(v) : '';
+}
+
+function resolveUrl(u: string | null | undefined, base: string | null): string | null {
+  if (!u) return null;
+  try {
+    return new URL(u, base ?? undefined).toString();
+  } catch {
+    return null;
+  }
+}
+
+/** "Serves 4-6", ["4", "4 servings"], 8 → 4 / 4 / 8 */
+export function parseYield(v: Json | undefined): number | null {
+  for (const item of asArray(v)) {
+    const m = String(item ?? '').match(/\d+/);
+    if (m) {
+      const n = Number(m[0]);
+      if (n > 0 && n < 1000) return n;
+    }
+  }
+  return null;
+}
+
+// ---------- JSON-LD ----------
+
+function hasType(node: Json | undefined, type: string): boolean {
+  if (!isObject(node)) return false;
+  return asArray(node['@type']).some((x) => typeof x === 'string' && x.replace(/^.*[/:]/, '') === type);
+}
+
+function findRecipeNode(node: Json | undefined): JsonObject | null {
+  if (Array.isArray(node)) {
+    for (const n of node) {
+      const hit = findRecipeNode(n);
+      if (hit) return hit;
+    }
+    return null;
+  }
+  if (!isObject(node)) return null;
+  if (hasType(node, 'Recipe')) return node;
+  if (node['@graph']) return findRecipeNode(node['@graph']);
+  if (node.mainEntity) return findRecipeNode(node.mainEntity);
+  return null;
+}
+
+function jsonLdBlocks(html: string): Json[] {
+  const out: Json[] = [];
+  const re = /<script[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html))) {
+    const raw = m[1].replace(/^\s*<!--|-->\s*$/g, '').replace(/^\s*\/\/<!\[CDATA\[|\/\/\]\]>\s*$/g, '').trim();
+    try {
+      out.push(JSON.parse(raw) as Json);
+    } catch {
+      // Some sites emit invalid JSON (raw newlines in strings); try once more with them escaped
+      try {
+        out.push(JSON.parse(raw.replace(/[\r\n\t]+/g, ' ')) as Json);
+      } catch {
+        // ignore unparsable block
+      }
+    }
+  }
+  return out;
+}
+
+function textOfStep(step: Json | undefined): string[] {
+  if (typeof step === 'string') return cleanText(step).split('\n');
+  if (isObject(step) && (hasType(step, 'HowToStep') || step.text || step.name)) {
+    return cleanText(str(step.text ?? step.name)).split('\n');
+  }
+  return [];
+}
+
+type ParsedSection = { title: string; steps: string[]; ingredients?: string[] };
+
+/** recipeInstructions → components (one per HowToSection, else a single 'Main'). */
+function instructionSections(instr: Json | undefined): ParsedSection[] {
+  const sections: ParsedSection[] = [];
+  const loose: string[] = [];
+  for (const item of asArray(instr)) {
+    if (isObject(item) && hasType(item, 'HowToSection')) {
+      const steps = asArray(item.itemListElement).flatMap(textOfStep).filter(Boolean);
+      // our own export also lists each section's ingredients on the section
+      const ingredients = asArray(item.recipeIngredient).map((x) => cleanText(str(x))).filter(Boolean);
+      sections.push({ title: cleanText(str(item.name)) || `Part ${sections.length + 1}`, steps, ingredients });
+    } else if (isObject(item) && item.itemListElement) {
+      loose.push(...asArray(item.itemListElement).flatMap(textOfStep));
+    } else {
+      loose.push(...textOfStep(item));
+    }
+  }
+  const looseSteps = loose.map((s) => s.trim()).filter(Boolean);
+  if (looseSteps.length) sections.unshift({ title: 'Main', steps: looseSteps });
+  return sections;
+}
+
+function imageFrom(v: Json | undefined, base: string | null): string | null {
+  for (const img of asArray(v)) {
+    if (typeof img === 'string') return resolveUrl(img, base);
+    if (isObject(img)) {
+      const u = img.url ?? img.contentUrl ?? img['@id'];
+      if (typeof u === 'string') return resolveUrl(u, base);
+    }
+  }
+  return null;
+}
+
+function listOfStrings(v: Json | undefined): string[] {
+  return asArray(v)
+    .flatMap((x) => (typeof x === 'string' ? x.split(/\s*,\s*/) : []))
+    .map((x) => cleanText(x))
+    .filter(Boolean);
+}
+
+function fromJsonLd(node: JsonObject, pageUrl: string | null): ImportedRecipe {
+  const ingredients = asArray(node.recipeIngredient ?? node.ingredients)
+    .map((x) => cleanText(isObject(x) ? str(x.name) : str(x)))
+    .filter(Boolean);
+  return buildRecipe({
+    title: cleanText(str(node.name)),
+    cuisine: listOfStrings(node.recipeCuisine).join(', ') || null,
+    imageUrl: imageFrom(node.image, pageUrl),
+    servings: parseYield(node.recipeYield),
+    categories: listOfStrings(node.recipeCategory),
+    ingredients,
+    sections: instructionSections(node.recipeInstructions),
+    pageUrl,
+  });
+}
+
+// ---------- Microdata (fallback) ----------
+
+/** Inner HTML of the element whose opening tag starts at `start`, honouring nesting of the same tag. */
+function innerHtmlAt(html: string, start: number, tag: string): string {
+  const openEnd = html.indexOf('>', start);
+  if (openEnd === -1) return '';
+  const re = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  re.lastIndex = openEnd + 1;
+  let depth = 1;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html))) {
+    depth += m[1] ? -1 : 1;
+    if (depth === 0) return html.slice(openEnd + 1, m.index);
+  }
+  return html.slice(openEnd + 1);
+}
+
+function attr(tagHtml: string, name: string): string | null {
+  const m = tagHtml.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return m ? decodeEntities(m[1] ?? m[2] ?? m[3] ?? '') : null;
+}
+
+/** All values for an itemprop: content/src/href attributes, else the element's text. */
+function microdataValues(html: string, prop: string): { text: string; inner: string }[] {
+  const out: { text: string; inner: string }[] = [];
+  const re = new RegExp(`<([a-z0-9]+)\\b[^>]*\\bitemprop\\s*=\\s*["']?[^"'>]*\\b${prop}\\b[^>]*>`, 'gi');
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html))) {
+    const tag = m[1].toLowerCase();
+    const open = m[0];
+    const direct = attr(open, 'content') ?? (tag === 'img' ? attr(open, 'src') : null) ?? (tag === 'link' || tag === 'a' ? attr(open, 'href') : null);
+    if (direct != null || ['meta', 'img', 'link'].includes(tag)) {
+      out.push({ text: (direct ?? '').trim(), inner: '' });
+      continue;
+    }
+    const inner = innerHtmlAt(html, m.index, tag);
+    out.push({ text: cleanText(inner), inner });
+  }
+  return out;
+}
+
+function fromMicrodata(html: string, pageUrl: string | null): ImportedRecipe | null {
+  const scopeIdx = html.search(/itemtype\s*=\s*["']?https?:\/\/schema\.org\/Recipe\b/i);
+  if (scopeIdx === -1) return null;
+  const scope = html.slice(html.lastIndexOf('<', scopeIdx));
+
+  const first = (prop: string) => microdataValues(scope, prop)[0]?.text || '';
+  const ingredients = [...microdataValues(scope, 'recipeIngredient'), ...microdataValues(scope, 'ingredients')]
+    .map((v) => v.text.replace(/\n/g, ' '))
+    .filter(Boolean);
+
+  const steps = microdataValues(scope, 'recipeInstructions').flatMap((v) => {
+    // A single recipeInstructions block often wraps an <ol>; split it per <li>
+    const lis = v.inner.match(/<li\b[\s\S]*?<\/li>/gi);
+    return lis ? lis.map((li) => cleanText(li)) : v.text.split('\n');
+  });
+
+  return buildRecipe({
+    title: first('name'),
+    cuisine: first('recipeCuisine') || null,
+    imageUrl: resolveUrl(first('image'), pageUrl),
+    servings: parseYield(first('recipeYield')),
+    categories: listOfStrings(microdataValues(scope, 'recipeCategory').map((v) => v.text)),
+    ingredients,
+    sections: steps.length ? [{ title: 'Main', steps }] : [],
+    pageUrl,
+  });
+}
+
+// ---------- Assembly ----------
+
+function buildRecipe(x: {
+  title: string;
+  cuisine: string | null;
+  imageUrl: string | null;
+  servings: number | null;
+  categories: string[];
+  ingredients: string[];
+  sections: ParsedSection[];
+  pageUrl: string | null;
+}): ImportedRecipe {
+  const sections: ParsedSection[] = x.sections.length ? x.sections : [{ title: 'Main', steps: [] }];
+  const perSection = sections.some((s) => s.ingredients?.length);
+  // schema.org keeps one flat ingredient list; it goes with the first component
+  // unless the sections list their own
+  const components: ImportedComponent[] = sections.map((s, i) => ({
+    title: s.title,
+    ingredients: perSection ? s.ingredients ?? [] : i === 0 ? x.ingredients : [],
+    steps: s.steps.map((t) => t.trim()).filter(Boolean),
+  }));
+  return {
+    title: x.title,
+    cuisine: x.cuisine,
+    imageUrl: x.imageUrl,
+    sourceUrl: x.pageUrl,
+    servings: x.servings,
+    categories: x.categories,
+    components,
+  };
+}
+
+/** Extract the first schema.org Recipe from a page, or null if there isn't one. */
+export function extractRecipeFromHtml(html: string, pageUrl: string | null = null): ImportedRecipe | null {
+  for (const block of jsonLdBlocks(html)) {
+    const node = findRecipeNode(block);
+    if (node) return fromJsonLd(node, pageUrl);
+  }
+  return fromMicrodata(html, pageUrl);
+}
+
+// ---------- Mapping into the add-recipe form ----------
+
+// Common category wording → the form's recipe type chips
+const CATEGORY_ALIASES: Record<string, string> = {
+  brunch: 'Breakfast',
+  'main course': 'Main Dish',
+  main: 'Main Dish',
+  entree: 'Main Dish',
+  entrée: 'Main Dish',
+  side: 'Side Dish',
+  starter: 'Appetizer',
+  appetiser: 'Appetizer',
+  beverage: 'Drink',
+  cocktail: 'Drink',
+  drinks: 'Drink',
+  desserts: 'Dessert',
+  snacks: 'Snack',
+};
+
+/** Map free-text categories onto the known recipe type options (case-insensitive). */
+export function matchRecipeTypes(categories: string[], options: readonly string[]): string[] {
+  const out = new Set<string>();
+  for (const raw of categories) {
+    const c = raw.trim().toLowerCase();
+    const direct = options.find((o) => o.toLowerCase() === c);
+    const alias = CATEGORY_ALIASES[c];
+    const partial = options.find((o) => c.includes(o.toLowerCase()));
+    const hit = direct ?? (alias && options.includes(alias) ? alias : undefined) ?? partial;
+    if (hit) out.add(hit);
+  }
+  return Array.from(out);
+}
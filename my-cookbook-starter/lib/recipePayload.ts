@@ -0,0 +1,144 @@
+// lib/recipePayload.ts
+
+// Builds the arguments for the save_full_recipe RPC (see README), which creates or
+// updates a recipe with its ingredients and steps in one transaction.
+// AddRecipeForm (simple and component mode) and backup restore both go through here.
+
+import { supabase } from './supabaseClient';
+import { parseIngredientLine, type ParsedIngredient } from './ingredientParser';
+
+export type RecipeCore = {
+  title: string;
+  cuisine: string | null;
+  source_url: string | null;
+  photo_url: string | null;
+  visibility: string;
+  recipe_types: string[];
+  servings: number | null;
+  total_minutes?: number | null;
+  dietary_tags?: string[];
+  forked_from?: string | null; // only applied when creating
+  shared_cookbook_id?: string | null; // only applied when creating
+};
+
+export type PayloadIngredient = ParsedIngredient & {
+  section_label: string;
+  ingredient_order: number;
+};
+
+export type PayloadStep = {
+  step_number: number;
+  body: string;
+  section_label: string;
+};
+
+export type RecipeContent = {
+  instructions: string;
+  ingredients: PayloadIngredient[];
+  steps: PayloadStep[];
+};
+
+/** What the add-recipe form holds: one ingredient list + steps, or named components. */
+export type RecipeFormContent =
+  | { mode: 'simple'; ingredients: string[]; instructions: string }
+  | { mode: 'components'; components: { title: string; ingredients: string[]; instructions: string }[] };
+
+export type SaveRecipeArgs = {
+  p_recipe_id: string | null;
+  p_title: string;
+  p_cuisine: string | null;
+  p_photo_url: string | null;
+  p_source_url: string | null;
+  p_instructions: string;
+  p_visibility: string;
+  p_recipe_types: string[];
+  p_servings: number | null;
+  p_ingredients: PayloadIngredient[];
+  p_steps: PayloadStep[];
+  p_created_at?: string | null;
+  p_revision_note?: string | null;
+  p_forked_from?: string | null;
+  p_shared_cookbook_id?: string | null;
+  p_total_minutes?: number | null;
+  p_dietary_tags?: string[];
+};
+
+function sectionName(title: string | null | undefined): string {
+  return (title || 'Main').trim() || 'Main';
+}
+
+function lines(text: string): string[] {
+  return text.split('\n').map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Parse form text into rows. Component mode also writes each component's steps
+ * under a "Name:" heading in instructions; RecipeModal reads the section order from it.
+ */
+export function contentFromForm(form: RecipeFormContent): RecipeContent {
+  if (form.mode === 'simple') {
+    return {
+      instructions: form.instructions,
+      ingredients: form.ingredients
+        .map((i) => i.trim())
+        .filter(Boolean)
+        .map((line, idx) => ({ ...parseIngredientLine(line), section_label: 'Main', ingredient_order: idx + 1 })),
+      steps: lines(form.instructions).map((body, idx) => ({ step_number: idx + 1, body, section_label: 'Main' })),
+    };
+  }
+
+  const ingredients: PayloadIngredient[] = [];
+  const steps: PayloadStep[] = [];
+  form.components.forEach((c) => {
+    const label = sectionName(c.title);
+    c.ingredients
+      .map((t) => t.trim())
+      .filter(Boolean)
+      .forEach((line, idx) => {
+        ingredients.push({ ...parseIngredientLine(line), section_label: label, ingredient_order: idx + 1 });
+      });
+    lines(c.instructions).forEach((body) => {
+      steps.push({ step_number: steps.length + 1, body, section_label: label });
+    });
+  });
+  return {
+    instructions: form.components.map((c) => `${sectionName(c.title)}:\n${c.instructions.trim()}\n`).join('\n'),
+    ingredients,
+    steps,
+  };
+}
+
+/** RPC arguments; a null recipeId creates a new recipe. */
+export function buildSaveRecipeArgs(
+  recipeId: string | null,
+  core: RecipeCore,
+  content: RecipeContent,
+  opts: { createdAt?: string | null; revisionNote?: string | null } = {}
+): SaveRecipeArgs {
+  return {
+    p_recipe_id: recipeId,
+    p_title: core.title.trim(),
+    p_cuisine: core.cuisine || null,
+    p_photo_url: core.photo_url || null,
+    p_source_url: core.source_url || null,
+    p_instructions: content.instructions,
+    p_visibility: core.visibility,
+    p_recipe_types: core.recipe_types,
+    p_servings: core.servings,
+    p_total_minutes: core.total_minutes ?? null,
+    p_dietary_tags: core.dietary_tags ?? [],
+    p_ingredients: content.ingredients.map((i) => ({ ...i, section_label: sectionName(i.section_label) })),
+    p_steps: content.steps.map((s) => ({ ...s, section_label: sectionName(s.section_label) })),
+    ...(opts.createdAt ? { p_created_at: opts.createdAt } : {}),
+    ...(opts.revisionNote ? { p_revision_note: opts.revisionNote } : {}),
+    ...(core.forked_from && !recipeId ? { p_forked_from: core.forked_from } : {}),
+    ...(core.shared_cookbook_id && !recipeId ? { p_shared_cookbook_id: core.shared_cookbook_id } : {}),
+  };
+}
+
+/** Create or update in one transaction; resolves to the recipe id. */
+export async function saveFullRecipe(args: SaveRecipeArgs): Promise<string> {
+  const { data, error } = await supabase.rpc('save_full_recipe', args);
+  if (error) throw error;
+  return data as string;
+}
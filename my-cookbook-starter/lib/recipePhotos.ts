@@ -0,0 +1,68 @@
+// lib/recipePhotos.ts
+import { supabase } from './supabaseClient';
+
+export const RECIPE_PHOTO_BUCKET = 'recipe-photos';
+
+/** "…/storage/v1/object/public/recipe-photos/<uid>/<file>" → "<uid>/<file>" (null for other hosts/buckets). */
+export function storagePathFromPublicUrl(publicUrl: string): string | null {
+  try {
+    const u = new URL(publicUrl);
+    const marker = `/${RECIPE_PHOTO_BUCKET}/`;
+    const i = u.pathname.indexOf(marker);
+    if (i === -1) return null;
+    return decodeURIComponent(u.pathname.slice(i + marker.length));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Download a recipe photo as a Blob: straight from the bucket when it's ours,
+ * otherwise a plain fetch (imported photos may live on other sites). Null if unreachable.
+ */
+export async function downloadRecipePhoto(photoUrl: string): Promise<Blob | null> {
+  const path = storagePathFromPublicUrl(photoUrl);
+  if (path) {
+    const { data, error } = await supabase.storage.from(RECIPE_PHOTO_BUCKET).download(path);
+    if (!error && data) return data;
+  }
+  try {
+    const res = await fetch(photoUrl);
+    return res.ok ? await res.blob() : null;
+  } catch {
+    return null; // usually CORS on third-party images
+  }
+}
+
+/**
+ * Copy a photo into `<uid>/` of our bucket and return the new public URL.
+ * Falls back to the original URL when it can't be downloaded.
+ */
+export async function copyRecipePhotoToUser(photoUrl: string, uid: string): Promise<string> {
+  const blob = await downloadRecipePhoto(photoUrl);
+  if (!blob) return photoUrl;
+  return uploadRecipePhoto(blob, uid, photoExtension(blob, photoUrl));
+}
+
+/** Upload an image under `<uid>/` of our bucket; resolves to its public URL. */
+export async function uploadRecipePhoto(blob: Blob, uid: string, ext: string): Promise<string> {
+  const path = `${uid}/${crypto.randomUUID()}-${Date.now()}.${ext}`;
+  const { error } = await supabase.storage
+    .from(RECIPE_PHOTO_BUCKET)
+    .upload(path, blob, { contentType: blob.type || 'image/jpeg' });
+  if (error) throw error;
+  return supabase.storage.from(RECIPE_PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/** File extension for a downloaded photo, from its MIME type or URL. */
+export function photoExtension(blob: Blob | null, photoUrl: string): string {
+  const byType: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif' };
+  if (blob?.type && byType[blob.type]) return byType[blob.type];
+  const m = photoUrl.split('?')[0].match(/\.(jpe?g|png|webp|gif)$/i);
+  return m ? m[1].toLowerCase().replace('jpeg', 'jpg') : 'jpg';
+}
+
+/** MIME type for an extension from photoExtension ('jpg' → 'image/jpeg'). */
+export function photoContentType(ext: string): string {
+  return ext === 'jpg' ? 'image/jpeg' : `image/${ext}`;
+}
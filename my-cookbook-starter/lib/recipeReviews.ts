@@ -0,0 +1,66 @@
+// lib/recipeReviews.ts
+
+// 1–5 star ratings with an optional written review, one per user per recipe
+// (recipe_reviews, see README). RLS only lets people who can see a recipe read or
+// write its reviews; a trigger keeps recipes.avg_rating / rating_count current.
+
+import { supabase } from './supabaseClient';
+
+export type RecipeReview = {
+  id: string;
+  recipe_id: string;
+  user_id: string;
+  rating: number;
+  body: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const REVIEW_COLUMNS = 'id,recipe_id,user_id,rating,body,created_at,updated_at';
+
+/** Every review of a recipe, newest first. */
+export async function fetchReviews(recipeId: string): Promise<RecipeReview[]> {
+  const { data, error } = await supabase
+    .from('recipe_reviews')
+    .select(REVIEW_COLUMNS)
+    .eq('recipe_id', recipeId)
+    .order('updated_at', { ascending: false });
+  if (error) throw error;
+  return (data as RecipeReview[]) ?? [];
+}
+
+/** Create or replace the viewer's review. */
+export async function saveReview(
+  uid: string,
+  recipeId: string,
+  rating: number,
+  body: string
+): Promise<RecipeReview> {
+  const { data, error } = await supabase
+    .from('recipe_reviews')
+    .upsert(
+      { recipe_id: recipeId, user_id: uid, rating, body: body.trim() || null, updated_at: new Date().toISOString() },
+      { onConflict: 'recipe_id,user_id' }
+    )
+    .select(REVIEW_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as RecipeReview;
+}
+
+export async function deleteReview(id: string): Promise<void> {
+  const { error } = await supabase.from('recipe_reviews').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/** Average and count from a list of reviews (used right after the viewer edits theirs). */
+export function summarizeRatings(reviews: Pick<RecipeReview, 'rating'>[]): { avg: number | null; count: number } {
+  if (!reviews.length) return { avg: null, count: 0 };
+  const sum = reviews.reduce((n, r) => n + r.rating, 0);
+  return { avg: Math.round((sum / reviews.length) * 10) / 10, count: reviews.length };
+}
+
+/** "4.3" — one decimal, trailing ".0" kept so averages line up. */
+export function formatRating(avg: number): string {
+  return (Math.round(avg * 10) / 10).toFixed(1);
+}
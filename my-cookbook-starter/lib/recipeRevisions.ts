@@ -0,0 +1,93 @@
+// lib/recipeRevisions.ts
+
+// Version history: save_full_recipe stores a snapshot in recipe_revisions on every save
+// (see README "Version history"). Restoring saves the old snapshot again as a new version.
+
+import { supabase } from './supabaseClient';
+import { buildSaveRecipeArgs, saveFullRecipe } from './recipePayload';
+
+export type SnapshotIngredient = {
+  item_name: string;
+  quantity: number | null;
+  quantity_max: number | null;
+  unit: string | null;
+  note: string | null;
+  section_label: string | null;
+  ingredient_order: number | null;
+};
+
+export type SnapshotStep = {
+  step_number: number;
+  body: string;
+  section_label: string | null;
+};
+
+export type RecipeSnapshot = {
+  title: string;
+  cuisine: string | null;
+  recipe_types: string[] | null;
+  servings: number | null;
+  instructions: string | null;
+  ingredients: SnapshotIngredient[];
+  steps: SnapshotStep[];
+};
+
+export type RecipeRevision = {
+  id: string;
+  revision_number: number;
+  note: string | null;
+  created_at: string;
+  snapshot: RecipeSnapshot;
+};
+
+/** Newest first. Only the owner can read revisions (RLS). */
+export async function fetchRecipeRevisions(recipeId: string): Promise<RecipeRevision[]> {
+  const { data, error } = await supabase
+    .from('recipe_revisions')
+    .select('id,revision_number,note,created_at,snapshot')
+    .eq('recipe_id', recipeId)
+    .order('revision_number', { ascending: false });
+  if (error) throw error;
+  return (data as RecipeRevision[]) ?? [];
+}
+
+/**
+ * Put an old version back. Photo, source URL, visibility, total time and dietary
+ * tags aren't versioned, so the recipe keeps its current ones.
+ */
+export async function restoreRecipeRevision(recipeId: string, rev: RecipeRevision): Promise<void> {
+  const { data: current, error } = await supabase
+    .from('recipes')
+    .select('photo_url,source_url,visibility,total_minutes,dietary_tags')
+    .eq('id', recipeId)
+    .single();
+  if (error) throw error;
+
+  const snap = rev.snapshot;
+  await saveFullRecipe(
+    buildSaveRecipeArgs(
+      recipeId,
+      {
+        title: snap.title,
+        cuisine: snap.cuisine,
+        source_url: current.source_url,
+        photo_url: current.photo_url,
+        visibility: current.visibility ?? 'private',
+        recipe_types: snap.recipe_types ?? [],
+        servings: snap.servings,
+        total_minutes: current.total_minutes ?? null,
+        dietary_tags: current.dietary_tags ?? [],
+      },
+      {
+        instructions: snap.instructions ?? '',
+        ingredients: snap.ingredients.map((i, idx) => ({
+          ...i,
+          section_label: i.section_label ?? 'Main',
+          ingredient_order: i.ingredient_order ?? idx + 1,
+        })),
+        steps: snap.steps.map((s) => ({ ...s, section_label: s.section_label ?? 'Main' })),
+      },
+      { revisionNote: `Restored version ${rev.revision_number}` }
+    )
+  );
+}
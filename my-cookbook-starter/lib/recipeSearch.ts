@@ -0,0 +1,226 @@
+// lib/recipeSearch.ts
+
+// Community recipe search: a small query syntax on top of the search_recipes RPC
+// (Postgres full-text over title, ingredients, cuisine/types and steps; see README).
+//
+//   chicken lemon         both words, anywhere
+//   "olive oil"           a phrase kept together
+//   ingredient:basil      only in the ingredient list
+//   type:dessert          recipe_types starting with "dessert"
+//   -mushroom             leave out anything that mentions it (also -ingredient:peanut),
+//                         even inside a word: -nut drops walnuts and peanuts too
+//   - nut                 the same; a dash on its own negates the next word or phrase
+//
+// The filter drawer adds structured filters (RecipeFilters). They live in the page URL
+// together with the query and sort, so a search can be shared as a link.
+
+import { supabase } from './supabaseClient';
+
+export type ParsedSearch = {
+  terms: string[];
+  ingredients: string[];
+  types: string[];
+  exclude: string[];
+};
+
+export type SearchSort = 'relevance' | 'newest' | 'top_rated';
+
+export type SearchResult = {
+  id: string;
+  user_id: string;
+  title: string;
+  cuisine: string | null;
+  photo_url: string | null;
+  source_url: string | null;
+  created_at: string | null;
+  recipe_types: string[] | null;
+  avg_rating: number | null;
+  rating_count: number | null;
+  rank: number;
+  ingredient_hits: string[];
+};
+
+export type HighlightPart = { text: string; hit: boolean };
+
+export type RecipeFilters = {
+  types: string[];          // any of these recipe_types
+  cuisine: string;          // cuisine contains
+  hasPhoto: boolean;
+  friendsOnly: boolean;     // authors you're friends with
+  addedFrom: string;        // yyyy-mm-dd, inclusive
+  addedTo: string;          // yyyy-mm-dd, inclusive
+  maxMinutes: number | null;
+  diets: string[];          // all of these dietary_tags
+};
+
+export const EMPTY_FILTERS: RecipeFilters = {
+  types: [],
+  cuisine: '',
+  hasPhoto: false,
+  friendsOnly: false,
+  addedFrom: '',
+  addedTo: '',
+  maxMinutes: null,
+  diets: [],
+};
+
+/** Total-time choices offered in the drawer. */
+export const MAX_MINUTES_OPTIONS = [15, 30, 45, 60, 90];
+
+/** One removable chip per active filter; `clear` returns the filters without it. */
+export type FilterChip = { key: string; label: string; clear: (f: RecipeFilters) => RecipeFilters };
+
+const SORTS: SearchSort[] = ['relevance', 'newest', 'top_rated'];
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// a space after the dash is allowed ("- nut"), so a lone dash never turns into a term
+const TOKEN_RE = /(-\s*)?(?:(ingredient|ing|type):)?(?:"([^"]*)"?|(\S+))/gi;
+
+/** Split the search box into plain terms, ingredient:/type: filters and -exclusions. */
+export function parseSearchQuery(input: string): ParsedSearch {
+  const out: ParsedSearch = { terms: [], ingredients: [], types: [], exclude: [] };
+  for (const m of Array.from(input.matchAll(TOKEN_RE))) {
+    const negate = !!m[1];
+    const field = m[2]?.toLowerCase();
+    const value = (m[3] ?? m[4] ?? '').trim();
+    if (!value || /^-+$/.test(value)) continue;
+    // exclusions match anywhere, whatever the field: safer for allergies
+    if (negate) out.exclude.push(value);
+    else if (field === 'type') out.types.push(value);
+    else if (field === 'ingredient' || field === 'ing') out.ingredients.push(value);
+    else out.terms.push(value);
+  }
+  return out;
+}
+
+export function isEmptySearch(p: ParsedSearch): boolean {
+  return !p.terms.length && !p.ingredients.length && !p.types.length && !p.exclude.length;
+}
+
+/** Words worth highlighting in results (the positive terms, split into words). */
+export function highlightWords(p: ParsedSearch): string[] {
+  return Array.from(
+    new Set(
+      [...p.terms, ...p.ingredients]
+        .flatMap((t) => t.toLowerCase().split(/[\s,.;:()"'/-]+/))
+        .filter((w) => w.length > 1)
+    )
+  );
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * "Lemon Chicken Thighs" with ['chicken'] → [Lemon ][Chicken][ Thighs]. Matches at word
+ * starts, and a trailing "s"/"es" on the search word is dropped so "tomatoes" marks "tomato".
+ */
+export function highlightParts(text: string, words: string[]): HighlightPart[] {
+  const stems = words
+    .map((w) => (w.length > 4 ? w.replace(/(es|s)$/, '') : w))
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  if (!stems.length || !text) return [{ text, hit: false }];
+
+  // group 1 is the character before the word (no lookbehind: older Safari lacks it)
+  const re = new RegExp(`(^|[^\\p{L}\\p{N}])((?:${stems.join('|')})[\\p{L}\\p{N}]*)`, 'giu');
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const m of Array.from(text.matchAll(re))) {
+    const start = (m.index ?? 0) + m[1].length;
+    if (start > last) parts.push({ text: text.slice(last, start), hit: false });
+    parts.push({ text: m[2], hit: true });
+    last = start + m[2].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), hit: false });
+  return parts;
+}
+
+// ---------- Filters ----------
+
+function listParam(params: URLSearchParams, key: string): string[] {
+  return (params.get(key) || '').split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+/** Read q / sort / filters back from `/community?q=…&type=Dinner,Lunch&max=30`. */
+export function searchStateFromParams(params: URLSearchParams): { q: string; sort: SearchSort; filters: RecipeFilters } {
+  const sort = params.get('sort') as SearchSort | null;
+  const max = Number(params.get('max'));
+  const from = params.get('from') || '';
+  const to = params.get('to') || '';
+  return {
+    q: params.get('q') || '',
+    sort: sort && SORTS.includes(sort) ? sort : 'relevance',
+    filters: {
+      types: listParam(params, 'type'),
+      cuisine: params.get('cuisine') || '',
+      hasPhoto: params.get('photo') === '1',
+      friendsOnly: params.get('author') === 'friends',
+      addedFrom: DATE_RE.test(from) ? from : '',
+      addedTo: DATE_RE.test(to) ? to : '',
+      maxMinutes: Number.isInteger(max) && max > 0 ? max : null,
+      diets: listParam(params, 'diet'),
+    },
+  };
+}
+
+/** The inverse of searchStateFromParams; defaults are left out to keep links short. */
+export function searchStateToParams(q: string, sort: SearchSort, f: RecipeFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (q.trim()) params.set('q', q.trim());
+  if (sort !== 'relevance') params.set('sort', sort);
+  if (f.types.length) params.set('type', f.types.join(','));
+  if (f.cuisine.trim()) params.set('cuisine', f.cuisine.trim());
+  if (f.hasPhoto) params.set('photo', '1');
+  if (f.friendsOnly) params.set('author', 'friends');
+  if (f.addedFrom) params.set('from', f.addedFrom);
+  if (f.addedTo) params.set('to', f.addedTo);
+  if (f.maxMinutes) params.set('max', String(f.maxMinutes));
+  if (f.diets.length) params.set('diet', f.diets.join(','));
+  return params;
+}
+
+export function filterChips(f: RecipeFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+  f.types.forEach((t) =>
+    chips.push({ key: `type:${t}`, label: t, clear: (x) => ({ ...x, types: x.types.filter((y) => y !== t) }) })
+  );
+  if (f.cuisine.trim()) chips.push({ key: 'cuisine', label: `Cuisine: ${f.cuisine.trim()}`, clear: (x) => ({ ...x, cuisine: '' }) });
+  if (f.hasPhoto) chips.push({ key: 'photo', label: 'Has photo', clear: (x) => ({ ...x, hasPhoto: false }) });
+  if (f.friendsOnly) chips.push({ key: 'author', label: 'Friends only', clear: (x) => ({ ...x, friendsOnly: false }) });
+  if (f.addedFrom) chips.push({ key: 'from', label: `Added from ${f.addedFrom}`, clear: (x) => ({ ...x, addedFrom: '' }) });
+  if (f.addedTo) chips.push({ key: 'to', label: `Added until ${f.addedTo}`, clear: (x) => ({ ...x, addedTo: '' }) });
+  if (f.maxMinutes) chips.push({ key: 'max', label: `≤ ${f.maxMinutes} min`, clear: (x) => ({ ...x, maxMinutes: null }) });
+  f.diets.forEach((d) =>
+    chips.push({ key: `diet:${d}`, label: d, clear: (x) => ({ ...x, diets: x.diets.filter((y) => y !== d) }) })
+  );
+  return chips;
+}
+
+export async function searchRecipes(
+  query: ParsedSearch,
+  opts: { sort?: SearchSort; limit?: number; offset?: number; filters?: RecipeFilters } = {}
+): Promise<SearchResult[]> {
+  const f = opts.filters ?? EMPTY_FILTERS;
+  const { data, error } = await supabase.rpc('search_recipes', {
+    p_terms: query.terms,
+    p_ingredients: query.ingredients,
+    p_types: query.types,
+    p_exclude: query.exclude,
+    p_sort: opts.sort ?? 'relevance',
+    p_limit: opts.limit ?? 20,
+    p_offset: opts.offset ?? 0,
+    p_any_types: f.types,
+    p_cuisine: f.cuisine.trim() || null,
+    p_has_photo: f.hasPhoto,
+    p_friends_only: f.friendsOnly,
+    p_added_from: f.addedFrom || null,
+    p_added_to: f.addedTo || null,
+    p_max_minutes: f.maxMinutes,
+    p_diets: f.diets,
+  });
+  if (error) throw error;
+  return (data as SearchResult[]) ?? [];
+}
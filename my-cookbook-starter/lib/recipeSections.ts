@@ -0,0 +1,71 @@
+// lib/recipeSections.ts
+
+// Recipes made of components ("Sauce", "Dough", …) store a section_label on every
+// ingredient and step. The order the author created the components in is only kept
+// in recipes.instructions, where each component starts with a "Name:" heading.
+
+export type SectionIngredient = { section_label: string | null };
+export type SectionStep = { section_label: string | null };
+
+export type RecipeSection<I, S> = { name: string; ingredients: I[]; steps: S[] };
+
+function labelOf(row: { section_label: string | null }): string {
+  return (row.section_label || 'Main').trim() || 'Main';
+}
+
+/** Component names in creation order, from the "Name:" headings in instructions. */
+export function sectionOrderFromInstructions(instructions: string | null | undefined): string[] {
+  const order: string[] = [];
+  const seen = new Set<string>();
+  for (const raw of (instructions || '').split('\n')) {
+    const line = raw.trim();
+    if (!line || !line.endsWith(':')) continue;
+    const name = line.slice(0, -1).trim() || 'Main';
+    if (!seen.has(name)) {
+      seen.add(name);
+      order.push(name);
+    }
+  }
+  return order;
+}
+
+/**
+ * Group ingredients and steps by section_label.
+ * Sections named in instructions come first (in that order), then "Main", then the rest A–Z.
+ */
+export function groupRecipeSections<I extends SectionIngredient, S extends SectionStep>(
+  ingredients: I[],
+  steps: S[],
+  instructions?: string | null
+): RecipeSection<I, S>[] {
+  const map = new Map<string, { ingredients: I[]; steps: S[] }>();
+  const add = (key: string) => {
+    if (!map.has(key)) map.set(key, { ingredients: [], steps: [] });
+    return map.get(key)!;
+  };
+
+  ingredients.forEach((i) => add(labelOf(i)).ingredients.push(i));
+  steps.forEach((s) => add(labelOf(s)).steps.push(s));
+
+  const keys = new Set(map.keys());
+  const ordered: string[] = [];
+
+  sectionOrderFromInstructions(instructions).forEach((name) => {
+    if (keys.has(name)) {
+      ordered.push(name);
+      keys.delete(name);
+    }
+  });
+  if (keys.has('Main') && !ordered.includes('Main')) {
+    ordered.unshift('Main');
+    keys.delete('Main');
+  }
+  ordered.push(...Array.from(keys).sort((a, b) => a.localeCompare(b)));
+
+  return ordered.map((name) => ({ name, ...map.get(name)! }));
+}
+
+/** Single unnamed "Main" sections read better without a heading. */
+export function hideSectionLabel(sections: { name: string }[]): boolean {
+  return sections.length === 1 && sections[0].name === 'Main';
+}
@@ -0,0 +1,74 @@
+// lib/recipeSources.ts
+
+// Lightweight recipe lists for pickers (shopping list, meal plan):
+// the user's own recipes and the recipes they bookmarked. Also the My Cookbook
+// grid query, shared with the offline warm-up so both hit the same cached URL.
+
+import { supabase } from './supabaseClient';
+
+export type PickerRecipe = {
+  id: string;
+  user_id: string;
+  title: string;
+  photo_url: string | null;
+  recipe_types: string[] | null;
+  servings: number | null;
+};
+
+export type RecipeSource = 'mine' | 'bookmarked';
+
+export type CookbookRecipe = {
+  id: string;
+  user_id: string;
+  title: string;
+  cuisine: string | null;
+  recipe_types: string[] | null;
+  photo_url: string | null;
+  source_url: string | null;
+  created_at: string | null;
+  avg_rating?: number | null;
+  rating_count?: number | null;
+};
+
+const PICKER_COLUMNS = 'id,user_id,title,photo_url,recipe_types,servings';
+
+export async function fetchMyRecipes(uid: string): Promise<PickerRecipe[]> {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select(PICKER_COLUMNS)
+    .eq('user_id', uid)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data as PickerRecipe[]) ?? [];
+}
+
+/** Everything in the user's cookbook, newest first (the /cookbook grid). */
+export async function fetchCookbookRecipes(uid: string): Promise<CookbookRecipe[]> {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select('id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,avg_rating,rating_count')
+    .eq('user_id', uid)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data as CookbookRecipe[]) ?? [];
+}
+
+/** Bookmarked recipes the user can still see, A–Z. */
+export async function fetchBookmarkedRecipes(uid: string): Promise<PickerRecipe[]> {
+  const { data: marks, error } = await supabase.from('recipe_bookmarks').select('recipe_id').eq('user_id', uid);
+  if (error) throw error;
+  const ids = (marks ?? []).map((m: any) => m.recipe_id as string);
+  if (!ids.length) return [];
+
+  const { data, error: rErr } = await supabase
+    .from('recipes')
+    .select(PICKER_COLUMNS)
+    .in('id', ids)
+    .order('title', { ascending: true });
+  if (rErr) throw rErr;
+  return (data as PickerRecipe[]) ?? [];
+}
+
+export function fetchRecipeSource(uid: string, source: RecipeSource): Promise<PickerRecipe[]> {
+  return source === 'mine' ? fetchMyRecipes(uid) : fetchBookmarkedRecipes(uid);
+}
@@ -1,14 +1,53 @@
 // lib/recipeSync.ts
 
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+// 'reaction' (default) carries the deltas below; 'collections' means the recipe was added
+// to or taken out of one of my collections; the rest carry the recipe as saved
+export type RecipeMutationKind = 'reaction' | 'created' | 'updated' | 'deleted' | 'visibility' | 'collections';
+
+export type RecipeVisibility = 'public' | 'friends' | 'private';
+
+/** The columns the grids show; sent with created / updated / visibility mutations. */
+export type RecipeSnapshot = {
+  id: string;
+  user_id: string;
+  title: string;
+  cuisine: string | null;
+  recipe_types: string[] | null;
+  photo_url: string | null;
+  source_url: string | null;
+  created_at: string | null;
+  visibility: RecipeVisibility | string | null;
+  avg_rating?: number | null;
+  rating_count?: number | null;
+  shared_cookbook_id?: string | null;
+};
+
+export const RECIPE_SNAPSHOT_COLUMNS =
+  'id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,visibility,avg_rating,rating_count,shared_cookbook_id';
+
 export type RecipeMutation = {
   id: string;
+  kind?: RecipeMutationKind;
+  recipe?: RecipeSnapshot;
   heartDelta?: number;
   bookmarkDelta?: number;
+  commentDelta?: number;
+  // server totals (recipe_reaction_counts); when set they replace the running count
+  heartCount?: number;
+  bookmarkCount?: number;
   heartedByMe?: boolean;
   bookmarkedByMe?: boolean;
+  // Came from elsewhere (another tab, device or person). `...ByMe` is then the server's
+  // truth, so a listener whose state already matches should skip the delta.
+  remote?: boolean;
 };
 
 const EVENT = 'recipe-mutation';
+const CHANNEL = 'recipe-sync';
+const STORAGE_KEY = 'recipe-sync:mutation';
 
 // Some older Safari iOS builds can lack a proper CustomEvent constructor in certain contexts.
 // Polyfill defensively — but only in the browser.
@@ -29,12 +68,58 @@ function ensureCustomEvent() {
   }
 }
 
-// Emit (no-op on server; never throw)
+function dispatchLocal(m: RecipeMutation) {
+  ensureCustomEvent();
+  window.dispatchEvent(new CustomEvent<RecipeMutation>(EVENT, { detail: m }));
+}
+
+// Cross-tab transport: BroadcastChannel where available, else `storage` events
+// (which only fire in *other* tabs, so the sender never hears itself either way).
+let broadcast: BroadcastChannel | null | undefined; // undefined = not set up yet
+
+function crossTab(): BroadcastChannel | null {
+  if (broadcast !== undefined) return broadcast;
+  try {
+    broadcast = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL) : null;
+  } catch {
+    broadcast = null;
+  }
+  if (broadcast) {
+    broadcast.onmessage = (e: MessageEvent<RecipeMutation>) => {
+      if (e.data?.id) dispatchLocal(e.data);
+    };
+  } else {
+    window.addEventListener('storage', (e) => {
+      if (e.key !== STORAGE_KEY || !e.newValue) return;
+      try {
+        const { m } = JSON.parse(e.newValue) as { m: RecipeMutation };
+        if (m?.id) dispatchLocal(m);
+      } catch {
+        // malformed value from an older build: ignore
+      }
+    });
+  }
+  return broadcast;
+}
+
+function sendToOtherTabs(m: RecipeMutation) {
+  const out: RecipeMutation = { ...m, remote: true };
+  const ch = crossTab();
+  if (ch) {
+    ch.postMessage(out);
+    return;
+  }
+  // the nonce makes back-to-back identical mutations still count as a change
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ m: out, nonce: Math.random() }));
+  window.localStorage.removeItem(STORAGE_KEY);
+}
+
+// Emit to this tab and every other open tab (no-op on server; never throw)
 export function emitRecipeMutation(m: RecipeMutation) {
   try {
     if (typeof window === 'undefined') return;
-    ensureCustomEvent();
-    window.dispatchEvent(new CustomEvent<RecipeMutation>(EVENT, { detail: m }));
+    dispatchLocal(m);
+    if (!m.remote) sendToOtherTabs(m);
   } catch {
     // best-effort: ignore
   }
@@ -44,6 +129,7 @@ export function emitRecipeMutation(m: RecipeMutation) {
 export function subscribeRecipeMutations(handler: (m: RecipeMutation) => void) {
   if (typeof window === 'undefined') return () => {};
   ensureCustomEvent();
+  crossTab(); // start hearing other tabs
 
   const fn = (e: Event) => {
     try {
@@ -57,3 +143,88 @@ export function subscribeRecipeMutations(handler: (m: RecipeMutation) => void) {
   window.addEventListener(EVENT, fn as EventListener);
   return () => window.removeEventListener(EVENT, fn as EventListener);
 }
+
+type ReactionCountsRow = { recipe_id?: string; hearts?: number; bookmarks?: number };
+let relaySeq = 0;
+
+// Realtime `in` filters take at most 100 values
+export const FILTER_CHUNK = 100;
+
+/**
+ * Relay heart/bookmark totals for the recipes on screen onto the event bus as `remote`
+ * mutations. Listens to recipe_reaction_counts (kept by triggers, see README) rather than
+ * to the reaction tables: those can't be filtered on delete and, under RLS, deletes
+ * arrive without recipe_id. Resubscribe when `recipeIds` changes.
+ */
+export function relayRemoteReactions(uid: string | null, recipeIds: string[]) {
+  if (typeof window === 'undefined') return () => {};
+  const ids = Array.from(new Set(recipeIds));
+  if (!ids.length) return () => {};
+
+  const relay = async (payload: RealtimePostgresChangesPayload<ReactionCountsRow>) => {
+    const row = payload.new as ReactionCountsRow;
+    const rid = row?.recipe_id;
+    if (!rid) return;
+    let mine: { heartedByMe?: boolean; bookmarkedByMe?: boolean } = {};
+    if (uid) {
+      // the totals don't say who changed; ask whether the change was mine (another tab or device)
+      const mineIn = (table: 'recipe_hearts' | 'recipe_bookmarks') =>
+        supabase
+          .from(table)
+          .select('recipe_id', { count: 'exact', head: true })
+          .eq('recipe_id', rid)
+          .eq('user_id', uid);
+      const [h, b] = await Promise.all([mineIn('recipe_hearts'), mineIn('recipe_bookmarks')]);
+      mine = {
+        heartedByMe: h.error ? undefined : (h.count ?? 0) > 0,
+        bookmarkedByMe: b.error ? undefined : (b.count ?? 0) > 0,
+      };
+    }
+    emitRecipeMutation({
+      id: rid,
+      heartCount: row.hearts ?? 0,
+      bookmarkCount: row.bookmarks ?? 0,
+      ...mine,
+      remote: true,
+    });
+  };
+
+  const seq = ++relaySeq;
+  const channels: RealtimeChannel[] = [];
+  for (let i = 0; i < ids.length; i += FILTER_CHUNK) {
+    const filter = `recipe_id=in.(${ids.slice(i, i + FILTER_CHUNK).join(',')})`;
+    channels.push(
+      supabase
+        .channel(`recipe-reactions:${seq}:${i}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'recipe_reaction_counts', filter }, relay)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'recipe_reaction_counts', filter }, relay)
+        .subscribe()
+    );
+  }
+
+  return () => {
+    channels.forEach((ch) => void supabase.removeChannel(ch));
+  };
+}
+
+/**
+ * Apply a created / updated / deleted / visibility mutation to a newest-first grid.
+ * `accepts` says whether a recipe belongs in this grid at all (e.g. public only);
+ * reaction mutations return `rows` unchanged.
+ */
+export function applyRecipeListMutation<T extends { id: string; created_at: string | null }>(
+  rows: T[],
+  m: RecipeMutation,
+  accepts: (r: RecipeSnapshot) => boolean,
+  toRow: (r: RecipeSnapshot) => T
+): T[] {
+  if (m.kind === 'deleted') return rows.filter((x) => x.id !== m.id);
+  if (!m.kind || m.kind === 'reaction' || !m.recipe) return rows;
+
+  const snap = m.recipe;
+  if (!accepts(snap)) return rows.some((x) => x.id === m.id) ? rows.filter((x) => x.id !== m.id) : rows;
+  if (rows.some((x) => x.id === m.id)) return rows.map((x) => (x.id === m.id ? { ...x, ...toRow(snap) } : x));
+
+  const ts = (r: { created_at: string | null }) => (r.created_at ? Date.parse(r.created_at) : 0);
+  return [toRow(snap), ...rows].sort((a, b) => ts(b) - ts(a));
+}
@@ -0,0 +1,136 @@
+// lib/recipeTextImport.ts
+
+// Turns a pasted block of recipe text (from an email, notes app, …) into the same
+// ImportedRecipe shape the URL importer produces, so the add-recipe form can prefill
+// from either.
+
+import { parseIngredientLine } from './ingredientParser';
+import type { ImportedComponent, ImportedRecipe } from './recipeImport';
+
+const INGREDIENT_HEADER = /^(ingredients?|what you('|’)?ll need|you('|’)?ll need|you will need|shopping list)\s*:?$/i;
+const STEP_HEADER = /^(instructions?|directions?|method|steps?|preparation|how to make( it)?)\s*:?$/i;
+const SERVINGS_LINE = /^(serves|servings|yield|makes)\b\s*:?\s*(.*)$/i;
+const CUISINE_LINE = /^cuisine\s*:\s*(.+)$/i;
+const SKIP_LINE = /^(prep|cook|total|active|rest(ing)?|inactive)\s*time\b|^(notes?|tips?)\s*:?$/i;
+const BULLET = /^\s*(?:[-*•·▪◦‣]|•)\s+/;
+const NUMBERED = /^\s*(?:step\s*)?\d+\s*[.):](?!\d)\s*/i;
+
+type Mode = 'unknown' | 'ingredients' | 'steps';
+
+/** "For the sauce:" → "Sauce", "FROSTING:" → "Frosting" */
+function componentTitle(line: string): string {
+  const t = line
+    .replace(/:\s*$/, '')
+    .replace(/^for\s+(the\s+)?/i, '')
+    .trim();
+  const lower = t === t.toUpperCase() ? t.toLowerCase() : t;
+  return lower.charAt(0).toUpperCase() + lower.slice(1);
+}
+
+/** Section headers: short lines ending with ":" or starting with "For the …". */
+function isComponentHeader(line: string): boolean {
+  if (line.length > 40) return false;
+  if (INGREDIENT_HEADER.test(line) || STEP_HEADER.test(line)) return false;
+  return /:\s*$/.test(line) || (/^for\s+the\s+\S.*$/i.test(line) && line.split(/\s+/).length <= 5);
+}
+
+function looksLikeStep(line: string): boolean {
+  if (NUMBERED.test(line)) return true;
+  return line.length > 70 || (/[.!]$/.test(line) && line.split(/\s+/).length > 5);
+}
+
+function looksLikeIngredient(line: string): boolean {
+  if (line.length > 80) return false;
+  if (BULLET.test(line)) return true;
+  return parseIngredientLine(line).quantity != null && !/[.!]$/.test(line);
+}
+
+function stripMarkers(line: string): string {
+  return line.replace(BULLET, '').replace(NUMBERED, '').trim();
+}
+
+/**
+ * Work out title, ingredients and steps from free text.
+ * Explicit "Ingredients" / "Instructions" headers win; otherwise each line is classified
+ * on its own (quantities and bullets → ingredient, numbered or sentence-like → step).
+ */
+export function parseRecipeText(text: string): ImportedRecipe {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map((l) => l.trim());
+
+  let title = '';
+  let cuisine: string | null = null;
+  let servings: number | null = null;
+  let mode: Mode = 'unknown';
+
+  const components: ImportedComponent[] = [{ title: 'Main', ingredients: [], steps: [] }];
+  let current = components[0];
+
+  const useComponent = (name: string) => {
+    const found = components.find((c) => c.title.toLowerCase() === name.toLowerCase());
+    if (found) {
+      current = found;
+    } else {
+      current = { title: name, ingredients: [], steps: [] };
+      components.push(current);
+    }
+  };
+
+  for (const raw of lines) {
+    if (!raw) continue;
+    const line = raw.replace(/^#+\s*/, '');
+
+    if (INGREDIENT_HEADER.test(line)) { mode = 'ingredients'; continue; }
+    if (STEP_HEADER.test(line)) {
+      mode = 'steps';
+      // steps go with the first component that has ingredients unless a header says otherwise
+      current = components.find((c) => c.ingredients.length) ?? components[0];
+      continue;
+    }
+
+    const serv = line.match(SERVINGS_LINE);
+    if (serv) {
+      const n = serv[2].match(/\d+/);
+      if (n && !servings) servings = Number(n[0]);
+      continue;
+    }
+    const cui = line.match(CUISINE_LINE);
+    if (cui) { cuisine = cui[1].trim(); continue; }
+    if (SKIP_LINE.test(line)) continue;
+
+    if (!title) {
+      // first real line is the title unless it's plainly an ingredient or a step
+      if (!BULLET.test(line) && !NUMBERED.test(line) && parseIngredientLine(line).quantity == null) {
+        title = line.replace(/:\s*$/, '');
+        continue;
+      }
+    }
+
+    if (isComponentHeader(line)) {
+      useComponent(componentTitle(line));
+      continue;
+    }
+
+    const body = stripMarkers(line);
+    if (!body) continue;
+
+    const asStep =
+      mode === 'steps' ? true
+      : mode === 'ingredients' ? NUMBERED.test(line) && !looksLikeIngredient(body)
+      : looksLikeStep(line) && !looksLikeIngredient(line);
+
+    if (asStep) current.steps.push(body);
+    else current.ingredients.push(body);
+  }
+
+  const kept = components.filter((c, i) => i > 0 || c.ingredients.length || c.steps.length || components.length === 1);
+
+  return {
+    title,
+    cuisine,
+    imageUrl: null,
+    sourceUrl: null,
+    servings,
+    categories: [],
+    components: kept,
+  };
+}
@@ -0,0 +1,28 @@
+// lib/recipeTypes.ts
+
+// Meal types a recipe can be tagged with (recipes.recipe_types).
+// The add-recipe form offers these; the meal planner uses them to suggest recipes per slot.
+
+export const RECIPE_TYPE_OPTIONS = [
+  'Breakfast',
+  'Lunch',
+  'Dinner',
+  'Main Dish',
+  'Side Dish',
+  'Appetizer',
+  'Snack',
+  'Dessert',
+  'Drink',
+];
+
+// Dietary tags (recipes.dietary_tags), set on the add-recipe form and used as
+// Community search filters. A recipe has to carry every tag a search asks for.
+export const DIETARY_TAG_OPTIONS = [
+  'Vegetarian',
+  'Vegan',
+  'Gluten-free',
+  'Dairy-free',
+  'Nut-free',
+  'Egg-free',
+  'Low-carb',
+];
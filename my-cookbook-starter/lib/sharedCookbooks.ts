@@ -0,0 +1,183 @@
+// lib/sharedCookbooks.ts
+
+// Cookbooks a household (or any group) keeps together (shared_cookbooks +
+// shared_cookbook_members, see README). Recipes still have one author (`user_id`);
+// a recipe created in a book also carries `shared_cookbook_id`, and the book's
+// owner and editors may edit it. Invites work like friend requests: a pending
+// membership row the invitee accepts (status → accepted) or declines (row deleted).
+
+import { supabase } from './supabaseClient';
+
+export type CookbookRole = 'owner' | 'editor' | 'viewer';
+export type MemberStatus = 'pending' | 'accepted';
+
+export type SharedCookbook = {
+  id: string;
+  name: string;
+  owner_id: string;
+  created_at: string;
+};
+
+/** A book as seen by one member: their role and whether they've accepted. */
+export type MyCookbook = SharedCookbook & { role: CookbookRole; status: MemberStatus; invited_by: string | null };
+
+export type CookbookMember = {
+  cookbook_id: string;
+  user_id: string;
+  role: CookbookRole;
+  status: MemberStatus;
+  invited_by: string | null;
+  created_at: string;
+  profile: { id: string; display_name: string | null; nickname: string | null; avatar_url: string | null } | null;
+};
+
+export type SharedRecipe = {
+  id: string;
+  user_id: string;
+  title: string;
+  cuisine: string | null;
+  recipe_types: string[] | null;
+  photo_url: string | null;
+  source_url: string | null;
+  created_at: string | null;
+  avg_rating?: number | null;
+  rating_count?: number | null;
+};
+
+export const ROLE_OPTIONS: { value: CookbookRole; label: string }[] = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'viewer', label: 'Viewer' },
+];
+
+const BOOK_COLUMNS = 'id,name,owner_id,created_at';
+const RECIPE_COLUMNS = 'id,user_id,title,cuisine,recipe_types,photo_url,source_url,created_at,avg_rating,rating_count';
+
+/** Owners and editors can add and edit recipes; viewers only read. */
+export function canEditBook(role: CookbookRole | null | undefined): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+function toMyCookbook(row: any): MyCookbook | null {
+  const book = Array.isArray(row.book) ? row.book[0] : row.book;
+  if (!book) return null;
+  return { ...(book as SharedCookbook), role: row.role, status: row.status, invited_by: row.invited_by ?? null };
+}
+
+/** Every book the user belongs to or is invited to, A–Z. */
+export async function fetchMyCookbooks(uid: string): Promise<MyCookbook[]> {
+  const { data, error } = await supabase
+    .from('shared_cookbook_members')
+    .select(`role,status,invited_by,book:shared_cookbooks(${BOOK_COLUMNS})`)
+    .eq('user_id', uid);
+  if (error) throw error;
+  return ((data as any[]) ?? [])
+    .map(toMyCookbook)
+    .filter((b): b is MyCookbook => !!b)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** The user's membership in one book (null if none). */
+export async function fetchMyCookbook(uid: string, cookbookId: string): Promise<MyCookbook | null> {
+  const { data, error } = await supabase
+    .from('shared_cookbook_members')
+    .select(`role,status,invited_by,book:shared_cookbooks(${BOOK_COLUMNS})`)
+    .eq('user_id', uid)
+    .eq('cookbook_id', cookbookId)
+    .limit(1);
+  if (error) throw error;
+  const row = (data as any[])?.[0];
+  return row ? toMyCookbook(row) : null;
+}
+
+/** Create a book; a trigger makes the creator its accepted owner. */
+export async function createSharedCookbook(name: string): Promise<SharedCookbook> {
+  const { data, error } = await supabase
+    .from('shared_cookbooks')
+    .insert({ name: name.trim() })
+    .select(BOOK_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as SharedCookbook;
+}
+
+export async function renameSharedCookbook(id: string, name: string): Promise<void> {
+  const { error } = await supabase.from('shared_cookbooks').update({ name: name.trim() }).eq('id', id);
+  if (error) throw error;
+}
+
+/** Delete a book (owner only). Its recipes stay with their authors. */
+export async function deleteSharedCookbook(id: string): Promise<void> {
+  const { error } = await supabase.from('shared_cookbooks').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export async function fetchCookbookMembers(cookbookId: string): Promise<CookbookMember[]> {
+  const { data, error } = await supabase
+    .from('shared_cookbook_members')
+    .select('cookbook_id,user_id,role,status,invited_by,created_at')
+    .eq('cookbook_id', cookbookId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  const rows = (data as Omit<CookbookMember, 'profile'>[]) ?? [];
+  if (!rows.length) return [];
+
+  const { data: profs, error: pErr } = await supabase
+    .from('profiles')
+    .select('id, display_name, nickname, avatar_url')
+    .in('id', rows.map((m) => m.user_id));
+  if (pErr) throw pErr;
+  const byId = new Map(((profs as NonNullable<CookbookMember['profile']>[]) ?? []).map((p) => [p.id, p]));
+  return rows.map((m) => ({ ...m, profile: byId.get(m.user_id) ?? null }));
+}
+
+/** Recipes filed in a book, newest first. */
+export async function fetchCookbookRecipes(cookbookId: string): Promise<SharedRecipe[]> {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select(RECIPE_COLUMNS)
+    .eq('shared_cookbook_id', cookbookId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data as SharedRecipe[]) ?? [];
+}
+
+/** Invite someone (owner only). Resolves quietly if they're already invited or in. */
+export async function inviteToCookbook(cookbookId: string, userId: string, role: CookbookRole): Promise<void> {
+  const { error } = await supabase
+    .from('shared_cookbook_members')
+    .insert({ cookbook_id: cookbookId, user_id: userId, role, status: 'pending' });
+  if (error && error.code !== '23505') throw error;
+}
+
+export async function acceptCookbookInvite(uid: string, cookbookId: string): Promise<void> {
+  const { error } = await supabase
+    .from('shared_cookbook_members')
+    .update({ status: 'accepted', responded_at: new Date().toISOString() })
+    .match({ cookbook_id: cookbookId, user_id: uid, status: 'pending' });
+  if (error) throw error;
+}
+
+/** Decline an invite, leave a book, or (owner) remove a member or cancel an invite. */
+export async function removeCookbookMember(cookbookId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('shared_cookbook_members')
+    .delete()
+    .match({ cookbook_id: cookbookId, user_id: userId });
+  if (error) throw error;
+}
+
+export async function setCookbookRole(cookbookId: string, userId: string, role: CookbookRole): Promise<void> {
+  const { error } = await supabase
+    .from('shared_cookbook_members')
+    .update({ role })
+    .match({ cookbook_id: cookbookId, user_id: userId });
+  if (error) throw error;
+}
+
+/** Whether the signed-in user may edit a recipe (its author, or an owner/editor of its book). */
+export async function fetchCanEditRecipe(recipeId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('can_edit_recipe', { p_recipe_id: recipeId });
+  if (error) return false;
+  return data === true;
+}
@@ -0,0 +1,299 @@
+// lib/shoppingList.ts
+
+// Shopping list: ingredients from several recipes merged into one list
+// ("2 eggs" + "3 eggs" = "5 eggs", "1 cup milk" + "250 ml milk" = "485 ml milk"),
+// grouped by store aisle and saved per user in shopping_list_items (see README).
+
+import { supabase } from './supabaseClient';
+import { parseIngredientLine } from './ingredientParser';
+import { resolveIngredient } from './ingredientDisplay';
+import { fetchRecipeBundles } from './recipeBundle';
+import { amountFromBase, baseUnitSize, isMetricUnit } from './unitConversion';
+
+export type ShoppingItem = {
+  id: string;
+  item_key: string;
+  item_name: string;
+  quantity: number | null;
+  unit: string | null;
+  aisle: string;
+  checked: boolean;
+  recipe_ids: string[];
+  created_at: string;
+};
+
+/** One ingredient going onto the list. `scale` multiplies the quantity (servings). */
+export type ShoppingEntry = {
+  item_name: string;
+  quantity: number | null;
+  quantity_max?: number | null;
+  unit: string | null;
+  recipe_id?: string | null;
+  scale?: number;
+};
+
+export type MergedItem = Omit<ShoppingItem, 'id' | 'checked' | 'created_at'>;
+
+// ---------- Aisles ----------
+
+export const AISLES = [
+  'Produce',
+  'Meat & Seafood',
+  'Dairy & Eggs',
+  'Bakery',
+  'Pantry',
+  'Spices & Seasonings',
+  'Canned & Jarred',
+  'Frozen',
+  'Beverages',
+  'Other',
+] as const;
+
+// First match wins, so more specific words come before general ones.
+const AISLE_KEYWORDS: [string, string[]][] = [
+  ['Frozen', ['frozen', 'ice cream']],
+  ['Canned & Jarred', ['canned', 'tomato paste', 'tomato sauce', 'crushed tomato', 'passata', 'beans', 'chickpea', 'broth', 'stock', 'coconut milk', 'salsa', 'pickle', 'olives', 'jam', 'peanut butter', 'tuna']],
+  ['Spices & Seasonings', ['salt', 'pepper flakes', 'black pepper', 'peppercorn', 'cumin', 'paprika', 'cinnamon', 'nutmeg', 'oregano', 'thyme', 'rosemary', 'bay leaf', 'bay leaves', 'chili powder', 'curry', 'turmeric', 'clove', 'cardamom', 'vanilla', 'seasoning', 'garam masala', 'coriander seed']],
+  ['Dairy & Eggs', ['milk', 'butter', 'cream', 'cheese', 'parmesan', 'mozzarella', 'ricotta', 'yogurt', 'yoghurt', 'egg', 'sour cream', 'buttermilk']],
+  ['Meat & Seafood', ['chicken', 'beef', 'pork', 'lamb', 'turkey', 'bacon', 'sausage', 'ham', 'prosciutto', 'salmon', 'shrimp', 'prawn', 'fish', 'cod', 'steak', 'mince', 'ground meat']],
+  ['Bakery', ['bread', 'bun', 'roll', 'tortilla', 'pita', 'baguette', 'croissant', 'naan']],
+  ['Produce', ['onion', 'garlic', 'shallot', 'scallion', 'leek', 'tomato', 'potato', 'carrot', 'celery', 'pepper', 'zucchini', 'eggplant', 'aubergine', 'mushroom', 'spinach', 'lettuce', 'kale', 'cabbage', 'broccoli', 'cauliflower', 'cucumber', 'avocado', 'lemon', 'lime', 'orange', 'apple', 'banana', 'berries', 'berry', 'ginger', 'basil', 'parsley', 'cilantro', 'coriander', 'mint', 'dill', 'chive', 'squash', 'pumpkin', 'corn', 'pea', 'green bean', 'fruit', 'herb']],
+  ['Beverages', ['wine', 'beer', 'juice', 'coffee', 'tea', 'soda', 'water']],
+  ['Pantry', ['flour', 'sugar', 'rice', 'pasta', 'spaghetti', 'noodle', 'oats', 'oil', 'vinegar', 'honey', 'syrup', 'baking', 'yeast', 'cornstarch', 'cocoa', 'chocolate', 'nuts', 'almond', 'walnut', 'pecan', 'soy sauce', 'mustard', 'ketchup', 'mayonnaise', 'breadcrumbs', 'lentil', 'quinoa', 'cereal']],
+];
+
+// Whole words with an optional plural, so "eggplant" isn't an egg and "salted butter" isn't salt
+const AISLE_PATTERNS: [string, RegExp][] = AISLE_KEYWORDS.map(([aisle, words]) => [
+  aisle,
+  new RegExp(`\\b(${words.join('|')})(e?s)?\\b`),
+]);
+
+export function aisleFor(itemName: string, unit?: string | null): string {
+  if (unit === 'can') return 'Canned & Jarred';
+  const name = itemName.toLowerCase();
+  for (const [aisle, re] of AISLE_PATTERNS) {
+    if (re.test(name)) return aisle;
+  }
+  return 'Other';
+}
+
+// ---------- Item names ----------
+
+const PREP_WORDS = /\b(fresh|freshly|large|small|medium|extra|chopped|diced|minced|sliced|grated|shredded|crushed|peeled|softened|melted|ripe|boneless|skinless|finely|roughly|thinly)\b/g;
+
+function singular(word: string): string {
+  if (/ies$/.test(word)) return word.slice(0, -3) + 'y';
+  if (/oes$/.test(word)) return word.slice(0, -2);
+  if (/(ch|sh|x)es$/.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/** "Large Eggs" → "egg", "fresh basil leaves" → "basil leaf"; used to match items across recipes. */
+export function normalizeItemName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(PREP_WORDS, ' ')
+    .replace(/[^a-z0-9' -]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (!words.length) return name.toLowerCase().trim();
+  words[words.length - 1] = singular(words[words.length - 1]);
+  return words.join(' ');
+}
+
+// ---------- Merging ----------
+
+// Amounts only add up within one kind: volumes with volumes, weights with weights,
+// and count units ("2 cans", "3 eggs") with the same unit.
+function unitKind(unit: string | null): string {
+  return baseUnitSize(unit)?.kind ?? (unit || 'each');
+}
+
+type Acc = {
+  item_key: string;
+  names: string[];
+  units: Set<string>;
+  total: number | null; // ml / g for volume & weight, else plain count
+  metric: boolean;
+  recipe_ids: Set<string>;
+};
+
+function roundCount(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Combine entries into one line per item (and unit kind). */
+export function mergeIngredients(entries: ShoppingEntry[]): MergedItem[] {
+  const byKey = new Map<string, Acc>();
+
+  for (const raw of entries) {
+    const e = resolveIngredient({ ...raw, note: null });
+    const name = e.item_name.trim();
+    if (!name) continue;
+    const kind = unitKind(e.unit);
+    const key = `${normalizeItemName(name)}|${kind}`;
+    let acc = byKey.get(key);
+    if (!acc) {
+      acc = { item_key: key, names: [], units: new Set(), total: null, metric: false, recipe_ids: new Set() };
+      byKey.set(key, acc);
+    }
+    acc.names.push(name);
+    if (raw.recipe_id) acc.recipe_ids.add(raw.recipe_id);
+
+    // buy enough for the top of a range
+    const q = e.quantity_max ?? e.quantity;
+    if (q == null) continue;
+    const amount = q * (raw.scale ?? 1);
+    const size = baseUnitSize(e.unit);
+    if (e.unit) acc.units.add(e.unit);
+    if (isMetricUnit(e.unit)) acc.metric = true;
+    acc.total = (acc.total ?? 0) + (size ? amount * size.size : amount);
+  }
+
+  return Array.from(byKey.values()).map((acc) => {
+    const kind = acc.item_key.split('|').pop()!;
+    let quantity: number | null = null;
+    let unit: string | null = kind === 'each' ? null : kind;
+
+    if (acc.total != null) {
+      if (kind === 'volume' || kind === 'weight') {
+        const only = acc.units.size === 1 ? Array.from(acc.units)[0] : null;
+        if (only) {
+          quantity = roundCount(acc.total / baseUnitSize(only)!.size);
+          unit = only;
+        } else {
+          ({ quantity, unit } = amountFromBase(kind, acc.total, acc.metric));
+        }
+      } else {
+        quantity = roundCount(acc.total);
+      }
+    } else if (kind === 'volume' || kind === 'weight') {
+      unit = Array.from(acc.units)[0] ?? null;
+    }
+
+    // "5 eggs" reads better than "5 egg": prefer a plural spelling for counts above one
+    const plural = acc.names.find((n) => /s$/i.test(n));
+    const item_name = quantity != null && quantity > 1 && !unit && plural ? plural : acc.names[0];
+
+    return {
+      item_key: acc.item_key,
+      item_name,
+      quantity,
+      unit,
+      aisle: aisleFor(item_name, unit),
+      recipe_ids: Array.from(acc.recipe_ids),
+    };
+  });
+}
+
+/**
+ * Fold new items into the saved list: unchecked rows with the same item add up,
+ * everything else becomes a new row. Checked rows are left alone (already in the cart).
+ */
+export function mergeIntoList(existing: ShoppingItem[], incoming: MergedItem[]) {
+  const updates: (MergedItem & { id: string })[] = [];
+  const inserts: MergedItem[] = [];
+  for (const item of incoming) {
+    const match = existing.find((x) => !x.checked && x.item_key === item.item_key);
+    if (!match) {
+      inserts.push(item);
+      continue;
+    }
+    const [combined] = mergeIngredients([
+      { item_name: match.item_name, quantity: match.quantity, unit: match.unit },
+      { item_name: item.item_name, quantity: item.quantity, unit: item.unit },
+    ]);
+    updates.push({
+      ...combined,
+      id: match.id,
+      item_key: match.item_key,
+      recipe_ids: Array.from(new Set([...match.recipe_ids, ...item.recipe_ids])),
+    });
+  }
+  return { updates, inserts };
+}
+
+/** Items grouped by aisle, in store order; unchecked before checked within an aisle. */
+export function groupByAisle(items: ShoppingItem[]): { aisle: string; items: ShoppingItem[] }[] {
+  const order = (a: string) => {
+    const i = (AISLES as readonly string[]).indexOf(a);
+    return i === -1 ? AISLES.length : i;
+  };
+  const groups = new Map<string, ShoppingItem[]>();
+  items.forEach((it) => {
+    if (!groups.has(it.aisle)) groups.set(it.aisle, []);
+    groups.get(it.aisle)!.push(it);
+  });
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => order(a) - order(b))
+    .map(([aisle, list]) => ({
+      aisle,
+      items: list.sort((x, y) => Number(x.checked) - Number(y.checked) || x.item_name.localeCompare(y.item_name)),
+    }));
+}
+
+// ---------- Persistence ----------
+
+const ITEM_COLUMNS = 'id,item_key,item_name,quantity,unit,aisle,checked,recipe_ids,created_at';
+
+export async function fetchShoppingList(uid: string): Promise<ShoppingItem[]> {
+  const { data, error } = await supabase
+    .from('shopping_list_items')
+    .select(ITEM_COLUMNS)
+    .eq('user_id', uid)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data as ShoppingItem[]) ?? [];
+}
+
+async function saveMerged(uid: string, incoming: MergedItem[]): Promise<number> {
+  if (!incoming.length) return 0;
+  const existing = await fetchShoppingList(uid);
+  const { updates, inserts } = mergeIntoList(existing, incoming);
+
+  for (const u of updates) {
+    const { id, ...fields } = u;
+    const { error } = await supabase.from('shopping_list_items').update(fields).eq('id', id).eq('user_id', uid);
+    if (error) throw error;
+  }
+  if (inserts.length) {
+    const { error } = await supabase
+      .from('shopping_list_items')
+      .insert(inserts.map((i) => ({ ...i, user_id: uid })));
+    if (error) throw error;
+  }
+  return incoming.length;
+}
+
+/** Add every ingredient of the given recipes (optionally scaled) to the user's list. */
+export async function addRecipesToShoppingList(
+  uid: string,
+  recipes: { id: string; scale?: number }[]
+): Promise<number> {
+  const bundles = await fetchRecipeBundles(Array.from(new Set(recipes.map((r) => r.id))));
+  const byId = new Map(bundles.map((b) => [b.id, b]));
+  const entries: ShoppingEntry[] = recipes.flatMap((r) =>
+    (byId.get(r.id)?.ingredients ?? []).map((i) => ({ ...i, recipe_id: r.id, scale: r.scale ?? 1 }))
+  );
+  return saveMerged(uid, mergeIngredients(entries));
+}
+
+/** Typed-in extra ("2 lemons", "paper towels"). */
+export async function addManualItem(uid: string, line: string): Promise<void> {
+  const p = parseIngredientLine(line);
+  await saveMerged(uid, mergeIngredients([{ ...p }]));
+}
+
+export async function setItemChecked(id: string, checked: boolean): Promise<void> {
+  const { error } = await supabase.from('shopping_list_items').update({ checked }).eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteShoppingItems(uid: string, which: 'checked' | 'all'): Promise<void> {
+  let q = supabase.from('shopping_list_items').delete().eq('user_id', uid);
+  if (which === 'checked') q = q.eq('checked', true);
+  const { error } = await q;
+  if (error) throw error;
+}
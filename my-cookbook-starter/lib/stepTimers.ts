@@ -0,0 +1,100 @@
+// lib/stepTimers.ts
+
+// Finds cooking times in step text ("bake 25 minutes", "simmer 1 hour 15 min",
+// "rest 10–15 mins") so cook mode can offer a tap-to-start timer for each.
+
+import { parseNumber } from './ingredientParser';
+
+export type StepDuration = {
+  /** Text as written in the step, e.g. "25–30 minutes". */
+  text: string;
+  /** Where `text` sits in the step, for highlighting. */
+  start: number;
+  end: number;
+  /** Timer length; for ranges the lower bound, so you check early rather than late. */
+  seconds: number;
+  /** Upper bound of a range, if any. */
+  maxSeconds: number | null;
+};
+
+const UNICODE: Record<string, number> = { '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75 };
+const WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, fifteen: 15, twenty: 20, thirty: 30,
+};
+
+// "1", "1.5", "1 1/2", "1/2", "1½", "½", or a number word
+const NUM = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?\s?[½⅓⅔¼¾]?|[½⅓⅔¼¾]|\b(?:an?|one|two|three|four|five|six|seven|eight|nine|ten|twelve|fifteen|twenty|thirty)(?=\s)`;
+const UNIT = String.raw`hours?|hrs?|minutes?|mins?|seconds?|secs?`;
+const PART = String.raw`(${NUM})(?:\s*(?:-|–|—|to|or)\s*(${NUM}))?\s*(${UNIT})\b`;
+const PART_RE = new RegExp(PART, 'gi');
+
+function toNumber(raw: string): number | null {
+  const s = raw.trim().toLowerCase();
+  if (WORDS[s] != null) return WORDS[s];
+  const m = s.match(/^(\d+(?:[.,]\d+)?)?\s?([½⅓⅔¼¾])$/);
+  if (m) return (m[1] ? parseNumber(m[1]) ?? 0 : 0) + UNICODE[m[2]];
+  return parseNumber(s);
+}
+
+function unitSeconds(unit: string): number {
+  const u = unit.toLowerCase();
+  if (u.startsWith('h')) return 3600;
+  if (u.startsWith('m')) return 60;
+  return 1;
+}
+
+/** Every duration in a step, in order. "1 hour 15 minutes" is one duration. */
+export function findStepDurations(text: string): StepDuration[] {
+  const parts: StepDuration[] = [];
+  for (const m of Array.from(text.matchAll(PART_RE))) {
+    const lo = toNumber(m[1]);
+    if (lo == null || lo <= 0) continue;
+    const hi = m[2] ? toNumber(m[2]) : null;
+    const mult = unitSeconds(m[3]);
+    const start = m.index ?? 0;
+    parts.push({
+      text: m[0],
+      start,
+      end: start + m[0].length,
+      seconds: Math.round(lo * mult),
+      maxSeconds: hi != null && hi > lo ? Math.round(hi * mult) : null,
+    });
+  }
+
+  // fold "1 hour" + "15 minutes" (optionally joined by "and") into one
+  const merged: StepDuration[] = [];
+  for (const p of parts) {
+    const prev = merged[merged.length - 1];
+    const gap = prev ? text.slice(prev.end, p.start) : '';
+    if (prev && /^\s*(?:and\s*)?$/i.test(gap) && prev.maxSeconds == null && p.seconds < prev.seconds) {
+      merged[merged.length - 1] = {
+        ...prev,
+        text: text.slice(prev.start, p.end),
+        end: p.end,
+        seconds: prev.seconds + p.seconds,
+        maxSeconds: p.maxSeconds != null ? prev.seconds + p.maxSeconds : null,
+      };
+    } else {
+      merged.push(p);
+    }
+  }
+  return merged;
+}
+
+/** 90 → "1:30", 3725 → "1:02:05". */
+export function formatClock(totalSeconds: number): string {
+  const s = Math.max(0, Math.ceil(totalSeconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = String(s % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${sec}` : `${m}:${sec}`;
+}
+
+/** 1500 → "25 min", 4500 → "1 hr 15 min", 30 → "30 sec". */
+export function formatDuration(totalSeconds: number): string {
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return [h ? `${h} hr` : '', m ? `${m} min` : '', s && !h ? `${s} sec` : ''].filter(Boolean).join(' ') || '0 sec';
+}
@@ -0,0 +1,228 @@
+// lib/unitConversion.ts
+
+// Converts ingredient amounts between metric and US customary units.
+// Volume ↔ volume and weight ↔ weight are exact; volume ↔ weight goes through
+// an approximate density table for common pantry ingredients.
+
+import { getUnit } from './ingredientParser';
+import { formatFriendlyQuantity } from './fractions';
+
+export type UnitSystem = 'original' | 'metric' | 'us';
+
+export const UNIT_SYSTEM_OPTIONS: { value: UnitSystem; label: string }[] = [
+  { value: 'original', label: 'As entered' },
+  { value: 'metric', label: 'Metric' },
+  { value: 'us', label: 'US' },
+];
+
+export function isUnitSystem(v: unknown): v is UnitSystem {
+  return v === 'original' || v === 'metric' || v === 'us';
+}
+
+export type Amount = {
+  quantity: number | null;
+  quantity_max?: number | null;
+  unit: string | null;
+};
+
+// ---------- Tables ----------
+
+// millilitres per unit
+const ML_PER: Record<string, number> = {
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  'fl oz': 29.5735,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+};
+
+// grams per unit
+const G_PER: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const METRIC_UNITS = new Set(['ml', 'cl', 'dl', 'l', 'mg', 'g', 'kg']);
+
+type Density = { names: string[]; gPerMl: number; liquid?: boolean };
+
+// Approximate grams per millilitre. Liquids stay in ml/l in metric mode.
+const DENSITIES: Density[] = [
+  { names: ['all-purpose flour', 'plain flour', 'flour'], gPerMl: 0.53 },
+  { names: ['bread flour'], gPerMl: 0.55 },
+  { names: ['whole wheat flour', 'wholemeal flour'], gPerMl: 0.51 },
+  { names: ['cake flour'], gPerMl: 0.48 },
+  { names: ['granulated sugar', 'white sugar', 'caster sugar', 'sugar'], gPerMl: 0.85 },
+  { names: ['brown sugar'], gPerMl: 0.93 },
+  { names: ['powdered sugar', 'icing sugar', 'confectioners sugar', "confectioners' sugar"], gPerMl: 0.51 },
+  { names: ['butter'], gPerMl: 0.96 },
+  { names: ['cocoa powder', 'cocoa'], gPerMl: 0.42 },
+  { names: ['cornstarch', 'cornflour'], gPerMl: 0.54 },
+  { names: ['baking powder'], gPerMl: 0.9 },
+  { names: ['baking soda', 'bicarbonate of soda'], gPerMl: 0.92 },
+  { names: ['kosher salt'], gPerMl: 0.54 },
+  { names: ['salt', 'table salt', 'sea salt'], gPerMl: 1.2 },
+  { names: ['rice'], gPerMl: 0.85 },
+  { names: ['rolled oats', 'oats'], gPerMl: 0.41 },
+  { names: ['chocolate chips'], gPerMl: 0.72 },
+  { names: ['peanut butter'], gPerMl: 1.08 },
+  { names: ['grated parmesan', 'parmesan'], gPerMl: 0.42 },
+  { names: ['shredded cheese', 'grated cheese'], gPerMl: 0.47 },
+  { names: ['honey'], gPerMl: 1.42 },
+  { names: ['maple syrup'], gPerMl: 1.32 },
+  { names: ['yogurt', 'yoghurt', 'sour cream'], gPerMl: 1.03 },
+  { names: ['water', 'stock', 'broth'], gPerMl: 1, liquid: true },
+  { names: ['milk', 'buttermilk'], gPerMl: 1.03, liquid: true },
+  { names: ['heavy cream', 'cream'], gPerMl: 1, liquid: true },
+  { names: ['olive oil', 'vegetable oil', 'canola oil', 'oil'], gPerMl: 0.92, liquid: true },
+  { names: ['vinegar', 'lemon juice', 'lime juice', 'juice'], gPerMl: 1.01, liquid: true },
+];
+
+// Longest names first so "brown sugar" wins over "sugar".
+const DENSITY_LOOKUP: { name: string; d: Density }[] = DENSITIES
+  .flatMap((d) => d.names.map((name) => ({ name, d })))
+  .sort((a, b) => b.name.length - a.name.length);
+
+/** Find the density entry for an ingredient name ("2 cups sifted flour" → flour). */
+export function densityFor(itemName: string | null | undefined): Density | null {
+  if (!itemName) return null;
+  const hay = ` ${itemName.toLowerCase().replace(/[^a-z' -]/g, ' ')} `;
+  for (const { name, d } of DENSITY_LOOKUP) {
+    if (hay.includes(` ${name} `) || hay.includes(` ${name}s `)) return d;
+  }
+  return null;
+}
+
+// ---------- Picking a readable unit ----------
+
+function bestMetricVolume(ml: number): string {
+  return ml >= 1000 ? 'l' : 'ml';
+}
+function bestMetricWeight(g: number): string {
+  return g >= 1000 ? 'kg' : 'g';
+}
+function bestUsVolume(ml: number): string {
+  if (ml < ML_PER.tbsp) return 'tsp';
+  if (ml < ML_PER.cup / 4) return 'tbsp';
+  if (ml < ML_PER.quart * 2) return 'cup';
+  if (ml < ML_PER.gallon) return 'quart';
+  return 'gallon';
+}
+function bestUsWeight(g: number): string {
+  return g >= G_PER.lb ? 'lb' : 'oz';
+}
+
+/** Round metric results to what a kitchen scale or jug can measure. */
+function roundMetric(n: number, unit: string): number {
+  if (unit === 'l' || unit === 'kg') return Math.round(n * 100) / 100;
+  if (n >= 100) return Math.round(n / 5) * 5;
+  if (n >= 10) return Math.round(n);
+  return Math.round(n * 10) / 10;
+}
+
+/** Snap US results to the nearest eighth or third so they match measuring cups and spoons. */
+function roundUs(n: number): number {
+  const eighths = Math.round(n * 8) / 8;
+  const thirds = Math.round(n * 3) / 3;
+  const best = Math.abs(eighths - n) <= Math.abs(thirds - n) ? eighths : thirds;
+  return best > 0 ? best : n;
+}
+
+// ---------- Conversion ----------
+
+/**
+ * Convert an amount for display in the given unit system.
+ * `itemName` enables volume ↔ weight conversion via the density table.
+ * Unknown or count units (cloves, cans, pinches) pass through unchanged.
+ */
+export function convertAmount(amount: Amount, system: UnitSystem, itemName?: string | null): Amount {
+  const { quantity, unit } = amount;
+  const quantityMax = amount.quantity_max ?? null;
+  if (system === 'original' || quantity == null || !unit) return amount;
+  const def = getUnit(unit);
+  if (!def || def.kind === 'count') return amount;
+
+  const density = densityFor(itemName);
+  // Express the largest value in a base unit to pick one target unit for the whole range.
+  const ref = quantityMax ?? quantity;
+
+  if (system === 'metric') {
+    if (METRIC_UNITS.has(unit)) return amount;
+    if (def.kind === 'weight') {
+      const target = bestMetricWeight(ref * G_PER[unit]);
+      return rescale(amount, G_PER[unit] / G_PER[target], target, true);
+    }
+    // Teaspoons and tablespoons are standard metric measures too.
+    if (unit === 'tsp' || unit === 'tbsp') return amount;
+    if (density && !density.liquid) {
+      const target = bestMetricWeight(ref * ML_PER[unit] * density.gPerMl);
+      return rescale(amount, (ML_PER[unit] * density.gPerMl) / G_PER[target], target, true);
+    }
+    const target = bestMetricVolume(ref * ML_PER[unit]);
+    return rescale(amount, ML_PER[unit] / ML_PER[target], target, true);
+  }
+
+  // system === 'us'
+  if (!METRIC_UNITS.has(unit)) return amount;
+  if (def.kind === 'volume') {
+    const target = bestUsVolume(ref * ML_PER[unit]);
+    return rescale(amount, ML_PER[unit] / ML_PER[target], target, false);
+  }
+  // Weight: dry pantry staples read better as cups/spoons in US recipes.
+  if (density && !density.liquid) {
+    const ml = (ref * G_PER[unit]) / density.gPerMl;
+    const target = bestUsVolume(ml);
+    return rescale(amount, G_PER[unit] / density.gPerMl / ML_PER[target], target, false);
+  }
+  const target = bestUsWeight(ref * G_PER[unit]);
+  return rescale(amount, G_PER[unit] / G_PER[target], target, false);
+}
+
+function rescale(amount: Amount, factor: number, unit: string, metric: boolean): Amount {
+  const conv = (n: number | null | undefined) => {
+    if (n == null) return null;
+    const v = n * factor;
+    return metric ? roundMetric(v, unit) : roundUs(v);
+  };
+  return { quantity: conv(amount.quantity), quantity_max: conv(amount.quantity_max), unit };
+}
+
+// ---------- Adding amounts up (shopping list) ----------
+
+/** How many ml (volume) or g (weight) one `unit` holds; null for count units and unknowns. */
+export function baseUnitSize(unit: string | null | undefined): { kind: 'volume' | 'weight'; size: number } | null {
+  if (!unit) return null;
+  if (ML_PER[unit] != null) return { kind: 'volume', size: ML_PER[unit] };
+  if (G_PER[unit] != null) return { kind: 'weight', size: G_PER[unit] };
+  return null;
+}
+
+export function isMetricUnit(unit: string | null | undefined): boolean {
+  return !!unit && METRIC_UNITS.has(unit);
+}
+
+/** Express a total (in ml or g) in a unit people shop in, rounded like convertAmount does. */
+export function amountFromBase(kind: 'volume' | 'weight', base: number, metric: boolean): { quantity: number; unit: string } {
+  const unit =
+    kind === 'volume'
+      ? metric ? bestMetricVolume(base) : bestUsVolume(base)
+      : metric ? bestMetricWeight(base) : bestUsWeight(base);
+  const n = base / (kind === 'volume' ? ML_PER[unit] : G_PER[unit]);
+  return { quantity: metric ? roundMetric(n, unit) : roundUs(n), unit };
+}
+
+/** Metric amounts read best as decimals ("1.5 kg"); everything else as fractions ("1½ cups"). */
+export function formatAmountNumber(n: number, unit: string | null | undefined): string {
+  if (unit && METRIC_UNITS.has(unit)) return String(Math.round(n * 100) / 100);
+  return formatFriendlyQuantity(n);
+}
+
@@ -0,0 +1,112 @@
+// public/sw.js
+
+// Offline support. The app shell (pages + Next's static chunks) and the Supabase
+// reads the app makes are cached as they go by, so whatever the user last saw, plus
+// what lib/offlineCache.ts warms up (my cookbook, bookmarks, this week's plan),
+// still opens without a connection. Writes are never cached: the page queues those
+// itself (lib/offlineQueue.ts).
+
+const SHELL_CACHE = 'cookbook-shell-v1';
+const DATA_CACHE = 'cookbook-data-v1';
+const PHOTO_CACHE = 'cookbook-photos-v1';
+const CACHES = [SHELL_CACHE, DATA_CACHE, PHOTO_CACHE];
+
+const SHELL_URLS = ['/', '/cookbook', '/plan', '/friends', '/icon.svg', '/manifest.webmanifest'];
+const DATA_TIMEOUT_MS = 4000;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      // one missing page shouldn't stop the worker from installing
+      .then((cache) => Promise.all(SHELL_URLS.map((url) => cache.add(url).catch(() => undefined))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => !CACHES.includes(k)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// On log out: the data and photos belong to that user.
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'clear-user-data') {
+    event.waitUntil(Promise.all([caches.delete(DATA_CACHE), caches.delete(PHOTO_CACHE)]));
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const req = event.request;
+  if (req.method !== 'GET') return;
+  const url = new URL(req.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/_next/static/')) {
+      event.respondWith(cacheFirst(SHELL_CACHE, req));
+    } else if (!url.pathname.startsWith('/api/')) {
+      event.respondWith(networkFirst(SHELL_CACHE, req, req, req.mode === 'navigate' ? '/cookbook' : null));
+    }
+    return;
+  }
+
+  if (url.pathname.includes('/storage/v1/object/public/recipe-photos/')) {
+    event.respondWith(cacheFirst(PHOTO_CACHE, req));
+    return;
+  }
+
+  if (url.pathname.startsWith('/rest/v1/') || url.pathname === '/auth/v1/user') {
+    event.respondWith(networkFirst(DATA_CACHE, req, dataKey(req), null, DATA_TIMEOUT_MS));
+  }
+});
+
+// `.single()` asks PostgREST for an object instead of an array at the same URL
+function dataKey(req) {
+  const accept = req.headers.get('accept') || '';
+  if (!accept.includes('vnd.pgrst.object')) return req.url;
+  return req.url + (req.url.includes('?') ? '&' : '?') + '__single=1';
+}
+
+async function cacheFirst(cacheName, req) {
+  const cache = await caches.open(cacheName);
+  const hit = await cache.match(req, { ignoreVary: true });
+  if (hit) return hit;
+  const res = await fetch(req);
+  if (res.ok || res.type === 'opaque') cache.put(req, res.clone());
+  return res;
+}
+
+// `timeoutMs` means "slow, so answer from the cache if there's a copy"; without a copy
+// the request keeps waiting for the network rather than failing while online.
+async function networkFirst(cacheName, req, key, fallbackUrl, timeoutMs) {
+  const cache = await caches.open(cacheName);
+  const network = fetch(req).then((res) => {
+    if (res.ok) cache.put(key, res.clone()); // still refreshes the cache if it arrives late
+    return res;
+  });
+  network.catch(() => undefined); // a late failure after we answered from the cache
+
+  try {
+    if (timeoutMs) {
+      const res = await Promise.race([network, delay(timeoutMs)]);
+      if (res) return res;
+      const hit = await cache.match(key, { ignoreVary: true });
+      if (hit) return hit;
+    }
+    return await network;
+  } catch (err) {
+    const hit =
+      (await cache.match(key, { ignoreVary: true })) ||
+      (fallbackUrl && (await cache.match(fallbackUrl, { ignoreVary: true })));
+    if (hit) return hit;
+    throw err;
+  }
+}
+
+function delay(ms) {
+  return new Promise((resolve) => setTimeout(() => resolve(null), ms));
+}
@@ -0,0 +1,53 @@
+// scripts/check-recipe-import.mjs
+
+// Runs lib/recipeImport.ts over the saved pages in fixtures/recipe-import and compares
+// the result with the .json next to each page ({ url, recipe }). No network needed.
+//
+//   npm run test:import              check every fixture
+//   npm run test:import -- --update  rewrite the expected .json from the current output
+
+import { readFileSync, readdirSync, writeFileSync, existsSync } from 'node:fs';
+import { isDeepStrictEqual } from 'node:util';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const dir = join(root, 'fixtures', 'recipe-import');
+const update = process.argv.includes('--update');
+
+// lib/recipeImport.ts has no imports, so it can be transpiled and loaded as-is
+const source = readFileSync(join(root, 'lib', 'recipeImport.ts'), 'utf8');
+const { outputText } = ts.transpileModule(source, {
+  compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+});
+const { extractRecipeFromHtml } = await import(`data:text/javascript,${encodeURIComponent(outputText)}`);
+
+let failed = 0;
+for (const file of readdirSync(dir).filter((f) => f.endsWith('.html')).sort()) {
+  const html = readFileSync(join(dir, file), 'utf8');
+  const jsonPath = join(dir, file.replace(/\.html$/, '.json'));
+  const expected = existsSync(jsonPath) ? JSON.parse(readFileSync(jsonPath, 'utf8')) : null;
+  const url = expected?.url ?? `https://fixtures.example.com/${file.replace(/\.html$/, '')}/`;
+  const recipe = extractRecipeFromHtml(html, url);
+
+  if (update) {
+    writeFileSync(jsonPath, `${JSON.stringify({ url, recipe }, null, 2)}\n`);
+    console.log(`updated ${file}`);
+  } else if (!expected) {
+    failed++;
+    console.log(`FAIL ${file}: no ${file.replace(/\.html$/, '.json')} (run with --update)`);
+  } else if (!isDeepStrictEqual(recipe, expected.recipe)) {
+    failed++;
+    console.log(`FAIL ${file}`);
+    console.log(`  expected ${JSON.stringify(expected.recipe)}`);
+    console.log(`  got      ${JSON.stringify(recipe)}`);
+  } else {
+    console.log(`ok   ${file}`);
+  }
+}
+
+if (failed) {
+  console.log(`${failed} fixture(s) failed`);
+  process.exit(1);
+}